@@ -0,0 +1,33 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runCalendarCli } from '../dist/headless.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Command-line entry point for the headless calendar tools (`npm run build` first)
+ * Calendars are read from a file path, or by ID from the bundled calendars directory
+ */
+
+const calendarsDir = path.join(__dirname, '../calendars');
+
+function loadCalendar(reference) {
+  const bundledFile = path.join(calendarsDir, `${reference}.json`);
+  const file = fs.existsSync(reference) ? reference : bundledFile;
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`No calendar file or bundled calendar named: ${reference}`);
+  }
+
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+process.exitCode = runCalendarCli(process.argv.slice(2), {
+  loadCalendar,
+  log: line => console.log(line),
+  error: line => console.error(line),
+});
@@ -5,34 +5,46 @@ import scss from 'rollup-plugin-scss';
 import { createSentryConfig } from '@rayners/foundry-dev-tools/sentry';
 import packageJson from './package.json' with { type: 'json' };
 
-export default {
-  input: 'src/module.ts',
-  output: {
-    file: 'dist/module.js',
-    format: 'es',
-    sourcemap: true,
-    inlineDynamicImports: true,
+export default [
+  {
+    input: 'src/module.ts',
+    output: {
+      file: 'dist/module.js',
+      format: 'es',
+      sourcemap: true,
+      inlineDynamicImports: true,
+    },
+    plugins: [
+      resolve(),
+      typescript(),
+      scss({
+        fileName: 'styles/seasons-and-stars.css',
+        outputStyle: 'compressed',
+        watch: 'src/styles',
+        verbose: false, // Reduce log noise
+      }),
+      copy({
+        targets: [
+          { src: 'module.json', dest: 'dist' },
+          { src: 'languages', dest: 'dist' },
+          { src: 'calendars', dest: 'dist' },
+          { src: 'templates', dest: 'dist' },
+          { src: 'README.md', dest: 'dist' },
+          { src: 'CHANGELOG.md', dest: 'dist' },
+          { src: 'LICENSE', dest: 'dist' },
+        ],
+      }),
+      createSentryConfig('seasons-and-stars', packageJson.version),
+    ].filter(Boolean), // Remove null plugins (Sentry disabled in non-CI)
   },
-  plugins: [
-    resolve(),
-    typescript(),
-    scss({
-      fileName: 'styles/seasons-and-stars.css',
-      outputStyle: 'compressed',
-      watch: 'src/styles',
-      verbose: false, // Reduce log noise
-    }),
-    copy({
-      targets: [
-        { src: 'module.json', dest: 'dist' },
-        { src: 'languages', dest: 'dist' },
-        { src: 'calendars', dest: 'dist' },
-        { src: 'templates', dest: 'dist' },
-        { src: 'README.md', dest: 'dist' },
-        { src: 'CHANGELOG.md', dest: 'dist' },
-        { src: 'LICENSE', dest: 'dist' },
-      ],
-    }),
-    createSentryConfig('seasons-and-stars', packageJson.version),
-  ].filter(Boolean), // Remove null plugins (Sentry disabled in non-CI)
-};
+  // Foundry-free engine for Node tools and the seasons-stars CLI
+  {
+    input: 'src/headless.ts',
+    output: {
+      file: 'dist/headless.js',
+      format: 'es',
+      sourcemap: true,
+    },
+    plugins: [resolve(), typescript()],
+  },
+];
@@ -12,6 +12,7 @@ import { CalendarMiniWidget } from '../ui/calendar-mini-widget';
 import { CalendarGridWidget } from '../ui/calendar-grid-widget';
 import { CalendarDate as CalendarDateClass } from './calendar-date';
 import { Logger } from './logger';
+import { getSceneHemisphere } from './scene-hemisphere';
 
 // Core integration interface types
 export interface SeasonsStarsAPI {
@@ -106,6 +107,10 @@ export interface DateChangeEvent {
   oldDate: CalendarDate;
   worldTime: number;
   calendarId: string;
+  /** 1-based day of the year, counting intercalary days */
+  dayOfYear: number;
+  /** 1-based week of the year, or null for intercalary days outside the week */
+  weekOfYear: number | null;
 }
 
 export interface CalendarChangeEvent {
@@ -367,7 +372,7 @@ class IntegrationAPI implements SeasonsStarsAPI {
       throw new Error('No active calendar');
     }
     const calendarDate = new CalendarDateClass(date, calendar);
-    return calendarDate.format(options || {});
+    return calendarDate.format(options || { namedFormat: 'default' });
   }
 
   getActiveCalendar(): SeasonsStarsCalendar {
@@ -426,15 +431,28 @@ class IntegrationAPI implements SeasonsStarsAPI {
   }
 
   getSunriseSunset(date: CalendarDate, calendarId?: string): TimeOfDay {
-    // Default implementation - can be enhanced with calendar-specific data
-    return {
-      sunrise: 6, // 6 AM
-      sunset: 18, // 6 PM
-    };
+    const engine = calendarId
+      ? this.manager.engines.get(calendarId)
+      : this.manager.getActiveEngine();
+
+    if (!engine) {
+      throw new Error('No calendar available');
+    }
+
+    return engine.getSunriseSunset(date);
   }
 
   getSeasonInfo(date: CalendarDate, calendarId?: string): SeasonInfo {
-    // Default seasonal calculation - can be enhanced with calendar-specific data
+    const engine = calendarId
+      ? this.manager.engines.get(calendarId)
+      : this.manager.getActiveEngine();
+    const season = engine?.getSeason(date, getSceneHemisphere());
+
+    if (season) {
+      return { name: season.name, icon: season.icon || season.name.toLowerCase() };
+    }
+
+    // Calendars without seasons fall back to Earth-like month ranges
     const month = date.month;
 
     if (month >= 3 && month <= 5) {
@@ -0,0 +1,244 @@
+/**
+ * Command-line tools for Seasons & Stars calendars
+ *
+ * Validates calendar files, converts between world time and dates and prints month
+ * grids. File access and output go through `CalendarCliIO`, so the commands run the
+ * same in Node (see `bin/seasons-stars.js`) and in tests.
+ */
+
+import type { CalendarDate, SeasonsStarsCalendar } from '../types/calendar';
+import { CalendarEngine } from './calendar-engine';
+import { CalendarInheritance } from './calendar-inheritance';
+import { CalendarValidator } from './calendar-validator';
+import { DateFormatter } from './date-formatter';
+import { DateParser } from './date-parser';
+
+export interface CalendarCliIO {
+  /** Read a calendar by file path or bundled calendar ID; throws when it can't be read */
+  loadCalendar(reference: string): unknown;
+  log(line: string): void;
+  error(line: string): void;
+}
+
+const USAGE = [
+  'Usage: seasons-stars <command> [arguments]',
+  '',
+  'Commands:',
+  '  validate <calendar...>               Check calendar files for errors and warnings',
+  '  to-date <calendar> <worldTime>       Convert world time (seconds) to a date',
+  '  to-time <calendar> <date> [hh:mm]    Convert a date such as "1492-3-10" to world time',
+  '  grid <calendar> <year> <month>       Print a month as a grid',
+  '',
+  'A calendar is a path to a calendar JSON file or the ID of a bundled calendar.',
+];
+
+const TIME_PATTERN = /^(\d+):(\d+)(?::(\d+))?$/;
+
+/**
+ * Run a CLI command, returning the process exit code
+ */
+export function runCalendarCli(args: string[], io: CalendarCliIO): number {
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case 'validate':
+        return validateCommand(rest, io);
+      case 'to-date':
+        return toDateCommand(rest, io);
+      case 'to-time':
+        return toTimeCommand(rest, io);
+      case 'grid':
+        return gridCommand(rest, io);
+      case undefined:
+      case 'help':
+      case '--help':
+        USAGE.forEach(line => io.log(line));
+        return command === undefined ? 1 : 0;
+      default:
+        io.error(`Unknown command: ${command}`);
+        USAGE.forEach(line => io.error(line));
+        return 1;
+    }
+  } catch (error) {
+    io.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+/**
+ * Load a calendar and merge it onto the calendars it extends
+ */
+function loadCalendar(reference: string, io: CalendarCliIO, seen: string[] = []): unknown {
+  const calendar = io.loadCalendar(reference) as SeasonsStarsCalendar;
+  const parentId = calendar?.extends;
+  if (typeof parentId !== 'string') return calendar;
+
+  if (seen.includes(parentId) || parentId === calendar.id) {
+    throw new Error(`Calendar ${calendar.id} extends itself through ${parentId}`);
+  }
+
+  const parent = loadCalendar(parentId, io, [...seen, calendar.id]) as SeasonsStarsCalendar;
+  return CalendarInheritance.merge(parent, calendar);
+}
+
+/**
+ * Load a calendar that must be valid, ready for date math
+ */
+function loadValidCalendar(reference: string, io: CalendarCliIO): SeasonsStarsCalendar {
+  const calendar = loadCalendar(reference, io);
+  const { errors } = CalendarValidator.validate(calendar);
+
+  if (errors.length > 0) {
+    throw new Error(`Calendar ${reference} is invalid: ${errors.join(', ')}`);
+  }
+
+  return calendar as SeasonsStarsCalendar;
+}
+
+function requireArguments(args: string[], count: number, usage: string): void {
+  if (args.length < count) {
+    throw new Error(`Usage: seasons-stars ${usage}`);
+  }
+}
+
+function parseWholeNumber(text: string, label: string): number {
+  const value = Number(text);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${label} must be a whole number: ${text}`);
+  }
+  return value;
+}
+
+function validateCommand(args: string[], io: CalendarCliIO): number {
+  requireArguments(args, 1, 'validate <calendar...>');
+  let failed = 0;
+
+  for (const reference of args) {
+    let result;
+    try {
+      result = CalendarValidator.validate(loadCalendar(reference, io));
+    } catch (error) {
+      io.error(`✗ ${reference}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+      continue;
+    }
+
+    if (result.isValid) {
+      io.log(`✓ ${reference}`);
+    } else {
+      io.error(`✗ ${reference}`);
+      failed++;
+    }
+    result.errors.forEach(message => io.error(`  error: ${message}`));
+    result.warnings.forEach(message => io.log(`  warning: ${message}`));
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+function toDateCommand(args: string[], io: CalendarCliIO): number {
+  requireArguments(args, 2, 'to-date <calendar> <worldTime>');
+  const calendar = loadValidCalendar(args[0], io);
+  const engine = new CalendarEngine(calendar);
+  const date = engine.worldTimeToDate(parseWholeNumber(args[1], 'World time'));
+
+  io.log(DateFormatter.formatNamed(date, calendar, 'widgetLong', engine));
+  io.log(JSON.stringify(date));
+  return 0;
+}
+
+function toTimeCommand(args: string[], io: CalendarCliIO): number {
+  requireArguments(args, 2, 'to-time <calendar> <date> [hh:mm[:ss]]');
+  const calendar = loadValidCalendar(args[0], io);
+  const engine = new CalendarEngine(calendar);
+
+  const words = args.slice(1);
+  const timeMatch = words.length > 1 ? words[words.length - 1].match(TIME_PATTERN) : null;
+  if (timeMatch) words.pop();
+
+  const text = words.join(' ');
+  const [best] = DateParser.parse(text, calendar, engine);
+  if (!best) {
+    throw new Error(`Could not read a ${calendar.id} date from: ${text}`);
+  }
+
+  const date: CalendarDate = {
+    ...best.date,
+    time: {
+      hour: Number(timeMatch?.[1] ?? 0),
+      minute: Number(timeMatch?.[2] ?? 0),
+      second: Number(timeMatch?.[3] ?? 0),
+    },
+  };
+
+  io.log(String(engine.dateToWorldTime(date)));
+  return 0;
+}
+
+function gridCommand(args: string[], io: CalendarCliIO): number {
+  requireArguments(args, 3, 'grid <calendar> <year> <month>');
+  const calendar = loadValidCalendar(args[0], io);
+  const engine = new CalendarEngine(calendar);
+  const year = parseWholeNumber(args[1], 'Year');
+
+  // Months can be given by number or name
+  const byName = calendar.months.findIndex(
+    month => month.name.toLowerCase() === args[2].toLowerCase()
+  );
+  const month = byName >= 0 ? byName + 1 : parseWholeNumber(args[2], 'Month');
+  if (month < 1 || month > calendar.months.length) {
+    throw new Error(`Month must be between 1 and ${calendar.months.length}: ${args[2]}`);
+  }
+
+  formatMonthGrid(engine, calendar, year, month).forEach(line => io.log(line));
+  return 0;
+}
+
+/**
+ * Lay out a month as text: a title, weekday headers, one row per week and the
+ * intercalary days that follow the month
+ */
+function formatMonthGrid(
+  engine: CalendarEngine,
+  calendar: SeasonsStarsCalendar,
+  year: number,
+  month: number
+): string[] {
+  const weekLength = calendar.weekdays.length;
+  const headers = calendar.weekdays.map(weekday => weekday.abbreviation || weekday.name);
+  const width = Math.max(2, ...headers.map(header => header.length));
+  const cell = (text: string) => text.padStart(width);
+
+  const lines = [
+    `${calendar.months[month - 1].name} ${DateFormatter.getYearString(calendar, year)}`,
+  ];
+  lines.push(headers.map(cell).join(' '));
+
+  let row: string[] = [];
+  for (let day = 1; day <= engine.getMonthLength(month, year); day++) {
+    if (engine.isDroppedDay(year, month, day)) continue;
+
+    // Weeks that reset mid-row start a new row, as in the calendar grid widget
+    const column = engine.calculateWeekday(year, month, day);
+    if (column < row.length) {
+      lines.push(row.join(' ').trimEnd());
+      row = [];
+    }
+    while (row.length < column) row.push(cell(''));
+    row.push(cell(String(day)));
+
+    if (row.length === weekLength) {
+      lines.push(row.join(' '));
+      row = [];
+    }
+  }
+  if (row.length > 0) lines.push(row.join(' ').trimEnd());
+
+  for (const intercalary of engine.getIntercalaryDaysAfterMonth(year, month)) {
+    const days = intercalary.days || 1;
+    lines.push(`+ ${intercalary.name} (${days} day${days === 1 ? '' : 's'})`);
+  }
+
+  return lines;
+}
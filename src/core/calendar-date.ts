@@ -7,8 +7,11 @@ import type {
   SeasonsStarsCalendar,
   DateFormatOptions,
 } from '../types/calendar';
+import type { CalendarEngine } from './calendar-engine';
 import { CalendarLocalization } from './calendar-localization';
 import { CalendarTimeUtils } from './calendar-time-utils';
+import { DateFormatter } from './date-formatter';
+import { NamedYears } from './named-years';
 
 export class CalendarDate implements ICalendarDate {
   year: number;
@@ -23,8 +26,9 @@ export class CalendarDate implements ICalendarDate {
   };
 
   private calendar: SeasonsStarsCalendar;
+  private engine?: CalendarEngine;
 
-  constructor(data: ICalendarDate, calendar: SeasonsStarsCalendar) {
+  constructor(data: ICalendarDate, calendar: SeasonsStarsCalendar, engine?: CalendarEngine) {
     this.year = data.year;
     this.month = data.month;
     this.day = data.day;
@@ -32,16 +36,29 @@ export class CalendarDate implements ICalendarDate {
     this.intercalary = data.intercalary;
     this.time = data.time;
     this.calendar = calendar;
+    this.engine = engine;
   }
 
   /**
    * Format the date for display
+   *
+   * A `template` or `namedFormat` option uses token formatting (see DateFormatter);
+   * otherwise the remaining options select the built-in layout.
    */
   format(options: DateFormatOptions = {}): string {
+    if (options.template) {
+      return DateFormatter.format(this, this.calendar, options.template, this.engine);
+    }
+
+    if (options.namedFormat) {
+      return this.formatNamed(options.namedFormat);
+    }
+
     const {
       includeTime = false,
       includeWeekday = true,
       includeYear = true,
+      includeYearName = true,
       format = 'long',
     } = options;
 
@@ -71,7 +88,9 @@ export class CalendarDate implements ICalendarDate {
     // Add year if requested
     if (includeYear) {
       const yearStr = this.getYearString();
-      parts.push(yearStr);
+      parts.push(
+        includeYearName ? NamedYears.formatYear(this.calendar, this.year, yearStr) : yearStr
+      );
     }
 
     // Add time if requested
@@ -83,6 +102,13 @@ export class CalendarDate implements ICalendarDate {
     return parts.join(', ');
   }
 
+  /**
+   * Format the date with one of the calendar's named formats (e.g. widgetShort, noteTitle)
+   */
+  formatNamed(name: string): string {
+    return DateFormatter.formatNamed(this, this.calendar, name, this.engine);
+  }
+
   /**
    * Get a short format string (for UI display)
    */
@@ -174,8 +200,7 @@ export class CalendarDate implements ICalendarDate {
    * Get the year string with prefix/suffix
    */
   private getYearString(): string {
-    const { prefix, suffix } = this.calendar.year;
-    return `${prefix}${this.year}${suffix}`.trim();
+    return DateFormatter.getYearString(this.calendar, this.year);
   }
 
   /**
@@ -214,7 +239,8 @@ export class CalendarDate implements ICalendarDate {
         intercalary: modifications.intercalary ?? this.intercalary,
         time: modifications.time ?? (this.time ? { ...this.time } : undefined),
       },
-      this.calendar
+      this.calendar,
+      this.engine
     );
   }
 
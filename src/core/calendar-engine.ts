@@ -5,18 +5,67 @@
 import type {
   SeasonsStarsCalendar,
   CalendarDate,
-  CalendarCalculation,
   CalendarIntercalary,
+  CalendarDaylight,
+  CalendarDuration,
+  DateArithmeticOptions,
+  CalendarHoliday,
+  CalendarLeapYear,
+  CalendarMoon,
+  CalendarRevision,
+  CalendarSeason,
+  DaylightMonth,
+  Hemisphere,
+  LeapYearRule,
+  MonthOverflowPolicy,
+  MoonPhaseInfo,
+  SunriseSunset,
+  CalendarTimeSegment,
+  WeekdayResetMode,
 } from '../types/calendar';
 import { CalendarTimeUtils } from './calendar-time-utils';
+import { MOON_CONSTANTS, TIME_CONSTANTS } from './constants';
+import { NoteRecurrence, type RecurringPattern } from './note-recurring';
+
+/**
+ * Running day totals from the start of year 0 to the start of a given year
+ */
+interface YearTotals {
+  days: number;
+  weekdayDays: number;
+}
+
+/**
+ * Precomputed totals for one full leap cycle, aligned to year 0
+ */
+interface LeapCycleTable {
+  length: number;
+  days: number[];
+  weekdayDays: number[];
+}
+
+// Leap cycles longer than this fall back to the checkpoint cache
+const MAX_LEAP_CYCLE_LENGTH = 10000;
+
+// Spacing (in years) between cached checkpoints when no leap cycle is available
+const FALLBACK_CHECKPOINT_INTERVAL = 100;
+
+// Years whose month weekday offsets are kept before the cache is cleared
+const MAX_CACHED_WEEKDAY_YEARS = 1000;
+
+// Earth's axial tilt in degrees, used for latitude-based daylight when none is given
+const DEFAULT_AXIAL_TILT = 23.44;
 
 export class CalendarEngine {
   private calendar: SeasonsStarsCalendar;
-  private calculationCache: Map<string, CalendarCalculation> = new Map();
+  private leapCycle: LeapCycleTable | null = null;
+  private yearCheckpoints: Map<number, YearTotals> = new Map();
+  private monthWeekdayStarts: Map<number, number[]> = new Map();
+  private moonReferenceDays: Map<string, number> = new Map();
 
   constructor(calendar: SeasonsStarsCalendar) {
     this.calendar = calendar;
-    this.precomputeYearData();
+    this.buildLeapCycleTable();
   }
 
   /**
@@ -94,44 +143,120 @@ export class CalendarEngine {
 
   /**
    * Add months to a calendar date
+   *
+   * Days past the end of a shorter target month follow `options.overflow`. Intercalary
+   * dates count as the last day of the month they follow, so they land on the last day of
+   * the target month.
    */
-  addMonths(date: CalendarDate, months: number): CalendarDate {
+  addMonths(date: CalendarDate, months: number, options: DateArithmeticOptions = {}): CalendarDate {
     const { month: targetMonth, year: targetYear } = CalendarTimeUtils.normalizeMonth(
       date.month + months,
       date.year,
       this.calendar
     );
+    const day = date.intercalary ? this.getMonthLength(targetMonth, targetYear) : date.day;
 
-    // Adjust day if target month is shorter
-    const targetMonthDays = this.getMonthLength(targetMonth, targetYear);
-    const targetDay = Math.min(date.day, targetMonthDays);
-
-    return {
-      year: targetYear,
-      month: targetMonth,
-      day: targetDay,
-      weekday: this.calculateWeekday(targetYear, targetMonth, targetDay),
-      time: date.time ? { ...date.time } : undefined,
-    };
+    return this.resolveMonthOverflow(targetYear, targetMonth, day, date.time, options.overflow);
   }
 
   /**
    * Add years to a calendar date
+   *
+   * Days missing from the target year, such as a leap day, follow `options.overflow`.
+   * Intercalary dates stay in the same period, or follow `options.overflow` when the
+   * period doesn't occur in the target year.
    */
-  addYears(date: CalendarDate, years: number): CalendarDate {
+  addYears(date: CalendarDate, years: number, options: DateArithmeticOptions = {}): CalendarDate {
     const targetYear = date.year + years;
 
-    // Handle leap year day adjustments
-    const targetMonthDays = this.getMonthLength(date.month, targetYear);
-    const targetDay = Math.min(date.day, targetMonthDays);
+    if (date.intercalary) {
+      return this.moveIntercalaryToYear(date, targetYear, options.overflow);
+    }
 
-    return {
-      year: targetYear,
-      month: date.month,
+    return this.resolveMonthOverflow(targetYear, date.month, date.day, date.time, options.overflow);
+  }
+
+  /**
+   * Build a date in a month, handling a day past the end of the month
+   *
+   * `clamp` uses the last day of the month, `rollover` carries the extra days into the
+   * following days and `error` throws.
+   */
+  private resolveMonthOverflow(
+    year: number,
+    month: number,
+    day: number,
+    time: CalendarDate['time'],
+    overflow: MonthOverflowPolicy = 'clamp'
+  ): CalendarDate {
+    const monthLength = this.getMonthLength(month, year);
+    const targetDay = Math.min(day, monthLength);
+    const result: CalendarDate = {
+      year,
+      month,
       day: targetDay,
-      weekday: this.calculateWeekday(targetYear, date.month, targetDay),
-      time: date.time ? { ...date.time } : undefined,
+      weekday: this.calculateWeekday(year, month, targetDay),
+      time: time ? { ...time } : undefined,
     };
+
+    if (day <= monthLength || overflow === 'clamp') return result;
+
+    if (overflow === 'error') {
+      const monthName = this.calendar.months[month - 1]?.name || `Month ${month}`;
+      throw new Error(`${monthName} ${year} has only ${monthLength} days, not ${day}`);
+    }
+
+    return this.addDays(result, day - monthLength);
+  }
+
+  /**
+   * Move an intercalary date to the same period in another year
+   *
+   * When the period doesn't occur that year, `clamp` gives the day before where it would
+   * have been, `rollover` the day after and `error` throws.
+   */
+  private moveIntercalaryToYear(
+    date: CalendarDate,
+    year: number,
+    overflow: MonthOverflowPolicy = 'clamp'
+  ): CalendarDate {
+    const monthName = this.calendar.months[date.month - 1]?.name;
+    const periodsThisYear = this.getIntercalaryDays(year);
+    const time = date.time ? { ...date.time } : undefined;
+
+    if (periodsThisYear.some(intercalary => intercalary.name === date.intercalary)) {
+      return {
+        year,
+        month: date.month,
+        day: date.day,
+        weekday: this.calculateWeekday(year, date.month, date.day, date.intercalary),
+        time,
+        intercalary: date.intercalary,
+      };
+    }
+
+    if (overflow === 'error') {
+      throw new Error(`${date.intercalary} does not occur in year ${year}`);
+    }
+
+    // Find where the period would have started: after the month and any earlier periods
+    let position =
+      this.dateToDays({
+        year,
+        month: date.month,
+        day: this.getMonthLength(date.month, year),
+        weekday: 0,
+      }) + 1;
+    for (const intercalary of this.calendar.intercalary.filter(i => i.after === monthName)) {
+      if (intercalary.name === date.intercalary) break;
+      if (periodsThisYear.includes(intercalary)) {
+        position += intercalary.days || 1;
+      }
+    }
+
+    const result = this.daysToDate(overflow === 'rollover' ? position : position - 1);
+    result.time = time;
+    return result;
   }
 
   /**
@@ -203,113 +328,135 @@ export class CalendarEngine {
   }
 
   /**
-   * Adjust worldTime based on calendar's interpretation mode
+   * Add a duration to a calendar date
+   *
+   * Years and months move by whole months first, as in `addMonths`; days and smaller
+   * units then move by elapsed time, so intercalary days count like any other day.
    */
-  private adjustWorldTimeForInterpretation(worldTime: number): number {
-    const worldTimeConfig = this.calendar.worldTime;
+  add(
+    date: CalendarDate,
+    duration: CalendarDuration,
+    options: DateArithmeticOptions = {}
+  ): CalendarDate {
+    const months =
+      (duration.years || 0) * CalendarTimeUtils.getMonthsPerYear(this.calendar) +
+      (duration.months || 0);
+    const seconds = this.durationToSeconds(duration);
+
+    const result = months !== 0 ? this.addMonths(date, months, options) : { ...date };
+    if (seconds === 0) return result;
+
+    return this.worldTimeToDate(this.dateToWorldTime(result) + seconds);
+  }
 
-    if (!worldTimeConfig || worldTimeConfig.interpretation === 'epoch-based') {
-      // Default behavior: worldTime represents seconds since calendar epoch
-      return worldTime;
-    }
+  /**
+   * Get the duration from one date to another in the calendar's own units
+   *
+   * The result counts whole months from `from` without passing `to`, then the days and
+   * time left over, so `add(from, diff(from, to))` gives `to` again. All fields are
+   * negative when `to` is earlier than `from`.
+   */
+  diff(from: CalendarDate, to: CalendarDate): Required<CalendarDuration> {
+    const toTime = this.dateToWorldTime(to);
+    const direction = toTime < this.dateToWorldTime(from) ? -1 : 1;
+    const monthsPerYear = CalendarTimeUtils.getMonthsPerYear(this.calendar);
+
+    // Whole months that don't pass `to`, measured from `from` in the direction of travel
+    const monthTime = (count: number) =>
+      this.dateToWorldTime(count === 0 ? from : this.addMonths(from, direction * count));
+    const passes = (count: number) => direction * (monthTime(count) - toTime) > 0;
+
+    let months = Math.max(
+      0,
+      direction * ((to.year - from.year) * monthsPerYear + (to.month - from.month))
+    );
+    while (months > 0 && passes(months)) months--;
+    while (!passes(months + 1)) months++;
 
-    if (worldTimeConfig.interpretation === 'real-time-based') {
-      // Real-time mode: worldTime=0 should map to currentYear, not epochYear
-      const yearDifference = worldTimeConfig.currentYear - worldTimeConfig.epochYear;
+    let remaining = Math.abs(toTime - monthTime(months));
+    const secondsPerDay = CalendarTimeUtils.getSecondsPerDay(this.calendar);
+    const secondsPerHour = CalendarTimeUtils.getSecondsPerHour(this.calendar);
+    const { secondsInMinute } = this.calendar.time;
 
-      // Use accurate year lengths instead of 365.25 average
-      let epochOffset = 0;
-      const secondsPerDay =
-        this.calendar.time.hoursInDay *
-        this.calendar.time.minutesInHour *
-        this.calendar.time.secondsInMinute;
+    const days = Math.floor(remaining / secondsPerDay);
+    remaining -= days * secondsPerDay;
+    const hours = Math.floor(remaining / secondsPerHour);
+    remaining -= hours * secondsPerHour;
+    const minutes = Math.floor(remaining / secondsInMinute);
+    remaining -= minutes * secondsInMinute;
 
-      if (yearDifference > 0) {
-        // Add up actual year lengths from epoch to current year
-        for (let year = worldTimeConfig.epochYear; year < worldTimeConfig.currentYear; year++) {
-          const yearLengthDays = this.getYearLength(year);
-          epochOffset += yearLengthDays * secondsPerDay;
-        }
-      } else if (yearDifference < 0) {
-        // Subtract actual year lengths from current year to epoch
-        for (let year = worldTimeConfig.currentYear; year < worldTimeConfig.epochYear; year++) {
-          const yearLengthDays = this.getYearLength(year);
-          epochOffset -= yearLengthDays * secondsPerDay;
-        }
-      }
+    // Avoid negative zeros when travelling backwards
+    const signed = (value: number) => (value === 0 ? 0 : direction * value);
 
-      return worldTime + epochOffset;
-    }
+    return {
+      years: signed(Math.floor(months / monthsPerYear)),
+      months: signed(months % monthsPerYear),
+      days: signed(days),
+      hours: signed(hours),
+      minutes: signed(minutes),
+      seconds: signed(remaining),
+    };
+  }
 
-    return worldTime;
+  /**
+   * Get the length of a duration's days and time of day in seconds, leaving out years and months
+   */
+  private durationToSeconds(duration: CalendarDuration): number {
+    return (
+      (duration.days || 0) * CalendarTimeUtils.getSecondsPerDay(this.calendar) +
+      (duration.hours || 0) * CalendarTimeUtils.getSecondsPerHour(this.calendar) +
+      (duration.minutes || 0) * this.calendar.time.secondsInMinute +
+      (duration.seconds || 0)
+    );
+  }
+
+  /**
+   * Adjust worldTime based on calendar's interpretation mode
+   */
+  private adjustWorldTimeForInterpretation(worldTime: number): number {
+    return worldTime + this.getInterpretationOffset();
   }
 
   /**
    * Convert internal seconds back to worldTime based on interpretation mode
    */
   private adjustWorldTimeFromInterpretation(internalSeconds: number): number {
+    return internalSeconds - this.getInterpretationOffset();
+  }
+
+  /**
+   * Get the offset (in seconds) between worldTime and seconds since the calendar epoch
+   */
+  private getInterpretationOffset(): number {
     const worldTimeConfig = this.calendar.worldTime;
 
-    if (!worldTimeConfig || worldTimeConfig.interpretation === 'epoch-based') {
-      return internalSeconds;
+    if (!worldTimeConfig || worldTimeConfig.interpretation !== 'real-time-based') {
+      // Default behavior: worldTime represents seconds since calendar epoch
+      return 0;
     }
 
-    if (worldTimeConfig.interpretation === 'real-time-based') {
-      const yearDifference = worldTimeConfig.currentYear - worldTimeConfig.epochYear;
-
-      // Use accurate year lengths instead of 365.25 average
-      let epochOffset = 0;
-      const secondsPerDay =
-        this.calendar.time.hoursInDay *
-        this.calendar.time.minutesInHour *
-        this.calendar.time.secondsInMinute;
+    // Real-time mode: worldTime=0 should map to currentYear, not epochYear
+    const offsetDays =
+      this.getYearTotals(worldTimeConfig.currentYear).days -
+      this.getYearTotals(worldTimeConfig.epochYear).days;
 
-      if (yearDifference > 0) {
-        // Add up actual year lengths from epoch to current year
-        for (let year = worldTimeConfig.epochYear; year < worldTimeConfig.currentYear; year++) {
-          const yearLengthDays = this.getYearLength(year);
-          epochOffset += yearLengthDays * secondsPerDay;
-        }
-      } else if (yearDifference < 0) {
-        // Subtract actual year lengths from current year to epoch
-        for (let year = worldTimeConfig.currentYear; year < worldTimeConfig.epochYear; year++) {
-          const yearLengthDays = this.getYearLength(year);
-          epochOffset -= yearLengthDays * secondsPerDay;
-        }
-      }
-
-      return internalSeconds - epochOffset;
-    }
-
-    return internalSeconds;
+    return offsetDays * CalendarTimeUtils.getSecondsPerDay(this.calendar);
   }
 
   /**
    * Convert days since epoch to calendar date
    */
   private daysToDate(totalDays: number): CalendarDate {
-    let year = this.calendar.year.epoch;
-    let remainingDays = totalDays;
-
-    // Find the correct year
-    while (remainingDays >= this.getYearLength(year)) {
-      remainingDays -= this.getYearLength(year);
-      year++;
-    }
-
-    // Handle negative days (before epoch)
-    while (remainingDays < 0) {
-      year--;
-      remainingDays += this.getYearLength(year);
-    }
+    const year = this.findYearForDays(totalDays);
+    let remainingDays = totalDays - this.getDaysBeforeYear(year);
 
     // Find month and day within the year
     let month = 1;
-    const monthLengths = this.getMonthLengths(year);
+    const monthDayCounts = this.getMonthDayCounts(year);
     const intercalaryDays = this.getIntercalaryDays(year);
 
     for (month = 1; month <= this.calendar.months.length; month++) {
-      const monthLength = monthLengths[month - 1];
+      const monthLength = monthDayCounts[month - 1];
 
       if (remainingDays < monthLength) {
         break;
@@ -326,12 +473,13 @@ export class CalendarEngine {
         const intercalaryDayCount = intercalary.days || 1;
 
         if (remainingDays < intercalaryDayCount) {
-          // We're within this intercalary period - return intercalary date with no weekday calculation
+          // We're within this intercalary period; days outside the week get a placeholder weekday
+          const day = remainingDays + 1; // Intercalary day index (1-based)
           return {
             year,
             month,
-            day: remainingDays + 1, // Intercalary day index (1-based)
-            weekday: 0, // Placeholder - intercalary days don't have weekdays
+            day,
+            weekday: this.calculateWeekday(year, month, day, intercalary.name),
             intercalary: intercalary.name,
           };
         }
@@ -340,7 +488,12 @@ export class CalendarEngine {
       }
     }
 
-    const day = remainingDays + 1;
+    // Days after a dropped stretch keep their original numbers
+    const dropped = this.getDroppedDays(year, month);
+    const day =
+      dropped && remainingDays + 1 >= dropped.startDay
+        ? remainingDays + 1 + dropped.count
+        : remainingDays + 1;
 
     return {
       year,
@@ -354,27 +507,14 @@ export class CalendarEngine {
    * Convert calendar date to days since epoch
    */
   private dateToDays(date: CalendarDate): number {
-    let totalDays = 0;
-
-    // Handle years before or after epoch
-    if (date.year >= this.calendar.year.epoch) {
-      // Add days for complete years after epoch
-      for (let year = this.calendar.year.epoch; year < date.year; year++) {
-        totalDays += this.getYearLength(year);
-      }
-    } else {
-      // Subtract days for complete years before epoch
-      for (let year = date.year; year < this.calendar.year.epoch; year++) {
-        totalDays -= this.getYearLength(year);
-      }
-    }
+    let totalDays = this.getDaysBeforeYear(date.year);
 
     // Add days for complete months in the target year
-    const monthLengths = this.getMonthLengths(date.year);
+    const monthDayCounts = this.getMonthDayCounts(date.year);
     const intercalaryDays = this.getIntercalaryDays(date.year);
 
     for (let month = 1; month < date.month; month++) {
-      totalDays += monthLengths[month - 1];
+      totalDays += monthDayCounts[month - 1];
 
       // Add intercalary days after this month
       const intercalaryAfterMonth = intercalaryDays.filter(
@@ -389,21 +529,205 @@ export class CalendarEngine {
     // Handle intercalary vs regular days
     if (date.intercalary) {
       // For intercalary dates, add all days of the target month, then the intercalary day position
-      totalDays += monthLengths[date.month - 1]; // All days of the month
+      totalDays += monthDayCounts[date.month - 1]; // All days of the month
+
+      // Skip any earlier intercalary periods after the same month
+      const intercalaryAfterMonth = intercalaryDays.filter(
+        i => i.after === this.calendar.months[date.month - 1]?.name
+      );
+      for (const intercalary of intercalaryAfterMonth) {
+        if (intercalary.name === date.intercalary) break;
+        totalDays += intercalary.days || 1;
+      }
+
       totalDays += date.day - 1; // Position within the intercalary period (0-based)
     } else {
       // For regular dates, add days within the target month
-      totalDays += date.day - 1;
+      totalDays += this.getDayIndex(date.year, date.month, date.day);
     }
 
     return totalDays;
   }
 
+  /**
+   * Get the number of days from the epoch to the first day of a year
+   */
+  private getDaysBeforeYear(year: number): number {
+    return this.getYearTotals(year).days - this.getYearTotals(this.calendar.year.epoch).days;
+  }
+
+  /**
+   * Find the year containing a day count since epoch
+   */
+  private findYearForDays(totalDays: number): number {
+    const epoch = this.calendar.year.epoch;
+    const averageYearLength = this.leapCycle
+      ? this.leapCycle.days[this.leapCycle.length] / this.leapCycle.length
+      : this.getYearLength(epoch);
+
+    // Estimate from the average year length, then correct by whole years
+    let year = epoch + Math.floor(totalDays / averageYearLength);
+
+    while (this.getDaysBeforeYear(year) > totalDays) {
+      year--;
+    }
+
+    while (this.getDaysBeforeYear(year + 1) <= totalDays) {
+      year++;
+    }
+
+    return year;
+  }
+
+  /**
+   * Get running day totals from the start of year 0 to the start of a year
+   */
+  private getYearTotals(year: number): YearTotals {
+    if (this.leapCycle) {
+      const { length, days, weekdayDays } = this.leapCycle;
+      const cycles = Math.floor(year / length);
+      const yearInCycle = year - cycles * length;
+
+      return {
+        days: cycles * days[length] + days[yearInCycle],
+        weekdayDays: cycles * weekdayDays[length] + weekdayDays[yearInCycle],
+      };
+    }
+
+    // No usable leap cycle: walk from the nearest cached checkpoint
+    const checkpointYear =
+      Math.floor(year / FALLBACK_CHECKPOINT_INTERVAL) * FALLBACK_CHECKPOINT_INTERVAL;
+    const totals = { ...this.getCheckpoint(checkpointYear) };
+
+    for (let y = checkpointYear; y < year; y++) {
+      totals.days += this.getYearLength(y);
+      totals.weekdayDays += this.getYearWeekdayDays(y);
+    }
+
+    return totals;
+  }
+
+  /**
+   * Get (and cache) running totals for a checkpoint year, building intermediate checkpoints
+   */
+  private getCheckpoint(checkpointYear: number): YearTotals {
+    const cached = this.yearCheckpoints.get(checkpointYear);
+    if (cached) return cached;
+
+    const step = checkpointYear > 0 ? FALLBACK_CHECKPOINT_INTERVAL : -FALLBACK_CHECKPOINT_INTERVAL;
+
+    // Find the nearest cached checkpoint between year 0 and the target
+    let fromYear = checkpointYear;
+    while (!this.yearCheckpoints.has(fromYear)) {
+      fromYear -= step;
+    }
+
+    let totals = this.yearCheckpoints.get(fromYear)!;
+    while (fromYear !== checkpointYear) {
+      const nextYear = fromYear + step;
+      const [startYear, endYear] = step > 0 ? [fromYear, nextYear] : [nextYear, fromYear];
+      const sign = step > 0 ? 1 : -1;
+      const next = { ...totals };
+
+      for (let y = startYear; y < endYear; y++) {
+        next.days += sign * this.getYearLength(y);
+        next.weekdayDays += sign * this.getYearWeekdayDays(y);
+      }
+
+      this.yearCheckpoints.set(nextYear, next);
+      totals = next;
+      fromYear = nextYear;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Get the length of the calendar's leap cycle in years, or null if it has none
+   */
+  private getLeapCycleLength(): number | null {
+    // Revised calendars don't repeat, so they use the checkpoint cache instead
+    if (this.calendar.revisions?.length) return null;
+
+    const { rule, interval, rules, months: leapMonths = [] } = this.calendar.leapYear;
+    const periods: number[] = [];
+
+    switch (rule) {
+      case 'gregorian':
+        periods.push(400);
+        break;
+
+      case 'custom':
+        if (rules?.length) {
+          periods.push(...rules.map(r => r.every));
+        } else if (interval && interval > 0) {
+          periods.push(interval);
+        }
+        break;
+    }
+
+    for (const leapMonth of leapMonths) {
+      periods.push(...(leapMonth.rules || []).map(r => r.every));
+    }
+
+    // The combined cycle repeats after the least common multiple of every rule's period
+    let length = 1;
+    for (const period of periods) {
+      if (!Number.isInteger(period) || period < 1) return null;
+      length = (length * period) / this.greatestCommonDivisor(length, period);
+      if (length > MAX_LEAP_CYCLE_LENGTH) return null;
+    }
+
+    return length;
+  }
+
+  /**
+   * Greatest common divisor of two positive integers
+   */
+  private greatestCommonDivisor(a: number, b: number): number {
+    while (b !== 0) {
+      [a, b] = [b, a % b];
+    }
+    return a;
+  }
+
+  /**
+   * Precompute running totals for one leap cycle so whole cycles can be skipped arithmetically
+   */
+  private buildLeapCycleTable(): void {
+    this.leapCycle = null;
+    this.yearCheckpoints = new Map([[0, { days: 0, weekdayDays: 0 }]]);
+    this.monthWeekdayStarts.clear();
+
+    const length = this.getLeapCycleLength();
+    if (!length) return;
+
+    const days = [0];
+    const weekdayDays = [0];
+
+    for (let year = 0; year < length; year++) {
+      days.push(days[year] + this.getYearLength(year));
+      weekdayDays.push(weekdayDays[year] + this.getYearWeekdayDays(year));
+    }
+
+    this.leapCycle = { length, days, weekdayDays };
+  }
+
   /**
    * Calculate weekday for a given date
+   *
+   * With a `week.resetMode` of `month` or `year`, the weekday count restarts at
+   * `year.startDay` on the first day of every month or year.
+   *
+   * Pass `intercalary` to get the weekday of a day within the named intercalary
+   * period after `month`; periods that don't count for weekdays return 0.
    */
-  calculateWeekday(year: number, month: number, day: number): number {
-    const weekdayContributingDays = this.dateToWeekdayDays({ year, month, day, weekday: 0 });
+  calculateWeekday(year: number, month: number, day: number, intercalary?: string): number {
+    if (intercalary && !this.intercalaryCountsForWeekdays(year, intercalary)) {
+      return 0;
+    }
+
+    const weekdayContributingDays = this.dateToWeekdayDays(year, month, day, intercalary);
     const weekdayCount = this.calendar.weekdays.length;
     const epochWeekday = this.calendar.year.startDay;
 
@@ -420,61 +744,102 @@ export class CalendarEngine {
   /**
    * Convert calendar date to days since epoch, counting only weekday-contributing days
    */
-  private dateToWeekdayDays(date: CalendarDate): number {
-    let totalDays = 0;
+  private dateToWeekdayDays(
+    year: number,
+    month: number,
+    day: number,
+    intercalaryName?: string
+  ): number {
+    if (this.getWeekdayResetMode() === 'month') {
+      return this.getDayIndex(year, month, day);
+    }
+
+    let totalDays = this.getMonthWeekdayStarts(year)[month - 1] ?? 0;
+
+    if (!intercalaryName) {
+      // Add days in the target month
+      return totalDays + this.getDayIndex(year, month, day);
+    }
+
+    // Intercalary days follow the whole month and any earlier periods after it
+    totalDays += this.getMonthDayCounts(year)[month - 1];
+    const intercalaryAfterMonth = this.getIntercalaryDays(year).filter(
+      i => i.after === this.calendar.months[month - 1]?.name
+    );
 
-    // Handle years before or after epoch
-    if (date.year >= this.calendar.year.epoch) {
-      // Add days for complete years after epoch
-      for (let year = this.calendar.year.epoch; year < date.year; year++) {
-        totalDays += this.getYearWeekdayDays(year);
+    for (const intercalary of intercalaryAfterMonth) {
+      if (intercalary.name === intercalaryName) {
+        totalDays += day - 1;
+        break;
       }
-    } else {
-      // Subtract days for complete years before epoch
-      for (let year = date.year; year < this.calendar.year.epoch; year++) {
-        totalDays -= this.getYearWeekdayDays(year);
+      if (intercalary.countsForWeekdays ?? true) {
+        totalDays += intercalary.days || 1;
       }
     }
 
-    // Add days for complete months in the target year
-    const monthLengths = this.getMonthLengths(date.year);
-    const intercalaryDays = this.getIntercalaryDays(date.year);
+    return totalDays;
+  }
 
-    for (let month = 1; month < date.month; month++) {
-      totalDays += monthLengths[month - 1];
+  /**
+   * Get the weekday-contributing days before the first day of each month of a year
+   *
+   * Cached per year, so weekdays within a year are found without walking its months again.
+   */
+  private getMonthWeekdayStarts(year: number): number[] {
+    const cached = this.monthWeekdayStarts.get(year);
+    if (cached) return cached;
 
-      // Add only weekday-contributing intercalary days after this month
-      const intercalaryAfterMonth = intercalaryDays.filter(
-        i => i.after === this.calendar.months[month - 1].name
-      );
+    let totalDays =
+      this.getWeekdayResetMode() === 'year'
+        ? 0
+        : this.getYearTotals(year).weekdayDays -
+          this.getYearTotals(this.calendar.year.epoch).weekdayDays;
+
+    const monthDayCounts = this.getMonthDayCounts(year);
+    const intercalaryDays = this.getIntercalaryDays(year);
+    const starts: number[] = [];
+
+    this.calendar.months.forEach((month, index) => {
+      starts.push(totalDays);
+      totalDays += monthDayCounts[index];
 
-      intercalaryAfterMonth.forEach(intercalary => {
-        const countsForWeekdays = intercalary.countsForWeekdays ?? true;
-        if (countsForWeekdays) {
+      // Add only weekday-contributing intercalary days after this month
+      for (const intercalary of intercalaryDays) {
+        if (intercalary.after === month.name && (intercalary.countsForWeekdays ?? true)) {
           totalDays += intercalary.days || 1;
         }
-      });
-    }
-
-    // Add days in the target month
-    totalDays += date.day - 1;
+      }
+    });
 
-    // Handle intercalary days - they don't contribute to weekday counts
-    if (date.intercalary) {
-      // Don't add anything for intercalary days as they don't advance weekdays
+    if (this.monthWeekdayStarts.size >= MAX_CACHED_WEEKDAY_YEARS) {
+      this.monthWeekdayStarts.clear();
     }
+    this.monthWeekdayStarts.set(year, starts);
+    return starts;
+  }
 
-    return totalDays;
+  /**
+   * Check whether the named intercalary period advances the weekday cycle
+   */
+  private intercalaryCountsForWeekdays(year: number, name: string): boolean {
+    const intercalary = this.getIntercalaryDays(year).find(i => i.name === name);
+    return intercalary?.countsForWeekdays ?? true;
   }
 
   /**
    * Get the number of weekday-contributing days in a year
+   *
+   * Weeks that reset every month or year carry nothing over into the next year.
    */
   private getYearWeekdayDays(year: number): number {
-    const monthLengths = this.getMonthLengths(year);
+    if (this.getWeekdayResetMode() !== 'continuous') {
+      return 0;
+    }
+
+    const monthDayCounts = this.getMonthDayCounts(year);
     const intercalaryDays = this.getIntercalaryDays(year);
 
-    let totalDays = monthLengths.reduce((sum, days) => sum + days, 0);
+    let totalDays = monthDayCounts.reduce((sum, days) => sum + days, 0);
 
     // Add only weekday-contributing intercalary days
     intercalaryDays.forEach(intercalary => {
@@ -487,12 +852,19 @@ export class CalendarEngine {
     return totalDays;
   }
 
+  /**
+   * Get how the calendar's weekday cycle restarts
+   */
+  private getWeekdayResetMode(): WeekdayResetMode {
+    return this.calendar.week?.resetMode || 'continuous';
+  }
+
   /**
    * Get the length of a specific year in days
    */
   getYearLength(year: number): number {
-    const monthLengths = this.getMonthLengths(year);
-    const baseLength = monthLengths.reduce((sum, length) => sum + length, 0);
+    const monthDayCounts = this.getMonthDayCounts(year);
+    const baseLength = monthDayCounts.reduce((sum, length) => sum + length, 0);
     const intercalaryDays = this.getIntercalaryDays(year);
 
     // Sum up all intercalary days, using the days field (defaulting to 1 for backward compatibility)
@@ -504,25 +876,119 @@ export class CalendarEngine {
   }
 
   /**
-   * Get month lengths for a specific year (accounting for leap years)
+   * Get month lengths for a specific year (accounting for leap years and revisions)
+   *
+   * These are the months' day numbers; dropped days are still counted here.
    */
   private getMonthLengths(year: number): number[] {
     const monthLengths = this.calendar.months.map(month => month.days);
+    const { month, extraDays, months: leapMonths = [] } = this.getLeapYearConfig(year);
+    const isLeapYear = this.isLeapYear(year);
+
+    // Revised month lengths apply from their revision onward
+    for (const revision of this.getRevisionsInEffect(year)) {
+      for (const revisedMonth of revision.months || []) {
+        const monthIndex = this.calendar.months.findIndex(m => m.name === revisedMonth.name);
+        if (monthIndex >= 0) {
+          monthLengths[monthIndex] = revisedMonth.days;
+        }
+      }
+    }
+
+    const addLeapDays = (monthName: string, days: number) => {
+      const leapMonthIndex = this.calendar.months.findIndex(m => m.name === monthName);
+      if (leapMonthIndex >= 0) {
+        monthLengths[leapMonthIndex] += days;
+      }
+    };
 
     // Add leap year days if applicable
-    if (this.isLeapYear(year) && this.calendar.leapYear.month) {
-      const leapMonthIndex = this.calendar.months.findIndex(
-        month => month.name === this.calendar.leapYear.month
-      );
+    if (isLeapYear && month) {
+      addLeapDays(month, extraDays || 1);
+    }
 
-      if (leapMonthIndex >= 0) {
-        monthLengths[leapMonthIndex] += this.calendar.leapYear.extraDays || 1;
+    // Additional leap months may follow their own rules instead of the calendar's
+    for (const leapMonth of leapMonths) {
+      const applies = leapMonth.rules ? this.matchesLeapRules(year, leapMonth.rules) : isLeapYear;
+      if (applies) {
+        addLeapDays(leapMonth.month, leapMonth.extraDays || 1);
       }
     }
 
     return monthLengths;
   }
 
+  /**
+   * Get the number of days that actually occur in each month of a year
+   */
+  private getMonthDayCounts(year: number): number[] {
+    if (!this.calendar.revisions?.length) return this.getMonthLengths(year);
+
+    return this.getMonthLengths(year).map(
+      (length, index) => length - (this.getDroppedDays(year, index + 1)?.count || 0)
+    );
+  }
+
+  /**
+   * Get the 0-based position of a day within its month, skipping dropped days
+   *
+   * Dates inside a dropped stretch fall on the first day after it.
+   */
+  private getDayIndex(year: number, month: number, day: number): number {
+    const dropped = this.getDroppedDays(year, month);
+    if (!dropped || day < dropped.startDay) return day - 1;
+
+    return Math.max(dropped.startDay - 1, day - 1 - dropped.count);
+  }
+
+  /**
+   * Get the days removed from a month by a calendar revision, if any
+   */
+  private getDroppedDays(year: number, month: number): { startDay: number; count: number } | null {
+    if (!this.calendar.revisions?.length) return null;
+
+    return this.getRevisionForMonth(year, month)?.droppedDays || null;
+  }
+
+  /**
+   * Check whether a day was skipped by a calendar revision
+   */
+  isDroppedDay(year: number, month: number, day: number): boolean {
+    const dropped = this.getDroppedDays(year, month);
+    return !!dropped && day >= dropped.startDay && day < dropped.startDay + dropped.count;
+  }
+
+  /**
+   * Get the revision whose switchover happens in a month, if any
+   */
+  getRevisionForMonth(year: number, month: number): CalendarRevision | null {
+    return (
+      (this.calendar.revisions || []).find(
+        revision => revision.year === year && (revision.month ?? 1) === month
+      ) || null
+    );
+  }
+
+  /**
+   * Get the revisions that apply to a year, oldest first
+   */
+  private getRevisionsInEffect(year: number): CalendarRevision[] {
+    const revisions = this.calendar.revisions;
+    if (!revisions?.length) return [];
+
+    return revisions.filter(revision => revision.year <= year).sort((a, b) => a.year - b.year);
+  }
+
+  /**
+   * Get the leap year rules in effect for a year
+   */
+  private getLeapYearConfig(year: number): CalendarLeapYear {
+    if (!this.calendar.revisions?.length) return this.calendar.leapYear;
+
+    const revised = this.getRevisionsInEffect(year).filter(revision => revision.leapYear);
+    return revised[revised.length - 1]?.leapYear || this.calendar.leapYear;
+  }
+
   /**
    * Get length of a specific month in a specific year
    */
@@ -559,7 +1025,7 @@ export class CalendarEngine {
    * Check if a year is a leap year
    */
   private isLeapYear(year: number): boolean {
-    const { rule, interval } = this.calendar.leapYear;
+    const { rule, interval, rules } = this.getLeapYearConfig(year);
 
     switch (rule) {
       case 'none':
@@ -569,6 +1035,9 @@ export class CalendarEngine {
         return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
 
       case 'custom':
+        if (rules?.length) {
+          return this.matchesLeapRules(year, rules);
+        }
         return interval ? year % interval === 0 : false;
 
       default:
@@ -577,27 +1046,413 @@ export class CalendarEngine {
   }
 
   /**
-   * Precompute year data for performance
+   * Evaluate a leap rule list: the last matching rule decides, and no match means no leap year
    */
-  private precomputeYearData(): void {
-    const currentYear = this.calendar.year.currentYear;
+  private matchesLeapRules(year: number, rules: LeapYearRule[]): boolean {
+    let isLeap = false;
+
+    for (const rule of rules) {
+      const position = (((year - (rule.offset || 0)) % rule.every) + rule.every) % rule.every;
+      if (position === 0) {
+        isLeap = !rule.skip;
+      }
+    }
+
+    return isLeap;
+  }
 
-    // Cache calculations for nearby years
-    for (let year = currentYear - 10; year <= currentYear + 10; year++) {
-      const cacheKey = `year-${year}`;
+  /**
+   * Get the 1-based position of a date within its year, counting intercalary days
+   */
+  getDayOfYear(date: CalendarDate): number {
+    return this.dateToDays(date) - this.getDaysBeforeYear(date.year) + 1;
+  }
 
-      if (!this.calculationCache.has(cacheKey)) {
-        const calculation: CalendarCalculation = {
-          totalDays: this.getYearLength(year),
-          weekdayIndex: 0, // Will be calculated when needed
-          yearLength: this.getYearLength(year),
-          monthLengths: this.getMonthLengths(year),
-          intercalaryDays: this.getIntercalaryDays(year),
-        };
+  /**
+   * Get the date at a 1-based position within a year
+   *
+   * Returns null when the year has no such day.
+   */
+  getDateFromDayOfYear(year: number, dayOfYear: number): CalendarDate | null {
+    if (!Number.isInteger(dayOfYear) || dayOfYear < 1 || dayOfYear > this.getYearLength(year)) {
+      return null;
+    }
 
-        this.calculationCache.set(cacheKey, calculation);
+    return this.daysToDate(this.getDaysBeforeYear(year) + dayOfYear - 1);
+  }
+
+  /**
+   * Get the 1-based week of the year a date falls in
+   *
+   * Week 1 holds the first day of the year and later weeks begin on the first weekday.
+   * Calendars whose weeks restart every month start a new week with each month and with
+   * each intercalary period that keeps weekdays. Returns null for intercalary days
+   * outside the week.
+   */
+  getWeekOfYear(date: CalendarDate): number | null {
+    const weekLength = this.calendar.weekdays.length;
+    if (weekLength === 0) return null;
+    if (date.intercalary && !this.intercalaryCountsForWeekdays(date.year, date.intercalary)) {
+      return null;
+    }
+
+    if (this.getWeekdayResetMode() !== 'month') {
+      const daysIntoYear =
+        this.dateToWeekdayDays(date.year, date.month, date.day, date.intercalary) -
+        this.dateToWeekdayDays(date.year, 1, 1);
+      const firstWeekday = this.calculateWeekday(date.year, 1, 1);
+
+      return Math.floor((firstWeekday + daysIntoYear) / weekLength) + 1;
+    }
+
+    // Each month and weekday-keeping intercalary period is its own run of weeks
+    const startDay = this.calendar.year.startDay;
+    const weeksIn = (days: number) => Math.floor((startDay + days - 1) / weekLength) + 1;
+    const monthDayCounts = this.getMonthDayCounts(date.year);
+    const intercalaryDays = this.getIntercalaryDays(date.year);
+    let weeks = 0;
+
+    for (let month = 1; month <= date.month; month++) {
+      if (month === date.month && !date.intercalary) {
+        const dayIndex = this.getDayIndex(date.year, date.month, date.day);
+        return weeks + Math.floor((startDay + dayIndex) / weekLength) + 1;
+      }
+
+      weeks += weeksIn(monthDayCounts[month - 1]);
+
+      const intercalaryAfterMonth = intercalaryDays.filter(
+        i => i.after === this.calendar.months[month - 1].name
+      );
+      for (const intercalary of intercalaryAfterMonth) {
+        if (month === date.month && intercalary.name === date.intercalary) {
+          return weeks + Math.floor((startDay + date.day - 1) / weekLength) + 1;
+        }
+        if (intercalary.countsForWeekdays ?? true) {
+          weeks += weeksIn(intercalary.days || 1);
+        }
       }
     }
+
+    return null;
+  }
+
+  /**
+   * Convert a date to the shared absolute day count declared by the calendar's anchor
+   *
+   * Returns null when the calendar has no anchor.
+   */
+  dateToAbsoluteDay(date: CalendarDate): number | null {
+    const anchor = this.calendar.anchor;
+    if (!anchor) return null;
+
+    const anchorDays = this.dateToDays({ ...anchor.date, weekday: 0 });
+    return anchor.absoluteDay + (this.dateToDays(date) - anchorDays);
+  }
+
+  /**
+   * Convert a shared absolute day count back to a date in this calendar
+   *
+   * Returns null when the calendar has no anchor.
+   */
+  absoluteDayToDate(absoluteDay: number): CalendarDate | null {
+    const anchor = this.calendar.anchor;
+    if (!anchor) return null;
+
+    const anchorDays = this.dateToDays({ ...anchor.date, weekday: 0 });
+    return this.daysToDate(anchorDays + (absoluteDay - anchor.absoluteDay));
+  }
+
+  /**
+   * Get the season containing a date
+   *
+   * A season runs from its `startMonth`/`startDay` until the next season starts, so the
+   * last season of the year wraps into the next one. In the southern hemisphere the
+   * season half a year away is returned instead.
+   */
+  getSeason(date: CalendarDate, hemisphere: Hemisphere = 'northern'): CalendarSeason | null {
+    const seasons = this.calendar.seasons || [];
+    if (seasons.length === 0) return null;
+
+    const daysBeforeYear = this.getDaysBeforeYear(date.year);
+    const dayOfYear = this.dateToDays(date) - daysBeforeYear;
+    const starts = seasons
+      .map(season => {
+        const day = Math.min(
+          Math.max(season.startDay || 1, 1),
+          this.getMonthLength(season.startMonth, date.year)
+        );
+        const start = this.dateToDays({
+          year: date.year,
+          month: season.startMonth,
+          day,
+          weekday: 0,
+        });
+        return { season, dayOfYear: start - daysBeforeYear };
+      })
+      .sort((a, b) => a.dayOfYear - b.dayOfYear);
+
+    // Before the first start of the year, the previous year's last season still applies
+    let index = starts.length - 1;
+    for (let i = 0; i < starts.length; i++) {
+      if (starts[i].dayOfYear <= dayOfYear) index = i;
+    }
+
+    if (hemisphere === 'southern') {
+      index = (index + Math.floor(starts.length / 2)) % starts.length;
+    }
+
+    return starts[index].season;
+  }
+
+  /**
+   * Get sunrise and sunset for a date as fractional hours of the calendar's day
+   *
+   * Uses the calendar's `daylight` table or solstice curve; without one, the default
+   * dawn and dusk are scaled to the calendar's `hoursInDay`.
+   */
+  getSunriseSunset(date: CalendarDate): SunriseSunset {
+    const daylight = this.calendar.daylight;
+    const hoursInDay = this.calendar.time.hoursInDay;
+
+    if (daylight?.months?.length === this.calendar.months.length) {
+      return this.interpolateDaylightTable(date, daylight.months);
+    }
+
+    const dayLength = daylight ? this.getDayLength(date, daylight) : null;
+    if (dayLength === null) {
+      const scale = hoursInDay / 24;
+      return {
+        sunrise: TIME_CONSTANTS.DEFAULT_SUNRISE_HOUR * scale,
+        sunset: TIME_CONSTANTS.DEFAULT_SUNSET_HOUR * scale,
+      };
+    }
+
+    const solarNoon = daylight?.solarNoon ?? hoursInDay / 2;
+    return { sunrise: solarNoon - dayLength / 2, sunset: solarNoon + dayLength / 2 };
+  }
+
+  /**
+   * Get the named time segment a date's time of day falls in, or null if none covers it
+   *
+   * Segments can overlap (watches and bells, say); pass `type` to pick one set,
+   * otherwise the first matching segment in calendar order is returned.
+   */
+  getTimeSegment(date: CalendarDate, type?: string): CalendarTimeSegment | null {
+    const hour = this.getHourOfDay(date);
+
+    return (
+      this.getTimeSegments(type).find(segment =>
+        segment.end > segment.start
+          ? hour >= segment.start && hour < segment.end
+          : hour >= segment.start || hour < segment.end
+      ) || null
+    );
+  }
+
+  /**
+   * Get the seconds from a date to the start of the segment `count` segments away
+   *
+   * Positive counts move to following segment starts, wrapping into the next day;
+   * negative counts move back to earlier ones. Returns 0 without any segments.
+   */
+  getTimeSegmentOffset(date: CalendarDate, count: number, type?: string): number {
+    const { minutesInHour, secondsInMinute } = this.calendar.time;
+    const secondsPerHour = minutesInHour * secondsInMinute;
+    const secondsPerDay = CalendarTimeUtils.getSecondsPerDay(this.calendar);
+    const starts = [
+      ...new Set(this.getTimeSegments(type).map(s => Math.round(s.start * secondsPerHour))),
+    ].sort((a, b) => a - b);
+
+    if (starts.length === 0) return 0;
+
+    const now = Math.round(this.getHourOfDay(date) * secondsPerHour);
+    let position = now;
+
+    for (let step = 0; step < Math.abs(count); step++) {
+      const dayStart = Math.floor(position / secondsPerDay) * secondsPerDay;
+      const timeOfDay = position - dayStart;
+
+      if (count > 0) {
+        const next = starts.find(start => start > timeOfDay);
+        position = dayStart + (next ?? starts[0] + secondsPerDay);
+      } else {
+        const previous = [...starts].reverse().find(start => start < timeOfDay);
+        position = dayStart + (previous ?? starts[starts.length - 1] - secondsPerDay);
+      }
+    }
+
+    return position - now;
+  }
+
+  /**
+   * Get the calendar's time segments, optionally only those of one type
+   */
+  private getTimeSegments(type?: string): CalendarTimeSegment[] {
+    return (this.calendar.timeSegments || []).filter(segment => !type || segment.type === type);
+  }
+
+  /**
+   * Get a date's time of day in fractional calendar hours
+   */
+  private getHourOfDay(date: CalendarDate): number {
+    const { minutesInHour, secondsInMinute } = this.calendar.time;
+    const time = date.time || { hour: 0, minute: 0, second: 0 };
+
+    return (
+      time.hour + time.minute / minutesInHour + time.second / (minutesInHour * secondsInMinute)
+    );
+  }
+
+  /**
+   * Hours of daylight from the solstice curve, or null if the calendar doesn't define one
+   *
+   * With a latitude the sunrise equation is used (so polar days and nights can occur);
+   * otherwise the day length follows a cosine between `shortestDay` and `longestDay`.
+   */
+  private getDayLength(date: CalendarDate, daylight: CalendarDaylight): number | null {
+    const { solstice, latitude, longestDay, shortestDay } = daylight;
+    if (!solstice) return null;
+
+    const daysBeforeYear = this.getDaysBeforeYear(date.year);
+    const dayOfYear = this.dateToDays(date) - daysBeforeYear;
+    const solsticeDay =
+      this.dateToDays({ year: date.year, month: solstice.month, day: solstice.day, weekday: 0 }) -
+      daysBeforeYear;
+    const phase = (2 * Math.PI * (dayOfYear - solsticeDay)) / this.getYearLength(date.year);
+
+    if (latitude !== undefined) {
+      const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+      const declination = toRadians(daylight.axialTilt ?? DEFAULT_AXIAL_TILT) * Math.cos(phase);
+      const cosHourAngle = -Math.tan(toRadians(latitude)) * Math.tan(declination);
+      const hourAngle = Math.acos(Math.min(Math.max(cosHourAngle, -1), 1));
+      return (hourAngle / Math.PI) * this.calendar.time.hoursInDay;
+    }
+
+    if (longestDay !== undefined && shortestDay !== undefined) {
+      const average = (longestDay + shortestDay) / 2;
+      return average + ((longestDay - shortestDay) / 2) * Math.cos(phase);
+    }
+
+    return null;
+  }
+
+  /**
+   * Interpolate a per-month daylight table, treating each entry as the middle of its month
+   */
+  private interpolateDaylightTable(date: CalendarDate, table: DaylightMonth[]): SunriseSunset {
+    const yearLength = this.getYearLength(date.year);
+    const daysBeforeYear = this.getDaysBeforeYear(date.year);
+    const monthLengths = this.getMonthLengths(date.year);
+    const position = this.dateToDays(date) - daysBeforeYear + 0.5;
+
+    const points = table.map((entry, index) => {
+      const monthStart =
+        this.dateToDays({ year: date.year, month: index + 1, day: 1, weekday: 0 }) - daysBeforeYear;
+      return { ...entry, position: monthStart + monthLengths[index] / 2 };
+    });
+
+    // Wrap around the year so dates before the first or after the last midpoint interpolate
+    const nextIndex = points.findIndex(point => point.position > position);
+    const next =
+      nextIndex === -1
+        ? { ...points[0], position: points[0].position + yearLength }
+        : points[nextIndex];
+    const previous =
+      nextIndex === 0
+        ? {
+            ...points[points.length - 1],
+            position: points[points.length - 1].position - yearLength,
+          }
+        : points[(nextIndex === -1 ? points.length : nextIndex) - 1];
+
+    const ratio = (position - previous.position) / (next.position - previous.position);
+    return {
+      sunrise: previous.sunrise + (next.sunrise - previous.sunrise) * ratio,
+      sunset: previous.sunset + (next.sunset - previous.sunset) * ratio,
+    };
+  }
+
+  /**
+   * Get the calendar's holidays that fall on a date
+   *
+   * Holidays recur like recurring notes, counted from their `startYear` (or the
+   * calendar epoch), and are never stored as journal entries.
+   */
+  getHolidays(date: CalendarDate): CalendarHoliday[] {
+    return (this.calendar.holidays || []).filter(holiday => {
+      const startDate = {
+        year: holiday.startYear ?? this.calendar.year.epoch,
+        month: 1,
+        day: 1,
+        weekday: 0,
+      };
+      const pattern = { ...holiday.recurrence, interval: holiday.recurrence.interval || 1 };
+
+      return NoteRecurrence.matchesDate(date, pattern as RecurringPattern, startDate, this);
+    });
+  }
+
+  /**
+   * Get the phase of every moon defined by the calendar for a given date
+   */
+  getMoonPhases(date: CalendarDate): MoonPhaseInfo[] {
+    const moons = this.calendar.moons || [];
+    if (moons.length === 0) return [];
+
+    const dayNumber = this.dateToDays(date);
+    return moons.map(moon => this.calculateMoonPhase(moon, dayNumber));
+  }
+
+  /**
+   * Calculate a single moon's phase for a day count since epoch
+   */
+  private calculateMoonPhase(moon: CalendarMoon, dayNumber: number): MoonPhaseInfo {
+    const phases = moon.phases?.length ? moon.phases : MOON_CONSTANTS.DEFAULT_PHASES;
+    const cycleLength = moon.cycleLength;
+
+    let age = (dayNumber - this.getMoonReferenceDays(moon)) % cycleLength;
+    if (age < 0) {
+      age += cycleLength;
+    }
+
+    // Phases are centred on their exact moment, so "Full Moon" spans the days either side of it
+    const cyclePosition = age / cycleLength;
+    const phaseIndex = Math.floor(cyclePosition * phases.length + 0.5) % phases.length;
+    const phase = phases[phaseIndex];
+
+    // Illumination follows a cosine curve: 0 at new moon, 1 at full moon
+    const illumination = (1 - Math.cos(2 * Math.PI * cyclePosition)) / 2;
+
+    // Fall back to the standard eight-phase icons based on position in the cycle
+    const defaultPhases = MOON_CONSTANTS.DEFAULT_PHASES;
+    const icon =
+      phase.icon ||
+      defaultPhases[Math.floor(cyclePosition * defaultPhases.length + 0.5) % defaultPhases.length]
+        .icon;
+
+    return {
+      moon: moon.name,
+      phase: phase.name,
+      phaseIndex,
+      icon,
+      illumination: Math.round(illumination * 1000) / 1000,
+      dayInCycle: Math.floor(age) + 1,
+      color: moon.color,
+    };
+  }
+
+  /**
+   * Get (and cache) the day count of a moon's reference new moon
+   */
+  private getMoonReferenceDays(moon: CalendarMoon): number {
+    let referenceDays = this.moonReferenceDays.get(moon.name);
+
+    if (referenceDays === undefined) {
+      referenceDays = this.dateToDays({ ...moon.firstNewMoon, weekday: 0 });
+      this.moonReferenceDays.set(moon.name, referenceDays);
+    }
+
+    return referenceDays;
   }
 
   /**
@@ -605,8 +1460,8 @@ export class CalendarEngine {
    */
   updateCalendar(calendar: SeasonsStarsCalendar): void {
     this.calendar = calendar;
-    this.calculationCache.clear();
-    this.precomputeYearData();
+    this.moonReferenceDays.clear();
+    this.buildLeapCycleTable();
   }
 
   /**
@@ -0,0 +1,91 @@
+/**
+ * Era and regnal year numbering for Seasons & Stars calendars
+ *
+ * Calendars declare `eras`, each starting at an internal calendar year. A year belongs to
+ * the latest era that has started; an era without `startYear` covers every earlier year.
+ * Forward eras count up from 1 at their start year (plus `offset`); backwards eras count
+ * down towards the next era, so the year before it is year 1 (plus `offset`), like BC.
+ */
+
+import type { CalendarEra, SeasonsStarsCalendar } from '../types/calendar';
+
+const DEFAULT_ERA_FORMAT = '{year} {abbreviation}';
+
+export interface EraYear {
+  era: CalendarEra;
+  eraYear: number;
+}
+
+export class CalendarEras {
+  /**
+   * Get the calendar's eras ordered by start year
+   */
+  static getEras(calendar: SeasonsStarsCalendar): CalendarEra[] {
+    return [...(calendar.eras || [])].sort(
+      (a, b) => (a.startYear ?? -Infinity) - (b.startYear ?? -Infinity)
+    );
+  }
+
+  /**
+   * Find the era containing a year and the year's number within it
+   */
+  static getEraYear(calendar: SeasonsStarsCalendar, year: number): EraYear | null {
+    const eras = this.getEras(calendar);
+
+    for (let index = eras.length - 1; index >= 0; index--) {
+      const era = eras[index];
+      if (era.startYear !== undefined && era.startYear > year) continue;
+
+      return { era, eraYear: this.toEraYear(era, eras[index + 1], year) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Format a year with its era, or return null if the calendar has no era for it
+   */
+  static formatYear(calendar: SeasonsStarsCalendar, year: number): string | null {
+    const eraYear = this.getEraYear(calendar, year);
+    if (!eraYear) return null;
+
+    const { era } = eraYear;
+    return (era.format || DEFAULT_ERA_FORMAT)
+      .replace('{year}', eraYear.eraYear.toString())
+      .replace('{era}', era.name)
+      .replace('{abbreviation}', era.abbreviation || era.name)
+      .trim();
+  }
+
+  /**
+   * Convert a year number within an era back to the internal calendar year
+   */
+  static toCalendarYear(calendar: SeasonsStarsCalendar, era: CalendarEra, eraYear: number): number {
+    const eras = this.getEras(calendar);
+    const nextEra = eras[eras.indexOf(era) + 1];
+    const offset = era.offset || 0;
+
+    if (era.backwards) {
+      return (nextEra?.startYear ?? 0) - (eraYear - offset);
+    }
+
+    return (era.startYear ?? 0) + (eraYear - offset) - 1;
+  }
+
+  /**
+   * Number a year within an era
+   */
+  private static toEraYear(
+    era: CalendarEra,
+    nextEra: CalendarEra | undefined,
+    year: number
+  ): number {
+    const offset = era.offset || 0;
+
+    if (era.backwards) {
+      return (nextEra?.startYear ?? 0) - year + offset;
+    }
+
+    return year - (era.startYear ?? 0) + 1 + offset;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Calendar variants for Seasons & Stars
+ *
+ * A calendar with `extends: "<calendarId>"` only lists what differs from the calendar it
+ * extends. Objects merge key by key and a `null` value removes a key. Arrays of objects
+ * (months, weekdays, seasons...) merge item by item: `{}` keeps an item unchanged, `null`
+ * removes it, and items past the end of the variant's array are kept. Any other array
+ * replaces the base array.
+ */
+
+import type { SeasonsStarsCalendar } from '../types/calendar';
+
+type JsonObject = Record<string, unknown>;
+
+export class CalendarInheritance {
+  /**
+   * Merge a variant's overrides onto the calendar it extends, giving a standalone calendar
+   */
+  static merge(base: SeasonsStarsCalendar, variant: SeasonsStarsCalendar): SeasonsStarsCalendar {
+    const merged = this.mergeValue(this.clone(base), this.clone(variant)) as SeasonsStarsCalendar;
+    delete merged.extends;
+    return merged;
+  }
+
+  /**
+   * Get the sparse overrides that turn `base` into `calendar`
+   *
+   * Merging the result back onto `base` gives `calendar` again.
+   */
+  static diff(
+    base: SeasonsStarsCalendar,
+    calendar: SeasonsStarsCalendar
+  ): Partial<SeasonsStarsCalendar> {
+    return (this.diffValue(base, calendar) as Partial<SeasonsStarsCalendar>) || {};
+  }
+
+  private static mergeValue(base: unknown, override: unknown): unknown {
+    if (this.isObject(base) && this.isObject(override)) {
+      const result: JsonObject = { ...base };
+      for (const [key, value] of Object.entries(override)) {
+        if (value === null) {
+          delete result[key];
+        } else {
+          result[key] = this.mergeValue(base[key], value);
+        }
+      }
+      return result;
+    }
+
+    if (Array.isArray(base) && this.isObjectArray(override)) {
+      const result: unknown[] = [];
+      for (let index = 0; index < Math.max(base.length, override.length); index++) {
+        const item = override[index];
+        if (item === null) continue;
+        result.push(index < override.length ? this.mergeValue(base[index], item) : base[index]);
+      }
+      return result;
+    }
+
+    return override;
+  }
+
+  /**
+   * Get the override for one value, or undefined when nothing changed
+   */
+  private static diffValue(base: unknown, target: unknown): unknown {
+    if (this.isObject(base) && this.isObject(target)) {
+      const result: JsonObject = {};
+      for (const [key, value] of Object.entries(target)) {
+        const change = key in base ? this.diffValue(base[key], value) : value;
+        if (change !== undefined) result[key] = change;
+      }
+      for (const key of Object.keys(base)) {
+        if (!(key in target)) result[key] = null;
+      }
+      return Object.keys(result).length > 0 ? result : undefined;
+    }
+
+    if (Array.isArray(base) && this.isObjectArray(target)) {
+      const changes = target.map((item, index) =>
+        index < base.length ? this.diffValue(base[index], item) : item
+      );
+
+      // Remove base items past the end of the target; merging keeps unchanged trailing items
+      const removed = base.slice(target.length).map(() => null);
+      if (removed.length === 0) {
+        while (changes.length > 0 && changes[changes.length - 1] === undefined) changes.pop();
+      }
+      if (changes.length === 0 && removed.length === 0) return undefined;
+
+      return [...changes.map(change => change ?? {}), ...removed];
+    }
+
+    return JSON.stringify(base) === JSON.stringify(target) ? undefined : target;
+  }
+
+  private static isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isObjectArray(value: unknown): value is (JsonObject | null)[] {
+    return (
+      Array.isArray(value) &&
+      value.some(item => this.isObject(item)) &&
+      value.every(item => item === null || this.isObject(item))
+    );
+  }
+
+  private static clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
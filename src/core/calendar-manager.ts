@@ -2,17 +2,24 @@
  * Calendar management system for Seasons & Stars
  */
 
-import type { SeasonsStarsCalendar } from '../types/calendar';
+import type {
+  CalendarDate as ICalendarDate,
+  DateArithmeticOptions,
+  SeasonsStarsCalendar,
+} from '../types/calendar';
 import { CalendarEngine } from './calendar-engine';
 import { TimeConverter } from './time-converter';
 import { CalendarValidator } from './calendar-validator';
+import { CalendarInheritance } from './calendar-inheritance';
 import { CalendarDate } from './calendar-date';
 import { CalendarLocalization } from './calendar-localization';
+import { CalendarTimeUtils } from './calendar-time-utils';
 import { Logger } from './logger';
 import { BUILT_IN_CALENDARS } from '../generated/calendar-list';
 
 export class CalendarManager {
   private calendars: Map<string, SeasonsStarsCalendar> = new Map();
+  private calendarParents: Map<string, string> = new Map();
   public engines: Map<string, CalendarEngine> = new Map();
   private timeConverter: TimeConverter | null = null;
   private activeCalendarId: string | null = null;
@@ -57,6 +64,7 @@ export class CalendarManager {
    */
   async loadBuiltInCalendars(): Promise<void> {
     const builtInCalendars = BUILT_IN_CALENDARS;
+    const fetchedCalendars: SeasonsStarsCalendar[] = [];
 
     for (const calendarId of builtInCalendars) {
       try {
@@ -64,8 +72,7 @@ export class CalendarManager {
         const response = await fetch(`modules/seasons-and-stars/calendars/${calendarId}.json`);
 
         if (response.ok) {
-          const calendarData = await response.json();
-          this.loadCalendar(calendarData);
+          fetchedCalendars.push(await response.json());
         } else {
           Logger.warn(`Could not load built-in calendar: ${calendarId}`);
         }
@@ -73,12 +80,61 @@ export class CalendarManager {
         Logger.error(`Error loading calendar ${calendarId}`, error as Error);
       }
     }
+
+    for (const calendarData of this.orderByInheritance(fetchedCalendars)) {
+      this.loadCalendar(calendarData);
+    }
+  }
+
+  /**
+   * Order calendars so each variant comes after the calendar it extends
+   */
+  private orderByInheritance(calendars: SeasonsStarsCalendar[]): SeasonsStarsCalendar[] {
+    const ordered: SeasonsStarsCalendar[] = [];
+    const available = new Set(this.calendars.keys());
+    let remaining = calendars;
+
+    while (remaining.length > 0) {
+      const ready = remaining.filter(
+        calendar => !calendar.extends || available.has(calendar.extends)
+      );
+
+      // Variants of unknown calendars are left for loadCalendar() to report
+      if (ready.length === 0) {
+        ordered.push(...remaining);
+        break;
+      }
+
+      for (const calendar of ready) {
+        ordered.push(calendar);
+        available.add(calendar.id);
+      }
+      remaining = remaining.filter(calendar => !ready.includes(calendar));
+    }
+
+    return ordered;
   }
 
   /**
    * Load a calendar from data
+   *
+   * Calendars with `extends` are merged onto the already loaded calendar they extend,
+   * and the merged result is validated and stored.
    */
   loadCalendar(calendarData: SeasonsStarsCalendar): boolean {
+    const parentId = calendarData.extends;
+
+    if (parentId !== undefined) {
+      const parent = parentId !== calendarData.id ? this.calendars.get(parentId) : undefined;
+
+      if (!parent) {
+        Logger.error(`Calendar ${calendarData.id} extends unknown calendar: ${parentId}`);
+        return false;
+      }
+
+      calendarData = CalendarInheritance.merge(parent, calendarData);
+    }
+
     // Validate the calendar data
     const validation = CalendarValidator.validate(calendarData);
 
@@ -94,6 +150,11 @@ export class CalendarManager {
 
     // Store the calendar
     this.calendars.set(calendarData.id, calendarData);
+    if (parentId !== undefined) {
+      this.calendarParents.set(calendarData.id, parentId);
+    } else {
+      this.calendarParents.delete(calendarData.id);
+    }
 
     // Create engine for this calendar
     const engine = new CalendarEngine(calendarData);
@@ -201,8 +262,11 @@ export class CalendarManager {
 
   /**
    * Export a calendar to JSON
+   *
+   * Variants export as the full merged calendar, or with `sparse` as just their
+   * overrides of the calendar they extend.
    */
-  exportCalendar(calendarId: string): string | null {
+  exportCalendar(calendarId: string, options: { sparse?: boolean } = {}): string | null {
     const calendar = this.calendars.get(calendarId);
 
     if (!calendar) {
@@ -210,7 +274,15 @@ export class CalendarManager {
       return null;
     }
 
+    const parentId = this.calendarParents.get(calendarId);
+    const parent = parentId ? this.calendars.get(parentId) : undefined;
+
     try {
+      if (options.sparse && parent) {
+        const overrides = CalendarInheritance.diff(parent, calendar);
+        return JSON.stringify({ id: calendar.id, extends: parentId, ...overrides }, null, 2);
+      }
+
       return JSON.stringify(calendar, null, 2);
     } catch (error) {
       Logger.error('Error exporting calendar', error as Error);
@@ -241,6 +313,7 @@ export class CalendarManager {
     }
 
     this.calendars.delete(calendarId);
+    this.calendarParents.delete(calendarId);
     this.engines.delete(calendarId);
 
     Logger.debug(`Removed calendar: ${calendarId}`);
@@ -255,6 +328,50 @@ export class CalendarManager {
     return this.timeConverter.getCurrentDate();
   }
 
+  /**
+   * Convert a date between two loaded calendars using their anchors
+   *
+   * Returns null if either calendar is missing or has no anchor. The time of day is
+   * carried over as the same fraction of the day.
+   */
+  convertDate(
+    date: ICalendarDate,
+    fromCalendarId: string,
+    toCalendarId: string
+  ): CalendarDate | null {
+    const fromEngine = this.engines.get(fromCalendarId);
+    const toEngine = this.engines.get(toCalendarId);
+    if (!fromEngine || !toEngine) return null;
+
+    const absoluteDay = fromEngine.dateToAbsoluteDay(date);
+    if (absoluteDay === null) return null;
+
+    const converted = toEngine.absoluteDayToDate(absoluteDay);
+    if (!converted) return null;
+
+    if (date.time) {
+      const fromTime = fromEngine.getCalendar().time;
+      const toTime = toEngine.getCalendar().time;
+      const fromSecondsPerDay = CalendarTimeUtils.getSecondsPerDay(fromEngine.getCalendar());
+      const toSecondsPerDay = CalendarTimeUtils.getSecondsPerDay(toEngine.getCalendar());
+
+      const fromSeconds =
+        (date.time.hour * fromTime.minutesInHour + date.time.minute) * fromTime.secondsInMinute +
+        date.time.second;
+      let seconds = Math.floor((fromSeconds / fromSecondsPerDay) * toSecondsPerDay);
+
+      const second = seconds % toTime.secondsInMinute;
+      seconds = Math.floor(seconds / toTime.secondsInMinute);
+      converted.time = {
+        hour: Math.floor(seconds / toTime.minutesInHour),
+        minute: seconds % toTime.minutesInHour,
+        second,
+      };
+    }
+
+    return new CalendarDate(converted, toEngine.getCalendar(), toEngine);
+  }
+
   /**
    * Advance time by days using active calendar
    */
@@ -291,23 +408,23 @@ export class CalendarManager {
   /**
    * Advance time by months using active calendar
    */
-  async advanceMonths(months: number): Promise<void> {
+  async advanceMonths(months: number, options: DateArithmeticOptions = {}): Promise<void> {
     if (!this.timeConverter) {
       throw new Error('No active calendar set');
     }
 
-    await this.timeConverter.advanceMonths(months);
+    await this.timeConverter.advanceMonths(months, options);
   }
 
   /**
    * Advance time by years using active calendar
    */
-  async advanceYears(years: number): Promise<void> {
+  async advanceYears(years: number, options: DateArithmeticOptions = {}): Promise<void> {
     if (!this.timeConverter) {
       throw new Error('No active calendar set');
     }
 
-    await this.timeConverter.advanceYears(years);
+    await this.timeConverter.advanceYears(years, options);
   }
 
   /**
@@ -321,6 +438,17 @@ export class CalendarManager {
     await this.timeConverter.advanceMinutes(minutes);
   }
 
+  /**
+   * Advance time by named time segments using active calendar
+   */
+  async advanceTimeSegments(segments: number, type?: string): Promise<void> {
+    if (!this.timeConverter) {
+      throw new Error('No active calendar set');
+    }
+
+    await this.timeConverter.advanceTimeSegments(segments, type);
+  }
+
   /**
    * Set current date using active calendar
    */
@@ -15,7 +15,12 @@
  * actual time configuration instead of Earth-based assumptions.
  */
 
-import type { SeasonsStarsCalendar, CalendarDate as ICalendarDate } from '../types/calendar';
+import type {
+  SeasonsStarsCalendar,
+  CalendarDate as ICalendarDate,
+  CalendarDuration,
+  DurationFormatOptions,
+} from '../types/calendar';
 
 export class CalendarTimeUtils {
   /**
@@ -144,6 +149,18 @@ export class CalendarTimeUtils {
     return this.compareDates(dateA, dateB) > 0;
   }
 
+  /**
+   * Format a date as a note storage key (YYYY-MM-DD, or YYYY-MM-Name-DD for intercalary days)
+   */
+  static formatDateKey(date: ICalendarDate): string {
+    const year = date.year.toString().padStart(4, '0');
+    const month = date.month.toString().padStart(2, '0');
+    const day = date.day.toString().padStart(2, '0');
+    return date.intercalary
+      ? `${year}-${month}-${date.intercalary}-${day}`
+      : `${year}-${month}-${day}`;
+  }
+
   // === DATE ARITHMETIC UTILITIES ===
 
   /**
@@ -255,6 +272,53 @@ export class CalendarTimeUtils {
     return value.toString().padStart(padLength, '0');
   }
 
+  /**
+   * Format fractional hours (e.g. a sunrise of 6.5) as HH:MM using the calendar's minutes
+   */
+  static formatHours(hours: number, calendar: SeasonsStarsCalendar): string {
+    const { minutesInHour } = calendar.time;
+    const totalMinutes = Math.round(hours * minutesInHour);
+    const hour = Math.floor(totalMinutes / minutesInHour);
+    const minute = totalMinutes - hour * minutesInHour;
+
+    return `${this.formatTimeComponent(hour)}:${this.formatTimeComponent(minute)}`;
+  }
+
+  /**
+   * Describe a duration in words, e.g. "3 months, 4 days ago" or "in 2 hours"
+   *
+   * Only the largest `maxUnits` non-zero units are shown. Negative durations lie in the past.
+   */
+  static humanizeDuration(duration: CalendarDuration, options: DurationFormatOptions = {}): string {
+    const { maxUnits = 2, relative = true } = options;
+    const units: Array<[keyof CalendarDuration, string]> = [
+      ['years', 'year'],
+      ['months', 'month'],
+      ['days', 'day'],
+      ['hours', 'hour'],
+      ['minutes', 'minute'],
+      ['seconds', 'second'],
+    ];
+
+    const parts = units
+      .filter(([key]) => duration[key])
+      .slice(0, Math.max(1, maxUnits))
+      .map(([key, unit]) => {
+        const amount = Math.abs(duration[key]!);
+        return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+      });
+
+    if (parts.length === 0) {
+      return relative ? 'now' : '0 seconds';
+    }
+
+    const text = parts.join(', ');
+    if (!relative) return text;
+
+    const isPast = units.some(([key]) => (duration[key] || 0) < 0);
+    return isPast ? `${text} ago` : `in ${text}`;
+  }
+
   // === CALENDAR-SPECIFIC YEAR OPERATIONS ===
 
   /**
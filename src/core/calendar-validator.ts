@@ -147,12 +147,81 @@ export class CalendarValidator {
 
     if (calendar.intercalary && !Array.isArray(calendar.intercalary)) {
       result.errors.push('Intercalary days must be an array');
+    } else if (Array.isArray(calendar.intercalary)) {
+      calendar.intercalary.forEach((intercalary: any, index: number) => {
+        if (intercalary.display !== undefined && !['row', 'page'].includes(intercalary.display)) {
+          result.errors.push(`Intercalary day ${index + 1} display must be one of: row, page`);
+        }
+      });
     }
 
     // Validate time configuration
     if (calendar.time) {
       this.validateTimeConfig(calendar.time, result);
     }
+
+    // Validate moons
+    if (calendar.moons !== undefined) {
+      this.validateMoons(calendar.moons, result);
+    }
+
+    // Validate cross-calendar anchor
+    if (calendar.anchor !== undefined) {
+      this.validateAnchor(calendar.anchor, result);
+    }
+
+    // Validate week configuration
+    if (calendar.week !== undefined) {
+      if (!calendar.week || typeof calendar.week !== 'object') {
+        result.errors.push('Week must be an object');
+      } else if (
+        calendar.week.resetMode !== undefined &&
+        !['continuous', 'month', 'year'].includes(calendar.week.resetMode)
+      ) {
+        result.errors.push('Week resetMode must be one of: continuous, month, year');
+      }
+    }
+
+    // Validate seasons
+    if (calendar.seasons !== undefined) {
+      this.validateSeasons(calendar.seasons, result);
+    }
+
+    // Validate daylight configuration
+    if (calendar.daylight !== undefined) {
+      this.validateDaylight(calendar.daylight, result);
+    }
+
+    // Validate named time segments
+    if (calendar.timeSegments !== undefined) {
+      this.validateTimeSegments(calendar.timeSegments, calendar.time?.hoursInDay ?? 24, result);
+    }
+
+    // Validate calendar revisions
+    if (calendar.revisions !== undefined) {
+      this.validateRevisions(calendar.revisions, calendar, result);
+    }
+
+    // Validate recurring holidays
+    if (calendar.holidays !== undefined) {
+      this.validateHolidays(calendar.holidays, calendar, result);
+    }
+
+    // Validate eras
+    if (calendar.eras !== undefined) {
+      this.validateEras(calendar.eras, result);
+    }
+
+    // Validate named date formats
+    if (calendar.dateFormats !== undefined) {
+      this.validateDateFormats(calendar.dateFormats, result);
+    }
+
+    // Validate named years extension
+    const namedYears = calendar.extensions?.['seasons-and-stars']?.namedYears;
+    if (namedYears !== undefined) {
+      this.validateNamedYears(namedYears, result);
+    }
   }
 
   /**
@@ -210,6 +279,69 @@ export class CalendarValidator {
     if (leapYear.extraDays !== undefined && typeof leapYear.extraDays !== 'number') {
       result.errors.push('Leap year extraDays must be a number');
     }
+
+    if (leapYear.rules !== undefined) {
+      this.validateLeapYearRules(leapYear.rules, 'Leap year rules', result);
+    }
+
+    if (leapYear.months !== undefined) {
+      if (!Array.isArray(leapYear.months)) {
+        result.errors.push('Leap year months must be an array');
+        return;
+      }
+
+      leapYear.months.forEach((leapMonth: any, index: number) => {
+        const label = `Leap year month ${index + 1}`;
+
+        if (typeof leapMonth !== 'object' || leapMonth === null) {
+          result.errors.push(`${label} must be an object`);
+          return;
+        }
+
+        if (typeof leapMonth.month !== 'string') {
+          result.errors.push(`${label} month must be a string`);
+        }
+
+        if (leapMonth.extraDays !== undefined && typeof leapMonth.extraDays !== 'number') {
+          result.errors.push(`${label} extraDays must be a number`);
+        }
+
+        if (leapMonth.rules !== undefined) {
+          this.validateLeapYearRules(leapMonth.rules, `${label} rules`, result);
+        }
+      });
+    }
+  }
+
+  /**
+   * Validate a leap year rule list
+   */
+  private static validateLeapYearRules(rules: any, label: string, result: ValidationResult): void {
+    if (!Array.isArray(rules)) {
+      result.errors.push(`${label} must be an array`);
+      return;
+    }
+
+    rules.forEach((rule: any, index: number) => {
+      const ruleLabel = `${label} entry ${index + 1}`;
+
+      if (typeof rule !== 'object' || rule === null) {
+        result.errors.push(`${ruleLabel} must be an object`);
+        return;
+      }
+
+      if (!Number.isInteger(rule.every) || rule.every < 1) {
+        result.errors.push(`${ruleLabel} every must be a positive whole number`);
+      }
+
+      if (rule.offset !== undefined && !Number.isInteger(rule.offset)) {
+        result.errors.push(`${ruleLabel} offset must be a whole number`);
+      }
+
+      if (rule.skip !== undefined && typeof rule.skip !== 'boolean') {
+        result.errors.push(`${ruleLabel} skip must be a boolean`);
+      }
+    });
   }
 
   /**
@@ -234,6 +366,485 @@ export class CalendarValidator {
     }
   }
 
+  /**
+   * Validate moon definitions
+   */
+  private static validateMoons(moons: any, result: ValidationResult): void {
+    if (!Array.isArray(moons)) {
+      result.errors.push('Moons must be an array');
+      return;
+    }
+
+    moons.forEach((moon: any, index: number) => {
+      if (!moon || typeof moon !== 'object') {
+        result.errors.push(`Moon ${index + 1} must be an object`);
+        return;
+      }
+
+      if (!moon.name || typeof moon.name !== 'string') {
+        result.errors.push(`Moon ${index + 1} missing required field: name`);
+      }
+
+      if (typeof moon.cycleLength !== 'number' || moon.cycleLength <= 0) {
+        result.errors.push(`Moon ${index + 1} cycleLength must be a positive number`);
+      }
+
+      const reference = moon.firstNewMoon;
+      if (
+        !reference ||
+        typeof reference !== 'object' ||
+        typeof reference.year !== 'number' ||
+        typeof reference.month !== 'number' ||
+        typeof reference.day !== 'number'
+      ) {
+        result.errors.push(
+          `Moon ${index + 1} firstNewMoon must have numeric year, month, and day fields`
+        );
+      }
+
+      if (moon.phases !== undefined) {
+        if (!Array.isArray(moon.phases) || moon.phases.length === 0) {
+          result.errors.push(`Moon ${index + 1} phases must be a non-empty array`);
+        } else {
+          moon.phases.forEach((phase: any, phaseIndex: number) => {
+            if (!phase?.name || typeof phase.name !== 'string') {
+              result.errors.push(
+                `Moon ${index + 1} phase ${phaseIndex + 1} missing required field: name`
+              );
+            }
+          });
+        }
+      }
+
+      if (moon.color !== undefined && typeof moon.color !== 'string') {
+        result.errors.push(`Moon ${index + 1} color must be a string`);
+      }
+    });
+  }
+
+  /**
+   * Validate the cross-calendar anchor
+   */
+  private static validateAnchor(anchor: any, result: ValidationResult): void {
+    if (!anchor || typeof anchor !== 'object') {
+      result.errors.push('Anchor must be an object');
+      return;
+    }
+
+    if (!Number.isInteger(anchor.absoluteDay)) {
+      result.errors.push('Anchor absoluteDay must be a whole number');
+    }
+
+    const date = anchor.date;
+    if (
+      !date ||
+      typeof date !== 'object' ||
+      typeof date.year !== 'number' ||
+      typeof date.month !== 'number' ||
+      typeof date.day !== 'number'
+    ) {
+      result.errors.push('Anchor date must have numeric year, month, and day fields');
+    }
+  }
+
+  /**
+   * Validate season definitions
+   */
+  private static validateSeasons(seasons: any, result: ValidationResult): void {
+    if (!Array.isArray(seasons)) {
+      result.errors.push('Seasons must be an array');
+      return;
+    }
+
+    seasons.forEach((season: any, index: number) => {
+      if (!season || typeof season !== 'object') {
+        result.errors.push(`Season ${index + 1} must be an object`);
+        return;
+      }
+
+      if (!season.name || typeof season.name !== 'string') {
+        result.errors.push(`Season ${index + 1} missing required field: name`);
+      }
+
+      if (!Number.isInteger(season.startMonth)) {
+        result.errors.push(`Season ${index + 1} startMonth must be a whole number`);
+      }
+
+      if (
+        season.startDay !== undefined &&
+        (!Number.isInteger(season.startDay) || season.startDay < 1)
+      ) {
+        result.errors.push(`Season ${index + 1} startDay must be a positive whole number`);
+      }
+    });
+  }
+
+  /**
+   * Validate the daylight curve or table
+   */
+  private static validateDaylight(daylight: any, result: ValidationResult): void {
+    if (!daylight || typeof daylight !== 'object') {
+      result.errors.push('Daylight must be an object');
+      return;
+    }
+
+    for (const field of ['longestDay', 'shortestDay', 'latitude', 'axialTilt', 'solarNoon']) {
+      if (daylight[field] !== undefined && typeof daylight[field] !== 'number') {
+        result.errors.push(`Daylight ${field} must be a number`);
+      }
+    }
+
+    if (typeof daylight.latitude === 'number' && Math.abs(daylight.latitude) > 90) {
+      result.errors.push('Daylight latitude must be between -90 and 90');
+    }
+
+    if ((daylight.longestDay === undefined) !== (daylight.shortestDay === undefined)) {
+      result.errors.push('Daylight longestDay and shortestDay must be given together');
+    } else if (daylight.longestDay < daylight.shortestDay) {
+      result.errors.push('Daylight longestDay must not be shorter than shortestDay');
+    }
+
+    const usesCurve = daylight.latitude !== undefined || daylight.longestDay !== undefined;
+    const solstice = daylight.solstice;
+    if (solstice !== undefined) {
+      if (
+        !solstice ||
+        typeof solstice !== 'object' ||
+        typeof solstice.month !== 'number' ||
+        typeof solstice.day !== 'number'
+      ) {
+        result.errors.push('Daylight solstice must have numeric month and day fields');
+      }
+    } else if (usesCurve) {
+      result.errors.push('Daylight solstice is required with latitude or longestDay');
+    }
+
+    if (daylight.months !== undefined) {
+      if (!Array.isArray(daylight.months)) {
+        result.errors.push('Daylight months must be an array');
+        return;
+      }
+
+      daylight.months.forEach((entry: any, index: number) => {
+        if (typeof entry?.sunrise !== 'number' || typeof entry?.sunset !== 'number') {
+          result.errors.push(
+            `Daylight months entry ${index + 1} must have numeric sunrise and sunset`
+          );
+        } else if (entry.sunrise > entry.sunset) {
+          result.errors.push(`Daylight months entry ${index + 1} sunrise must not be after sunset`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Validate named time segments (watches, bells, canonical hours)
+   */
+  private static validateTimeSegments(
+    segments: any,
+    hoursInDay: number,
+    result: ValidationResult
+  ): void {
+    if (!Array.isArray(segments)) {
+      result.errors.push('Time segments must be an array');
+      return;
+    }
+
+    segments.forEach((segment: any, index: number) => {
+      const label = `Time segment ${index + 1}`;
+
+      if (!segment?.name || typeof segment.name !== 'string') {
+        result.errors.push(`${label} must have a name`);
+      }
+      if (segment?.type !== undefined && typeof segment.type !== 'string') {
+        result.errors.push(`${label} type must be a string`);
+      }
+
+      for (const field of ['start', 'end']) {
+        const hour = segment?.[field];
+        if (typeof hour !== 'number' || hour < 0 || hour > hoursInDay) {
+          result.errors.push(`${label} ${field} must be an hour between 0 and ${hoursInDay}`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate dated revisions to the calendar's structure
+   */
+  private static validateRevisions(revisions: any, calendar: any, result: ValidationResult): void {
+    if (!Array.isArray(revisions)) {
+      result.errors.push('Revisions must be an array');
+      return;
+    }
+
+    const months = Array.isArray(calendar.months) ? calendar.months : [];
+    const monthNames = months.map((month: any) => month?.name);
+    const switchovers = new Set<string>();
+
+    revisions.forEach((revision: any, index: number) => {
+      const label = `Revision ${index + 1}`;
+
+      if (!revision?.name || typeof revision.name !== 'string') {
+        result.errors.push(`${label} must have a name`);
+      }
+      if (!Number.isInteger(revision?.year)) {
+        result.errors.push(`${label} year must be a whole number`);
+        return;
+      }
+
+      const month = revision.month ?? 1;
+      if (!Number.isInteger(month) || month < 1 || month > months.length) {
+        result.errors.push(`${label} month must be between 1 and ${months.length}`);
+        return;
+      }
+
+      const switchover = `${revision.year}-${month}`;
+      if (switchovers.has(switchover)) {
+        result.errors.push(`${label} switches over in the same month as an earlier revision`);
+      }
+      switchovers.add(switchover);
+
+      if (revision.leapYear !== undefined) {
+        this.validateLeapYearConfig(revision.leapYear, result);
+      }
+
+      if (revision.months !== undefined) {
+        if (!Array.isArray(revision.months)) {
+          result.errors.push(`${label} months must be an array`);
+        } else {
+          revision.months.forEach((revisedMonth: any) => {
+            if (!monthNames.includes(revisedMonth?.name)) {
+              result.errors.push(
+                `${label} month '${revisedMonth?.name}' does not exist in months list`
+              );
+            }
+            if (!Number.isInteger(revisedMonth?.days) || revisedMonth.days < 1) {
+              result.errors.push(`${label} month days must be a positive whole number`);
+            }
+          });
+        }
+      }
+
+      const dropped = revision.droppedDays;
+      if (dropped !== undefined) {
+        const monthDays = months[month - 1]?.days ?? 0;
+        if (
+          !Number.isInteger(dropped?.startDay) ||
+          !Number.isInteger(dropped?.count) ||
+          dropped.startDay < 1 ||
+          dropped.count < 1 ||
+          dropped.startDay + dropped.count - 1 > monthDays
+        ) {
+          result.errors.push(
+            `${label} droppedDays must be within the ${monthDays} days of its month`
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate recurring holidays and their recurrence patterns
+   */
+  private static validateHolidays(holidays: any, calendar: any, result: ValidationResult): void {
+    if (!Array.isArray(holidays)) {
+      result.errors.push('Holidays must be an array');
+      return;
+    }
+
+    const monthCount = Array.isArray(calendar.months) ? calendar.months.length : 0;
+    const weekdayNames = new Set([
+      'sunday',
+      'monday',
+      'tuesday',
+      'wednesday',
+      'thursday',
+      'friday',
+      'saturday',
+      ...(Array.isArray(calendar.weekdays) ? calendar.weekdays : []).map((weekday: any) =>
+        String(weekday?.name).toLowerCase()
+      ),
+    ]);
+
+    holidays.forEach((holiday: any, index: number) => {
+      const label = `Holiday ${index + 1}`;
+
+      if (!holiday?.name || typeof holiday.name !== 'string') {
+        result.errors.push(`${label} must have a name`);
+      }
+
+      const recurrence = holiday?.recurrence;
+      if (!recurrence || typeof recurrence !== 'object') {
+        result.errors.push(`${label} must have a recurrence`);
+        return;
+      }
+
+      if (!['daily', 'weekly', 'monthly', 'yearly'].includes(recurrence.frequency)) {
+        result.errors.push(
+          `${label} recurrence frequency must be one of: daily, weekly, monthly, yearly`
+        );
+      }
+      if (
+        recurrence.interval !== undefined &&
+        (!Number.isInteger(recurrence.interval) || recurrence.interval < 1)
+      ) {
+        result.errors.push(`${label} recurrence interval must be a positive integer`);
+      }
+      if (
+        recurrence.yearMonth !== undefined &&
+        (!Number.isInteger(recurrence.yearMonth) ||
+          recurrence.yearMonth < 1 ||
+          recurrence.yearMonth > monthCount)
+      ) {
+        result.errors.push(`${label} recurrence yearMonth must be between 1 and ${monthCount}`);
+      }
+
+      const weekdays = [
+        ...(Array.isArray(recurrence.weekdays) ? recurrence.weekdays : []),
+        ...(recurrence.monthWeekday !== undefined ? [recurrence.monthWeekday] : []),
+      ];
+      for (const weekday of weekdays) {
+        if (typeof weekday !== 'string' || !weekdayNames.has(weekday.toLowerCase())) {
+          result.errors.push(`${label} recurrence has unknown weekday: ${weekday}`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate era definitions
+   */
+  private static validateEras(eras: any, result: ValidationResult): void {
+    if (!Array.isArray(eras)) {
+      result.errors.push('Eras must be an array');
+      return;
+    }
+
+    const startYears = new Set<number | undefined>();
+
+    eras.forEach((era: any, index: number) => {
+      if (!era || typeof era !== 'object') {
+        result.errors.push(`Era ${index + 1} must be an object`);
+        return;
+      }
+
+      if (!era.name || typeof era.name !== 'string') {
+        result.errors.push(`Era ${index + 1} missing required field: name`);
+      }
+
+      if (era.startYear !== undefined && !Number.isInteger(era.startYear)) {
+        result.errors.push(`Era ${index + 1} startYear must be a whole number`);
+      }
+
+      if (startYears.has(era.startYear)) {
+        result.errors.push(
+          era.startYear === undefined
+            ? `Era ${index + 1} omits startYear, but only one era may start at the beginning`
+            : `Era ${index + 1} starts in the same year as another era`
+        );
+      }
+      startYears.add(era.startYear);
+
+      if (era.offset !== undefined && !Number.isInteger(era.offset)) {
+        result.errors.push(`Era ${index + 1} offset must be a whole number`);
+      }
+
+      if (era.backwards !== undefined && typeof era.backwards !== 'boolean') {
+        result.errors.push(`Era ${index + 1} backwards must be a boolean`);
+      }
+
+      for (const field of ['abbreviation', 'format']) {
+        if (era[field] !== undefined && typeof era[field] !== 'string') {
+          result.errors.push(`Era ${index + 1} ${field} must be a string`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate named date formats
+   */
+  private static validateDateFormats(dateFormats: any, result: ValidationResult): void {
+    if (!dateFormats || typeof dateFormats !== 'object' || Array.isArray(dateFormats)) {
+      result.errors.push('Date formats must be an object');
+      return;
+    }
+
+    Object.entries(dateFormats).forEach(([name, definition]: [string, any]) => {
+      if (typeof definition === 'string') return;
+
+      if (!definition || typeof definition !== 'object' || typeof definition.date !== 'string') {
+        result.errors.push(
+          `Date format '${name}' must be a string or an object with a date string`
+        );
+        return;
+      }
+
+      if (definition.intercalary !== undefined && typeof definition.intercalary !== 'string') {
+        result.errors.push(`Date format '${name}' intercalary must be a string`);
+      }
+    });
+  }
+
+  /**
+   * Validate named years configuration
+   */
+  private static validateNamedYears(namedYears: any, result: ValidationResult): void {
+    if (!namedYears || typeof namedYears !== 'object') {
+      result.errors.push('Named years configuration must be an object');
+      return;
+    }
+
+    const validRules = ['repeat', 'list', 'explicit'];
+    if (!validRules.includes(namedYears.rule)) {
+      result.errors.push(`Named years rule must be one of: ${validRules.join(', ')}`);
+    }
+
+    if (namedYears.startYear !== undefined && typeof namedYears.startYear !== 'number') {
+      result.errors.push('Named years startYear must be a number');
+    }
+
+    if (namedYears.names !== undefined) {
+      if (
+        !Array.isArray(namedYears.names) ||
+        namedYears.names.some((name: any) => typeof name !== 'string')
+      ) {
+        result.errors.push('Named years names must be an array of strings');
+      }
+    }
+
+    if (
+      (namedYears.rule === 'repeat' || namedYears.rule === 'list') &&
+      (!Array.isArray(namedYears.names) || namedYears.names.length === 0)
+    ) {
+      result.errors.push(`Named years rule '${namedYears.rule}' requires a non-empty names list`);
+    }
+
+    if (namedYears.years !== undefined) {
+      if (typeof namedYears.years !== 'object' || Array.isArray(namedYears.years)) {
+        result.errors.push('Named years years must be an object mapping years to names');
+      } else {
+        for (const [year, name] of Object.entries(namedYears.years)) {
+          if (!Number.isInteger(Number(year))) {
+            result.errors.push(`Named years key '${year}' must be a whole year number`);
+          }
+          if (typeof name !== 'string') {
+            result.errors.push(`Named years name for year ${year} must be a string`);
+          }
+        }
+      }
+    }
+
+    if (namedYears.rule === 'explicit' && namedYears.years === undefined) {
+      result.errors.push("Named years rule 'explicit' requires a years map");
+    }
+
+    if (namedYears.format !== undefined && typeof namedYears.format !== 'string') {
+      result.errors.push('Named years format must be a string');
+    }
+  }
+
   /**
    * Validate data constraints and ranges
    */
@@ -332,6 +943,17 @@ export class CalendarValidator {
       }
     }
 
+    if (Array.isArray(calendar.leapYear?.months) && Array.isArray(calendar.months)) {
+      calendar.leapYear.months.forEach((leapMonth: any) => {
+        if (typeof leapMonth?.month !== 'string') return;
+
+        const monthExists = calendar.months.some((m: any) => m.name === leapMonth.month);
+        if (!monthExists) {
+          result.errors.push(`Leap year month '${leapMonth.month}' does not exist in months list`);
+        }
+      });
+    }
+
     // Validate intercalary day references
     if (Array.isArray(calendar.intercalary) && Array.isArray(calendar.months)) {
       calendar.intercalary.forEach((intercalary: any, index: number) => {
@@ -346,6 +968,66 @@ export class CalendarValidator {
         }
       });
     }
+
+    // Validate moon reference dates fall within the months list
+    if (Array.isArray(calendar.moons) && Array.isArray(calendar.months)) {
+      calendar.moons.forEach((moon: any, index: number) => {
+        const month = moon?.firstNewMoon?.month;
+        if (typeof month === 'number' && (month < 1 || month > calendar.months.length)) {
+          result.errors.push(
+            `Moon ${index + 1} firstNewMoon month must be between 1 and ${calendar.months.length}`
+          );
+        }
+      });
+    }
+
+    // Validate the anchor date falls within the months list
+    const anchorMonth = calendar.anchor?.date?.month;
+    if (
+      Array.isArray(calendar.months) &&
+      typeof anchorMonth === 'number' &&
+      (anchorMonth < 1 || anchorMonth > calendar.months.length)
+    ) {
+      result.errors.push(`Anchor date month must be between 1 and ${calendar.months.length}`);
+    }
+
+    // Validate season starts fall within the months list
+    if (Array.isArray(calendar.months) && Array.isArray(calendar.seasons)) {
+      calendar.seasons.forEach((season: any, index: number) => {
+        const month = calendar.months[season?.startMonth - 1];
+        if (typeof season?.startMonth !== 'number') return;
+
+        if (!month) {
+          result.errors.push(
+            `Season ${index + 1} startMonth must be between 1 and ${calendar.months.length}`
+          );
+        } else if (typeof season.startDay === 'number' && season.startDay > month.days) {
+          result.errors.push(
+            `Season ${index + 1} startDay must not exceed the ${month.days} days of ${month.name}`
+          );
+        }
+      });
+    }
+
+    // Validate the daylight table and solstice against the months list
+    const daylight = calendar.daylight;
+    if (Array.isArray(calendar.months) && daylight && typeof daylight === 'object') {
+      if (Array.isArray(daylight.months) && daylight.months.length !== calendar.months.length) {
+        result.errors.push(
+          `Daylight months must have one entry per month (${calendar.months.length})`
+        );
+      }
+
+      const solsticeMonth = daylight.solstice?.month;
+      if (
+        typeof solsticeMonth === 'number' &&
+        (solsticeMonth < 1 || solsticeMonth > calendar.months.length)
+      ) {
+        result.errors.push(
+          `Daylight solstice month must be between 1 and ${calendar.months.length}`
+        );
+      }
+    }
   }
 
   /**
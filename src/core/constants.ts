@@ -10,6 +10,20 @@ export const TIME_CONSTANTS = {
   DEFAULT_DUSK_HOUR: 18,
 } as const;
 
+// Moon phase constants (used when a moon does not define its own phases)
+export const MOON_CONSTANTS = {
+  DEFAULT_PHASES: [
+    { name: 'New Moon', icon: 'new' },
+    { name: 'Waxing Crescent', icon: 'waxing-crescent' },
+    { name: 'First Quarter', icon: 'first-quarter' },
+    { name: 'Waxing Gibbous', icon: 'waxing-gibbous' },
+    { name: 'Full Moon', icon: 'full' },
+    { name: 'Waning Gibbous', icon: 'waning-gibbous' },
+    { name: 'Last Quarter', icon: 'last-quarter' },
+    { name: 'Waning Crescent', icon: 'waning-crescent' },
+  ],
+} as const;
+
 // Storage and caching constants
 export const STORAGE_CONSTANTS = {
   DEFAULT_CACHE_SIZE: 100,
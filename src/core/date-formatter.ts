@@ -0,0 +1,202 @@
+/**
+ * Token-based date formatting for Seasons & Stars
+ *
+ * Format strings replace `{token}` placeholders with parts of a date, e.g.
+ * `'{weekday}, {dayOrdinal} {month}, {yearDisplay}'`. Calendars can declare named
+ * formats in `dateFormats`; names without a calendar entry use the built-in defaults.
+ */
+
+import type {
+  CalendarDate as ICalendarDate,
+  CalendarDateFormat,
+  SeasonsStarsCalendar,
+} from '../types/calendar';
+import { CalendarEngine } from './calendar-engine';
+import { CalendarEras } from './calendar-eras';
+import { CalendarTimeUtils } from './calendar-time-utils';
+import { NamedYears } from './named-years';
+import { getSceneHemisphere } from './scene-hemisphere';
+
+const DEFAULT_INTERCALARY_FORMAT = '{intercalary}, {yearDisplay}';
+
+const DEFAULT_DATE_FORMATS: Record<string, CalendarDateFormat> = {
+  default: {
+    date: '{weekday}, {dayOrdinal} {month}, {yearDisplay}',
+    intercalary: DEFAULT_INTERCALARY_FORMAT,
+  },
+  widgetShort: {
+    date: '{weekday}, {dayOrdinal} {month}, {yearDisplay}',
+    intercalary: DEFAULT_INTERCALARY_FORMAT,
+  },
+  widgetLong: {
+    date: '{weekday}, {dayOrdinal} {month}, {yearDisplay}, {time}',
+    intercalary: '{intercalary}, {yearDisplay}, {time}',
+  },
+  chatTimestamp: {
+    date: '{dayOrdinal} {month}, {yearFull} {time}',
+    intercalary: '{intercalary}, {yearFull} {time}',
+  },
+  noteTitle: {
+    date: '{day} {month}, {yearFull}',
+    intercalary: '{intercalary}, {yearFull}',
+  },
+};
+
+type TokenResolver = (context: FormatContext) => string;
+
+interface FormatContext {
+  date: ICalendarDate;
+  calendar: SeasonsStarsCalendar;
+  getEngine: () => CalendarEngine;
+}
+
+const TOKENS: Record<string, TokenResolver> = {
+  weekday: ({ date, calendar }) => calendar.weekdays[date.weekday]?.name || '',
+  weekdayAbbr: ({ date, calendar }) => {
+    const weekday = calendar.weekdays[date.weekday];
+    return weekday?.abbreviation || weekday?.name || '';
+  },
+  month: ({ date, calendar }) => calendar.months[date.month - 1]?.name || '',
+  monthAbbr: ({ date, calendar }) => {
+    const month = calendar.months[date.month - 1];
+    return month?.abbreviation || month?.name || '';
+  },
+  monthNumber: ({ date }) => date.month.toString(),
+  monthPadded: ({ date }) => CalendarTimeUtils.formatTimeComponent(date.month),
+  day: ({ date }) => date.day.toString(),
+  dayPadded: ({ date }) => CalendarTimeUtils.formatTimeComponent(date.day),
+  dayOrdinal: ({ date }) => CalendarTimeUtils.addOrdinalSuffix(date.day),
+  year: ({ date }) => date.year.toString(),
+  yearPrefix: ({ calendar }) => calendar.year.prefix || '',
+  yearSuffix: ({ calendar }) => calendar.year.suffix || '',
+  yearFull: ({ date, calendar }) => DateFormatter.getYearString(calendar, date.year),
+  era: ({ date, calendar }) => CalendarEras.getEraYear(calendar, date.year)?.era.name || '',
+  eraAbbr: ({ date, calendar }) => {
+    const era = CalendarEras.getEraYear(calendar, date.year)?.era;
+    return era?.abbreviation || era?.name || '';
+  },
+  eraYear: ({ date, calendar }) =>
+    (CalendarEras.getEraYear(calendar, date.year)?.eraYear ?? date.year).toString(),
+  yearName: ({ date, calendar }) => NamedYears.getYearName(calendar, date.year) || '',
+  yearDisplay: ({ date, calendar }) =>
+    NamedYears.formatYear(calendar, date.year, DateFormatter.getYearString(calendar, date.year)),
+  season: ({ date, calendar, getEngine }) =>
+    DateFormatter.getSeasonName(calendar, date, getEngine()),
+  moon: ({ date, calendar, getEngine }) => {
+    if (!calendar.moons?.length) return '';
+    return getEngine().getMoonPhases(date)[0]?.phase || '';
+  },
+  moons: ({ date, calendar, getEngine }) => {
+    if (!calendar.moons?.length) return '';
+    return getEngine()
+      .getMoonPhases(date)
+      .map(info => `${info.moon}: ${info.phase}`)
+      .join(', ');
+  },
+  hour: ({ date }) => (date.time ? CalendarTimeUtils.formatTimeComponent(date.time.hour) : ''),
+  minute: ({ date }) => (date.time ? CalendarTimeUtils.formatTimeComponent(date.time.minute) : ''),
+  second: ({ date }) => (date.time ? CalendarTimeUtils.formatTimeComponent(date.time.second) : ''),
+  time: ({ date }) => {
+    if (!date.time) return '';
+    const { hour, minute, second } = date.time;
+    return [hour, minute, second].map(v => CalendarTimeUtils.formatTimeComponent(v)).join(':');
+  },
+  intercalary: ({ date }) => date.intercalary || '',
+};
+
+export class DateFormatter {
+  /**
+   * Names of all supported format tokens
+   */
+  static getTokens(): string[] {
+    return Object.keys(TOKENS);
+  }
+
+  /**
+   * Format a date with a token format string
+   *
+   * Unknown tokens are left untouched. Separators left dangling by empty tokens
+   * (e.g. `{time}` on a date without time) are removed.
+   */
+  static format(
+    date: ICalendarDate,
+    calendar: SeasonsStarsCalendar,
+    template: string,
+    engine?: CalendarEngine
+  ): string {
+    let cachedEngine = engine;
+    const context: FormatContext = {
+      date,
+      calendar,
+      getEngine: () => (cachedEngine ??= new CalendarEngine(calendar)),
+    };
+
+    const result = template.replace(/\{(\w+)\}/g, (match, token: string) => {
+      const resolver = TOKENS[token];
+      return resolver ? resolver(context) : match;
+    });
+
+    return result
+      .replace(/,(\s*,)+/g, ',')
+      .replace(/^[\s,]+|[\s,]+$/g, '')
+      .replace(/\s{2,}/g, ' ');
+  }
+
+  /**
+   * Get the format string for a named format, preferring the calendar's own definition
+   */
+  static getNamedFormat(
+    calendar: SeasonsStarsCalendar,
+    name: string,
+    intercalary: boolean = false
+  ): string {
+    const configured = calendar.dateFormats?.[name];
+    const fallback = DEFAULT_DATE_FORMATS[name] || DEFAULT_DATE_FORMATS.default;
+    const definition: CalendarDateFormat =
+      typeof configured === 'string' ? { date: configured } : configured || fallback;
+
+    if (!intercalary) {
+      return definition.date;
+    }
+
+    return definition.intercalary || fallback.intercalary || DEFAULT_INTERCALARY_FORMAT;
+  }
+
+  /**
+   * Format a date with one of the calendar's named formats
+   */
+  static formatNamed(
+    date: ICalendarDate,
+    calendar: SeasonsStarsCalendar,
+    name: string,
+    engine?: CalendarEngine
+  ): string {
+    const template = this.getNamedFormat(calendar, name, !!date.intercalary);
+    return this.format(date, calendar, template, engine);
+  }
+
+  /**
+   * Get the year as displayed: numbered within its era when the calendar has eras,
+   * otherwise with the calendar's prefix and suffix
+   */
+  static getYearString(calendar: SeasonsStarsCalendar, year: number): string {
+    const eraYear = CalendarEras.formatYear(calendar, year);
+    if (eraYear !== null) return eraYear;
+
+    const { prefix = '', suffix = '' } = calendar.year;
+    return `${prefix}${year}${suffix}`.trim();
+  }
+
+  /**
+   * Get the name of the season containing a date in the active scene's hemisphere,
+   * or an empty string
+   */
+  static getSeasonName(
+    calendar: SeasonsStarsCalendar,
+    date: ICalendarDate,
+    engine: CalendarEngine = new CalendarEngine(calendar)
+  ): string {
+    if (!calendar.seasons?.length) return '';
+    return engine.getSeason(date, getSceneHemisphere())?.name || '';
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Free-text date parsing for Seasons & Stars
+ *
+ * Recognises month, weekday and intercalary names (and abbreviations) from the calendar,
+ * ordinal or plain day numbers, years with the calendar's prefix/suffix or an era name,
+ * and ISO-style `year-month-day` input. Every plausible reading is returned with a confidence score.
+ */
+
+import type {
+  CalendarDate as ICalendarDate,
+  DateParseCandidate,
+  DateParseOptions,
+  SeasonsStarsCalendar,
+} from '../types/calendar';
+import { CalendarEngine } from './calendar-engine';
+import { CalendarEras } from './calendar-eras';
+
+const FILLER_WORDS = new Set(['of', 'the', 'on', 'in', 'day', 'year']);
+const NUMBER_PATTERN = /^(-?\d+)(st|nd|rd|th)?$/;
+const ISO_PATTERN = /^\s*(-?\d+)-(\d{1,2})-(\d{1,2})\s*$/;
+
+interface PhraseMatch {
+  index: number;
+  weight: number;
+  positions: number[];
+}
+
+interface ParsedNumber {
+  value: number;
+  ordinal: boolean;
+}
+
+export class DateParser {
+  /**
+   * Parse free text into candidate dates, best match first
+   */
+  static parse(
+    text: string,
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine = new CalendarEngine(calendar),
+    options: DateParseOptions = {}
+  ): DateParseCandidate[] {
+    const defaultYear = options.defaultYear ?? calendar.year.currentYear;
+
+    const isoMatch = text.match(ISO_PATTERN);
+    if (isoMatch) {
+      const [year, month, day] = isoMatch.slice(1, 4).map(Number);
+      const date = this.buildDate(engine, year, month, day);
+      return date ? [{ date, confidence: 0.9 }] : [];
+    }
+
+    const tokens = this.normalize(text).split(' ').filter(Boolean);
+    if (tokens.length === 0) return [];
+
+    const consumed = new Set<number>();
+    const consume = (matches: PhraseMatch[]) =>
+      matches.forEach(match => match.positions.forEach(position => consumed.add(position)));
+
+    // Names are matched longest-first so multi-word intercalary names win over month names
+    const intercalaryMatches = this.matchNames(
+      tokens,
+      consumed,
+      calendar.intercalary.map(i => [i.name])
+    );
+    consume(intercalaryMatches);
+
+    const monthMatches = this.matchNames(
+      tokens,
+      consumed,
+      calendar.months.map(m => [m.name, m.abbreviation])
+    );
+    const monthOptions = monthMatches.length
+      ? monthMatches
+      : this.matchMonthPrefixes(tokens, consumed, calendar);
+    consume(monthOptions);
+
+    const weekdayMatches = this.matchNames(
+      tokens,
+      consumed,
+      calendar.weekdays.map(w => [w.name, w.abbreviation])
+    );
+    consume(weekdayMatches);
+
+    const affixMatches = this.matchNames(tokens, consumed, [
+      [calendar.year.prefix],
+      [calendar.year.suffix],
+    ]);
+    consume(affixMatches);
+
+    // Years written in an era ("44 BC", "Third Age 3019") are numbered within that era
+    const eras = CalendarEras.getEras(calendar);
+    const eraMatches = this.matchNames(
+      tokens,
+      consumed,
+      eras.map(era => [era.name, era.abbreviation])
+    );
+    consume(eraMatches);
+    const era = eraMatches.length > 0 ? eras[eraMatches[0].index] : undefined;
+    const toYear = (value: number) =>
+      era ? CalendarEras.toCalendarYear(calendar, era, value) : value;
+
+    const numbers: ParsedNumber[] = [];
+    let unknownWords = 0;
+    tokens.forEach((token, position) => {
+      if (consumed.has(position)) return;
+
+      const numberMatch = token.match(NUMBER_PATTERN);
+      if (numberMatch) {
+        numbers.push({ value: parseInt(numberMatch[1], 10), ordinal: !!numberMatch[2] });
+      } else if (!FILLER_WORDS.has(token)) {
+        unknownWords++;
+      }
+    });
+
+    const basePenalty = Math.min(unknownWords * 0.1, 0.3);
+    const candidates: DateParseCandidate[] = [];
+
+    if (intercalaryMatches.length > 0) {
+      candidates.push(
+        ...this.intercalaryCandidates(
+          calendar,
+          engine,
+          intercalaryMatches[0],
+          numbers,
+          defaultYear,
+          toYear
+        )
+      );
+    } else {
+      for (const monthMatch of monthOptions) {
+        const monthCandidates = this.monthCandidates(
+          engine,
+          monthMatch.index + 1,
+          numbers,
+          defaultYear,
+          toYear
+        );
+        monthCandidates.forEach(candidate => {
+          candidate.confidence -= 1 - monthMatch.weight;
+        });
+        candidates.push(...monthCandidates);
+      }
+    }
+
+    // A named weekday that disagrees with the date makes the reading much less likely
+    const weekday = weekdayMatches[0]?.index;
+    candidates.forEach(candidate => {
+      candidate.confidence -= basePenalty;
+      if (weekday !== undefined && !candidate.date.intercalary) {
+        if (candidate.date.weekday !== weekday) candidate.confidence -= 0.3;
+      }
+    });
+
+    return this.rank(candidates);
+  }
+
+  /**
+   * Build candidates for a named intercalary period
+   */
+  private static intercalaryCandidates(
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine,
+    match: PhraseMatch,
+    numbers: ParsedNumber[],
+    defaultYear: number,
+    toYear: (value: number) => number
+  ): DateParseCandidate[] {
+    const intercalary = calendar.intercalary[match.index];
+    const monthIndex = calendar.months.findIndex(m => m.name === intercalary.after);
+    if (monthIndex < 0) return [];
+
+    const periodDays = intercalary.days || 1;
+    const dayNumber = numbers.find(n => n.ordinal && n.value <= periodDays);
+    const yearNumber = numbers.find(n => n !== dayNumber);
+
+    const year = yearNumber ? toYear(yearNumber.value) : defaultYear;
+    const day = dayNumber?.value ?? 1;
+
+    // Leap-year-only periods don't exist in other years
+    const occurs = engine
+      .getIntercalaryDaysAfterMonth(year, monthIndex + 1)
+      .some(i => i.name === intercalary.name);
+    if (!occurs) return [];
+
+    let confidence = yearNumber ? 1 : 0.8;
+    if (numbers.length > (dayNumber ? 2 : 1)) confidence -= 0.2;
+
+    return [
+      {
+        date: {
+          year,
+          month: monthIndex + 1,
+          day,
+          weekday: engine.calculateWeekday(year, monthIndex + 1, day, intercalary.name),
+          intercalary: intercalary.name,
+        },
+        confidence,
+      },
+    ];
+  }
+
+  /**
+   * Build candidates for a named month by assigning the numbers to day and year
+   */
+  private static monthCandidates(
+    engine: CalendarEngine,
+    month: number,
+    numbers: ParsedNumber[],
+    defaultYear: number,
+    toYear: (value: number) => number
+  ): DateParseCandidate[] {
+    const candidates: DateParseCandidate[] = [];
+    const add = (year: number, day: number, confidence: number) => {
+      const date = this.buildDate(engine, year, month, day);
+      if (date) candidates.push({ date, confidence });
+    };
+
+    if (numbers.length === 0) {
+      add(defaultYear, 1, 0.5);
+      return candidates;
+    }
+
+    if (numbers.length === 1) {
+      const [value] = numbers;
+      add(defaultYear, value.value, 0.8);
+      if (!value.ordinal) add(toYear(value.value), 1, 0.7);
+      return candidates;
+    }
+
+    const [first, second] = numbers;
+    const extraPenalty = (numbers.length - 2) * 0.2;
+
+    // Day usually comes first, unless the second number is explicitly ordinal
+    const dayFirstPreferred = first.ordinal || !second.ordinal;
+    if (!second.ordinal)
+      add(toYear(second.value), first.value, (dayFirstPreferred ? 1 : 0.85) - extraPenalty);
+    if (!first.ordinal)
+      add(toYear(first.value), second.value, (dayFirstPreferred ? 0.85 : 1) - extraPenalty);
+
+    return candidates;
+  }
+
+  /**
+   * Create a date if the day fits in the month
+   */
+  private static buildDate(
+    engine: CalendarEngine,
+    year: number,
+    month: number,
+    day: number
+  ): ICalendarDate | null {
+    const months = engine.getCalendar().months;
+    if (month < 1 || month > months.length) return null;
+    if (day < 1 || day > engine.getMonthLength(month, year)) return null;
+
+    return { year, month, day, weekday: engine.calculateWeekday(year, month, day) };
+  }
+
+  /**
+   * Find unconsumed token runs matching any of the given names
+   *
+   * `nameSets[i]` holds the names for item `i`; the first name is the full name and
+   * later names (abbreviations) match with slightly lower weight.
+   */
+  private static matchNames(
+    tokens: string[],
+    consumed: Set<number>,
+    nameSets: Array<Array<string | undefined>>
+  ): PhraseMatch[] {
+    const phrases = nameSets
+      .flatMap((names, index) =>
+        names.map((name, nameIndex) => ({
+          index,
+          weight: nameIndex === 0 ? 1 : 0.95,
+          words: this.normalize(name || '')
+            .split(' ')
+            .filter(Boolean),
+        }))
+      )
+      // Names that read as numbers (e.g. weekdays called "1st") would swallow day numbers
+      .filter(phrase => phrase.words.length > 0 && !NUMBER_PATTERN.test(phrase.words.join('')))
+      .sort((a, b) => b.words.length - a.words.length || b.weight - a.weight);
+
+    const matches: PhraseMatch[] = [];
+    const used = new Set(consumed);
+    const matchedPhrases = new Map<string, number[]>();
+
+    for (const phrase of phrases) {
+      // Shared names or abbreviations (e.g. two months abbreviated "Ele") match the same words
+      const phraseKey = phrase.words.join(' ');
+      const sharedPositions = matchedPhrases.get(phraseKey);
+      if (sharedPositions) {
+        matches.push({ index: phrase.index, weight: phrase.weight, positions: sharedPositions });
+        continue;
+      }
+
+      for (let start = 0; start + phrase.words.length <= tokens.length; start++) {
+        const positions = phrase.words.map((_, offset) => start + offset);
+        const isMatch = positions.every(
+          (position, offset) => !used.has(position) && tokens[position] === phrase.words[offset]
+        );
+
+        if (isMatch) {
+          positions.forEach(position => used.add(position));
+          matchedPhrases.set(phraseKey, positions);
+          matches.push({ index: phrase.index, weight: phrase.weight, positions });
+          break;
+        }
+      }
+    }
+
+    // Keep the strongest reading for each item
+    const best = new Map<number, PhraseMatch>();
+    for (const match of matches) {
+      const existing = best.get(match.index);
+      if (!existing || match.weight > existing.weight) best.set(match.index, match);
+    }
+
+    const results = Array.from(best.values());
+    const topWeight = Math.max(...results.map(match => match.weight));
+    return results.filter(match => match.weight === topWeight);
+  }
+
+  /**
+   * Match partially typed month names (at least three letters)
+   */
+  private static matchMonthPrefixes(
+    tokens: string[],
+    consumed: Set<number>,
+    calendar: SeasonsStarsCalendar
+  ): PhraseMatch[] {
+    const matches: PhraseMatch[] = [];
+
+    tokens.forEach((token, position) => {
+      if (consumed.has(position) || token.length < 3 || !/^[a-z]/.test(token)) return;
+
+      calendar.months.forEach((month, index) => {
+        if (this.normalize(month.name).startsWith(token)) {
+          matches.push({ index, weight: 0.8, positions: [position] });
+        }
+      });
+    });
+
+    return matches;
+  }
+
+  /**
+   * Sort, merge duplicates and round the confidence of candidates
+   */
+  private static rank(candidates: DateParseCandidate[]): DateParseCandidate[] {
+    const unique = new Map<string, DateParseCandidate>();
+
+    for (const candidate of candidates) {
+      const { year, month, day, intercalary } = candidate.date;
+      const key = `${year}-${month}-${day}-${intercalary || ''}`;
+      const existing = unique.get(key);
+      if (!existing || candidate.confidence > existing.confidence) unique.set(key, candidate);
+    }
+
+    return Array.from(unique.values())
+      .map(candidate => ({
+        ...candidate,
+        confidence: Math.round(Math.min(Math.max(candidate.confidence, 0), 1) * 100) / 100,
+      }))
+      .filter(candidate => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Lower-case, strip accents and apostrophes, and turn punctuation into spaces
+   */
+  private static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/['’]/g, '')
+      .replace(/[^a-z0-9-]+/g, ' ')
+      .trim();
+  }
+}
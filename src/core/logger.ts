@@ -1,6 +1,8 @@
 /**
  * Centralized logging system for Seasons & Stars module
  * Provides debug mode toggle and user-friendly error notifications
+ *
+ * Outside Foundry (Node, tests) only the console is used.
  */
 export class Logger {
   private static readonly MODULE_ID = 'seasons-and-stars';
@@ -27,7 +29,7 @@ export class Logger {
   static warn(message: string, data?: any): void {
     console.warn(`[S&S WARNING] ${message}`, data || '');
     if (this.shouldShowUserNotifications()) {
-      ui.notifications?.warn(`Seasons & Stars: ${message}`);
+      this.getNotifications()?.warn(`Seasons & Stars: ${message}`);
     }
   }
 
@@ -37,7 +39,7 @@ export class Logger {
   static error(message: string, error?: Error): void {
     console.error(`[S&S ERROR] ${message}`, error || '');
     if (this.shouldShowUserNotifications()) {
-      ui.notifications?.error(`Seasons & Stars: ${message}`);
+      this.getNotifications()?.error(`Seasons & Stars: ${message}`);
     }
   }
 
@@ -47,13 +49,22 @@ export class Logger {
   static critical(message: string, error?: Error): void {
     console.error(`[S&S CRITICAL] ${message}`, error || '');
     // Always show critical errors regardless of settings
-    ui.notifications?.error(`Seasons & Stars: ${message}`);
+    this.getNotifications()?.error(`Seasons & Stars: ${message}`);
+  }
+
+  /**
+   * Get Foundry's notification area, if running inside Foundry
+   */
+  private static getNotifications() {
+    return typeof ui !== 'undefined' ? ui.notifications : undefined;
   }
 
   /**
    * Check if debug mode is enabled
    */
   private static isDebugEnabled(): boolean {
+    if (typeof game === 'undefined') return false;
+
     try {
       return game.settings?.get(this.MODULE_ID, 'debugMode') === true;
     } catch {
@@ -0,0 +1,63 @@
+/**
+ * Named year support for Seasons & Stars calendars
+ *
+ * Calendars declare named years in `extensions['seasons-and-stars'].namedYears`:
+ * - `repeat`: names cycle endlessly, starting with the first name at `startYear`
+ * - `list`: names apply once, starting at `startYear`; later years are unnamed
+ * - `explicit`: only the `years` map is used
+ *
+ * In every mode, entries in `years` override the generated name for that year.
+ */
+
+import type { SeasonsStarsCalendar, CalendarNamedYears } from '../types/calendar';
+
+const DEFAULT_NAMED_YEAR_FORMAT = '{year} ({name})';
+
+export class NamedYears {
+  /**
+   * Get the named year configuration for a calendar, if any
+   */
+  static getConfig(calendar: SeasonsStarsCalendar): CalendarNamedYears | null {
+    return calendar.extensions?.['seasons-and-stars']?.namedYears || null;
+  }
+
+  /**
+   * Get the name of a year, or null if the year has no name
+   */
+  static getYearName(calendar: SeasonsStarsCalendar, year: number): string | null {
+    const config = this.getConfig(calendar);
+    if (!config) return null;
+
+    const explicitName = config.years?.[year.toString()];
+    if (explicitName) return explicitName;
+
+    const names = config.names || [];
+    if (names.length === 0) return null;
+
+    const offset = year - (config.startYear ?? calendar.year.epoch);
+
+    switch (config.rule) {
+      case 'repeat': {
+        const index = ((offset % names.length) + names.length) % names.length;
+        return names[index];
+      }
+
+      case 'list':
+        return offset >= 0 && offset < names.length ? names[offset] : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Combine a formatted year string with the year's name (if it has one)
+   */
+  static formatYear(calendar: SeasonsStarsCalendar, year: number, yearString: string): string {
+    const name = this.getYearName(calendar, year);
+    if (!name) return yearString;
+
+    const format = this.getConfig(calendar)?.format || DEFAULT_NAMED_YEAR_FORMAT;
+    return format.replace('{year}', yearString).replace('{name}', name).trim();
+  }
+}
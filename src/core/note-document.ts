@@ -4,6 +4,7 @@
 
 import type { CalendarDate as ICalendarDate } from '../types/calendar';
 import { CalendarDate } from './calendar-date';
+import { CalendarTimeUtils } from './calendar-time-utils';
 
 /**
  * Wrapper class for calendar notes with enhanced functionality
@@ -192,7 +193,7 @@ export class CalendarNote {
   async updateDates(startDate: ICalendarDate, endDate?: ICalendarDate): Promise<void> {
     const updateData = {
       'flags.seasons-and-stars.startDate': startDate,
-      'flags.seasons-and-stars.dateKey': this.formatDateKey(startDate),
+      'flags.seasons-and-stars.dateKey': CalendarTimeUtils.formatDateKey(startDate),
       'flags.seasons-and-stars.modified': Date.now(),
     };
 
@@ -317,7 +318,7 @@ export class CalendarNote {
     const flags = cloneData.flags['seasons-and-stars'];
     if (modifications.startDate) {
       flags.startDate = modifications.startDate;
-      flags.dateKey = this.formatDateKey(modifications.startDate);
+      flags.dateKey = CalendarTimeUtils.formatDateKey(modifications.startDate);
     }
     if (modifications.endDate !== undefined) {
       flags.endDate = modifications.endDate;
@@ -418,16 +419,6 @@ export class CalendarNote {
     await this.journal.setFlag('seasons-and-stars', 'modified', Date.now());
   }
 
-  /**
-   * Format a date as a key for storage
-   */
-  private formatDateKey(date: ICalendarDate): string {
-    const year = date.year.toString().padStart(4, '0');
-    const month = date.month.toString().padStart(2, '0');
-    const day = date.day.toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  }
-
   /**
    * Create a CalendarNote wrapper from a JournalEntry
    */
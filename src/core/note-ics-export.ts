@@ -0,0 +1,459 @@
+/**
+ * iCalendar (.ics) export of calendar notes
+ *
+ * Real calendar apps only know the Gregorian calendar, so each game day is mapped onto one
+ * real day through a date proxy: a game date and the real date it stands in for. The game
+ * date itself is kept in the description and in `X-SEASONS-STARS-DATE`.
+ */
+
+import type { CalendarDate as ICalendarDate, SeasonsStarsCalendar } from '../types/calendar';
+import type { CalendarEngine } from './calendar-engine';
+import { CalendarTimeUtils } from './calendar-time-utils';
+import { DateFormatter } from './date-formatter';
+import { NoteRecurrence, type RecurrenceRule, type RecurringPattern } from './note-recurring';
+
+export interface IcsDateProxy {
+  gameDate: ICalendarDate; // This game date...
+  realDate: string; // ...is exported on this real date (YYYY-MM-DD)
+}
+
+export interface IcsExportOptions {
+  proxy: IcsDateProxy;
+  calendarName?: string; // X-WR-CALNAME; defaults to the calendar's label
+  rangeStart?: ICalendarDate; // Window for recurring notes that can't be written as an RRULE
+  rangeEnd?: ICalendarDate;
+}
+
+interface ExportContext {
+  calendar: SeasonsStarsCalendar;
+  engine: CalendarEngine;
+  options: IcsExportOptions;
+  anchorDay: number; // Real date of the proxy, in days since 1970-01-01
+  secondsPerDay: number;
+  gregorianAligned: boolean;
+  overrides: Map<string, ICalendarDate[]>; // Parent ID -> dates replaced by edited occurrences
+}
+
+const GREGORIAN_MONTH_DAYS = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_IN_MS = 86400000;
+const REAL_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+
+/**
+ * Convert calendar notes into an iCalendar file
+ */
+export class NoteIcsExport {
+  /**
+   * Build an .ics file from notes
+   *
+   * Recurring parents become RRULEs when the rule means the same thing on real dates; other
+   * recurring notes are written as one event per occurrence between rangeStart and rangeEnd.
+   */
+  static exportNotes(
+    notes: JournalEntry[],
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine,
+    options: IcsExportOptions
+  ): string {
+    const context: ExportContext = {
+      calendar,
+      engine,
+      options,
+      anchorDay: this.parseRealDate(options.proxy.realDate),
+      secondsPerDay: CalendarTimeUtils.getSecondsPerDay(calendar),
+      gregorianAligned: this.isGregorianAligned(calendar, options.proxy),
+      overrides: new Map(),
+    };
+
+    for (const note of notes) {
+      const flags = note.flags?.['seasons-and-stars'];
+      if (flags?.recurringParentId && flags.occurrenceDate) {
+        const dates = context.overrides.get(flags.recurringParentId) || [];
+        dates.push(flags.occurrenceDate);
+        context.overrides.set(flags.recurringParentId, dates);
+      }
+    }
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Seasons & Stars//Calendar Notes//EN',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${this.escapeText(options.calendarName || calendar.translations?.en?.label || calendar.id)}`,
+      `X-SEASONS-STARS-CALENDAR:${this.escapeText(calendar.id)}`,
+    ];
+
+    for (const note of notes) {
+      if (!note.flags?.['seasons-and-stars']?.startDate) continue;
+      lines.push(...this.exportNote(note, context));
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Write the events for one note
+   */
+  private static exportNote(note: JournalEntry, context: ExportContext): string[] {
+    const flags = note.flags['seasons-and-stars'];
+    const startDate: ICalendarDate = flags.startDate;
+    const pattern: RecurringPattern | undefined = flags.isRecurringParent
+      ? flags.recurring
+      : undefined;
+
+    if (!pattern) {
+      return this.buildEvent(
+        note,
+        `${note.id}@seasons-and-stars`,
+        startDate,
+        flags.endDate,
+        [],
+        context
+      );
+    }
+
+    const exceptions = [...(pattern.exceptions || []), ...(context.overrides.get(note.id) || [])];
+    const rrule = this.toIcsRule(
+      NoteRecurrence.toRule(pattern, context.calendar),
+      startDate,
+      context
+    );
+    if (rrule) {
+      const extra = [`RRULE:${rrule}`];
+      if (exceptions.length > 0) {
+        const allDay = this.isAllDay(flags, startDate);
+        const type = allDay ? ';VALUE=DATE' : '';
+        const values = exceptions.map(date =>
+          this.formatDateValue({ ...date, time: startDate.time }, allDay, context)
+        );
+        extra.push(`EXDATE${type}:${values.join(',')}`);
+      }
+      return this.buildEvent(
+        note,
+        `${note.id}@seasons-and-stars`,
+        startDate,
+        flags.endDate,
+        extra,
+        context
+      );
+    }
+
+    // Spell the occurrences out, moving any end date along with each one
+    const rangeStart = context.options.rangeStart || startDate;
+    const rangeEnd = context.options.rangeEnd || {
+      ...context.options.proxy.gameDate,
+      year: context.options.proxy.gameDate.year + 1,
+    };
+    const length = flags.endDate
+      ? this.getDaysBetween(startDate, flags.endDate, context.engine, context.secondsPerDay)
+      : 0;
+
+    return NoteRecurrence.getOccurrenceDates(
+      startDate,
+      pattern,
+      rangeStart,
+      rangeEnd,
+      context.engine
+    )
+      .filter(date => !this.containsDate(context.overrides.get(note.id) || [], date))
+      .flatMap(date => {
+        const occurrence = { ...date, time: startDate.time };
+        const endDate = flags.endDate && {
+          ...context.engine.addDays(occurrence, length),
+          time: flags.endDate.time,
+        };
+        return this.buildEvent(
+          note,
+          `${note.id}-${this.formatDateValue(occurrence, true, context)}@seasons-and-stars`,
+          occurrence,
+          endDate,
+          [],
+          context
+        );
+      });
+  }
+
+  /**
+   * Write a VEVENT
+   */
+  private static buildEvent(
+    note: JournalEntry,
+    uid: string,
+    startDate: ICalendarDate,
+    endDate: ICalendarDate | undefined,
+    extra: string[],
+    context: ExportContext
+  ): string[] {
+    const flags = note.flags['seasons-and-stars'];
+    const allDay = this.isAllDay(flags, startDate);
+    const gameDate = this.formatGameDate(startDate, allDay, context);
+    const content = this.toPlainText(note.pages?.values().next().value?.text?.content || '');
+    const categories = [flags.category, ...(flags.tags || [])].filter(
+      (value, index, list): value is string => !!value && list.indexOf(value) === index
+    );
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${new Date(flags.modified || Date.now()).toISOString().replace(/[-:]|\.\d+/g, '')}`,
+      `SUMMARY:${this.escapeText(note.name || '')}`,
+    ];
+
+    if (allDay) {
+      // All-day events end on the day after their last day
+      const lastDay = this.toRealDay(endDate || startDate, context);
+      lines.push(`DTSTART;VALUE=DATE:${this.formatDateValue(startDate, true, context)}`);
+      lines.push(`DTEND;VALUE=DATE:${this.formatRealDay(lastDay + 1)}`);
+    } else {
+      lines.push(`DTSTART:${this.formatDateValue(startDate, false, context)}`);
+      if (endDate) lines.push(`DTEND:${this.formatDateValue(endDate, false, context)}`);
+    }
+
+    lines.push(`DESCRIPTION:${this.escapeText(content ? `${gameDate}\n\n${content}` : gameDate)}`);
+    lines.push(`X-SEASONS-STARS-DATE:${this.escapeText(gameDate)}`);
+    if (categories.length > 0) {
+      lines.push(`CATEGORIES:${categories.map(value => this.escapeText(value)).join(',')}`);
+    }
+    lines.push(...extra, 'END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * Translate a recurrence rule into an RFC 5545 RRULE, or null when real dates
+   * can't express it
+   */
+  private static toIcsRule(
+    rule: RecurrenceRule,
+    startDate: ICalendarDate,
+    context: ExportContext
+  ): string | null {
+    const { calendar, engine, gregorianAligned } = context;
+    const weekLength = calendar.weekdays.length;
+    // Real weeks never pause, so game weeks only line up when every day advances the weekday
+    const continuousWeeks =
+      (calendar.week?.resetMode || 'continuous') === 'continuous' &&
+      (calendar.intercalary || []).every(intercalary => intercalary.countsForWeekdays ?? true);
+    const usesMonths = !!(rule.byMonth?.length || rule.byMonthDay?.length);
+    const parts: string[] = [];
+
+    if (rule.byIntercalary?.length || startDate.intercalary) return null;
+
+    if (gregorianAligned) {
+      parts.push(`FREQ=${rule.frequency.toUpperCase()}`);
+    } else if (rule.frequency === 'daily' && !usesMonths && !rule.byDay?.length) {
+      parts.push('FREQ=DAILY');
+    } else if (rule.frequency === 'weekly' && !usesMonths && continuousWeeks) {
+      if (weekLength === 7) {
+        parts.push('FREQ=WEEKLY');
+      } else if (!rule.byDay?.length) {
+        // A game week of another length repeats every N real days
+        parts.push('FREQ=DAILY', `INTERVAL=${rule.interval * weekLength}`);
+      } else {
+        return null;
+      }
+    } else {
+      return null;
+    }
+
+    if (rule.interval > 1 && !parts.some(part => part.startsWith('INTERVAL='))) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+
+    if (rule.byDay?.length) {
+      if (!gregorianAligned && rule.byDay.some(day => day.ordinal)) return null;
+
+      // Shift game weekdays onto the real weekdays the start date falls on
+      const gameWeekday = engine.calculateWeekday(startDate.year, startDate.month, startDate.day);
+      const realWeekday = new Date(this.toRealDay(startDate, context) * DAY_IN_MS).getUTCDay();
+      const shift = realWeekday - gameWeekday + 7;
+      const days = rule.byDay.map(
+        day => `${day.ordinal ?? ''}${ICS_WEEKDAYS[(day.weekday + shift) % 7]}`
+      );
+      parts.push(`BYDAY=${days.join(',')}`);
+    }
+
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) {
+      const realDay = this.formatRealDay(this.toRealDay(rule.until, context));
+      parts.push(`UNTIL=${startDate.time ? `${realDay}T235959` : realDay}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Whether game dates land on the same month and day of the real year, so month-based
+   * rules keep their meaning
+   */
+  private static isGregorianAligned(calendar: SeasonsStarsCalendar, proxy: IcsDateProxy): boolean {
+    const match = proxy.realDate.match(REAL_DATE_PATTERN);
+    if (!match) return false;
+    const [, year, month, day] = match.map(Number);
+
+    return (
+      calendar.leapYear?.rule === 'gregorian' &&
+      calendar.leapYear.month === calendar.months[1]?.name &&
+      (calendar.leapYear.extraDays ?? 1) === 1 &&
+      calendar.months.length === 12 &&
+      calendar.months.every((entry, index) => entry.days === GREGORIAN_MONTH_DAYS[index]) &&
+      !calendar.intercalary?.length &&
+      !calendar.revisions?.length &&
+      calendar.weekdays.length === 7 &&
+      (calendar.week?.resetMode || 'continuous') === 'continuous' &&
+      proxy.gameDate.month === month &&
+      proxy.gameDate.day === day &&
+      !proxy.gameDate.intercalary &&
+      (year - proxy.gameDate.year) % 400 === 0
+    );
+  }
+
+  private static isAllDay(flags: any, startDate: ICalendarDate): boolean {
+    return flags.allDay !== false || !startDate.time;
+  }
+
+  /**
+   * Format a date as an iCalendar DATE (YYYYMMDD) or floating DATE-TIME; game time is
+   * scaled onto the real day when the calendar's days are a different length
+   */
+  private static formatDateValue(
+    date: ICalendarDate,
+    allDay: boolean,
+    context: ExportContext
+  ): string {
+    const day = this.formatRealDay(this.toRealDay(date, context));
+    if (allDay) return day;
+
+    const { hour = 0, minute = 0, second = 0 } = date.time || {};
+    const { minutesInHour, secondsInMinute } = context.calendar.time;
+    const gameSeconds = (hour * minutesInHour + minute) * secondsInMinute + second;
+    const realSeconds = Math.min(86399, Math.round((gameSeconds / context.secondsPerDay) * 86400));
+    const time = new Date(realSeconds * 1000).toISOString().slice(11, 19).replace(/:/g, '');
+    return `${day}T${time}`;
+  }
+
+  /**
+   * The game date in words, with the time for timed events
+   */
+  private static formatGameDate(
+    date: ICalendarDate,
+    allDay: boolean,
+    context: ExportContext
+  ): string {
+    // The named format may show the time itself, so it is left out and added once below
+    const text = DateFormatter.formatNamed(
+      { ...date, time: undefined },
+      context.calendar,
+      'widgetLong',
+      context.engine
+    );
+    if (allDay || !date.time) return text;
+
+    const time = [date.time.hour, date.time.minute].map(value => String(value).padStart(2, '0'));
+    return `${text} ${time.join(':')}`;
+  }
+
+  private static toRealDay(date: ICalendarDate, context: ExportContext): number {
+    return (
+      context.anchorDay +
+      this.getDaysBetween(
+        context.options.proxy.gameDate,
+        date,
+        context.engine,
+        context.secondsPerDay
+      )
+    );
+  }
+
+  private static formatRealDay(day: number): string {
+    return new Date(day * DAY_IN_MS).toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
+  /**
+   * Read a YYYY-MM-DD date as days since 1970-01-01
+   */
+  private static parseRealDate(text: string): number {
+    const match = text.match(REAL_DATE_PATTERN);
+    if (!match) {
+      throw new Error(`Real-world date must be written as YYYY-MM-DD: ${text}`);
+    }
+
+    const [, year, month, day] = match.map(Number);
+    return Date.UTC(year, month - 1, day) / DAY_IN_MS;
+  }
+
+  private static getDaysBetween(
+    from: ICalendarDate,
+    to: ICalendarDate,
+    engine: CalendarEngine,
+    secondsPerDay: number
+  ): number {
+    const fromTime = engine.dateToWorldTime({ ...from, time: undefined });
+    const toTime = engine.dateToWorldTime({ ...to, time: undefined });
+    return Math.round((toTime - fromTime) / secondsPerDay);
+  }
+
+  private static containsDate(dates: ICalendarDate[], date: ICalendarDate): boolean {
+    return dates.some(
+      entry =>
+        entry.year === date.year &&
+        entry.month === date.month &&
+        entry.day === date.day &&
+        (entry.intercalary || '') === (date.intercalary || '')
+    );
+  }
+
+  /**
+   * Reduce note HTML to plain text
+   */
+  private static toPlainText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line into 75-octet pieces, as RFC 5545 requires
+   */
+  private static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const pieces: string[] = [];
+    let current = '';
+    let size = 0;
+
+    for (const char of line) {
+      const charSize = encoder.encode(char).length;
+      const limit = pieces.length === 0 ? 75 : 74; // Continuations start with a space
+      if (size + charSize > limit) {
+        pieces.push(current);
+        current = '';
+        size = 0;
+      }
+      current += char;
+      size += charSize;
+    }
+    pieces.push(current);
+
+    return pieces.join('\r\n ');
+  }
+}
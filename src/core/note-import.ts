@@ -0,0 +1,538 @@
+/**
+ * Import of calendar notes from Simple Calendar and iCalendar (.ics) files
+ *
+ * Reading a source turns each note into an `ImportCandidate` whose dates are already mapped
+ * onto the active calendar; `planImport` then matches categories and finds conflicts, so the
+ * whole import can be reviewed as a dry run before any journal is written.
+ */
+
+import type { CalendarDate as ICalendarDate, SeasonsStarsCalendar } from '../types/calendar';
+import type { CalendarEngine } from './calendar-engine';
+import type { NoteCategory } from './note-categories';
+import type { IcsDateProxy } from './note-ics-export';
+import type { RecurrenceFrequency, RecurringPattern } from './note-recurring';
+import type { CreateNoteData } from './notes-manager';
+import { CalendarTimeUtils } from './calendar-time-utils';
+import { DateParser } from './date-parser';
+
+export type NoteImportSource =
+  | { type: 'simple-calendar-journals' } // Simple Calendar notes in this world's journal
+  | { type: 'simple-calendar-json'; data: string | object } // A Simple Calendar JSON export
+  | { type: 'ics'; data: string; proxy?: IcsDateProxy }; // An iCalendar file
+
+export interface ImportCandidate {
+  source: string; // Where the note came from, for the report
+  title: string;
+  content: string; // HTML
+  startDate?: ICalendarDate; // Missing when the date couldn't be mapped
+  endDate?: ICalendarDate;
+  allDay: boolean;
+  categories: string[]; // Source category names; the first becomes the note's category
+  playerVisible: boolean;
+  recurring?: RecurringPattern;
+  problem?: string; // Why the date couldn't be mapped
+  warning?: string; // Something that was left out, such as an unsupported repeat rule
+}
+
+export interface NoteImportIssue {
+  source: string;
+  title: string;
+  reason: string;
+  date?: ICalendarDate;
+  noteId?: string; // The existing note an import conflicts with
+}
+
+export interface NoteImportReport {
+  dryRun: boolean;
+  notes: { source: string; data: CreateNoteData }[]; // Notes to create
+  conflicts: NoteImportIssue[]; // Skipped: a note with the same title is already on that date
+  unmapped: NoteImportIssue[]; // Skipped: no date on the active calendar
+  newCategories: NoteCategory[]; // Categories the import adds
+  warnings: string[];
+  created: string[]; // IDs of the journals written; empty for dry runs
+}
+
+interface SimpleCalendarDate {
+  year: number;
+  month: number; // 0-based
+  day: number; // 0-based
+  hour?: number;
+  minute?: number;
+  seconds?: number;
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const SIMPLE_CALENDAR_SCOPE = 'foundryvtt-simple-calendar';
+const SIMPLE_CALENDAR_REPEATS: Record<number, RecurrenceFrequency> = {
+  1: 'weekly',
+  2: 'monthly',
+  3: 'yearly',
+};
+const OBSERVER_LEVEL = 2; // CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER
+const ICS_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/;
+const DAY_IN_MS = 86400000;
+
+/**
+ * Read notes from other calendar tools and plan their import
+ */
+export class NoteImport {
+  /**
+   * Read Simple Calendar notes: journal entries, or their data, carrying Simple Calendar's
+   * `noteData` flag. Category IDs are resolved through the given Simple Calendar categories.
+   */
+  static readSimpleCalendarNotes(
+    entries: any[],
+    categories: { id?: string; name: string }[],
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine
+  ): ImportCandidate[] {
+    return entries.map(entry => {
+      const noteData = entry?.flags?.[SIMPLE_CALENDAR_SCOPE]?.noteData;
+      const title = entry?.name || 'Untitled note';
+      const source = `Simple Calendar note ${entry?._id || entry?.id || title}`;
+      const candidate: ImportCandidate = {
+        source,
+        title,
+        content: this.getJournalContent(entry),
+        allDay: noteData?.allDay ?? true,
+        categories: (noteData?.categories || []).map((category: any) =>
+          this.resolveSimpleCalendarCategory(category, categories)
+        ),
+        playerVisible: (entry?.ownership?.default ?? 0) >= OBSERVER_LEVEL,
+      };
+
+      if (!noteData?.startDate) {
+        return { ...candidate, problem: 'Not a Simple Calendar note' };
+      }
+
+      const startDate = this.mapSimpleCalendarDate(noteData.startDate, candidate.allDay, engine);
+      if (typeof startDate === 'string') return { ...candidate, problem: startDate };
+
+      const endDate = noteData.endDate
+        ? this.mapSimpleCalendarDate(noteData.endDate, candidate.allDay, engine)
+        : undefined;
+      const frequency = SIMPLE_CALENDAR_REPEATS[noteData.repeats];
+
+      return {
+        ...candidate,
+        startDate,
+        ...(typeof endDate === 'object' && this.isAfter(endDate, startDate) && { endDate }),
+        ...(frequency && { recurring: { frequency, interval: 1 } }),
+        ...(typeof endDate === 'string' && { warning: `End date dropped: ${endDate}` }),
+      };
+    });
+  }
+
+  /**
+   * Read a Simple Calendar JSON export, whose notes are grouped by calendar
+   */
+  static readSimpleCalendarExport(
+    data: string | object,
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine
+  ): ImportCandidate[] {
+    const parsed: any = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!parsed?.notes || typeof parsed.notes !== 'object') {
+      throw new Error('Not a Simple Calendar export: it has no notes');
+    }
+
+    const notes = Array.isArray(parsed.notes) ? parsed.notes : Object.values(parsed.notes).flat();
+    const categories = (parsed.calendars || []).flatMap(
+      (entry: any) => entry?.noteCategories || []
+    );
+
+    return this.readSimpleCalendarNotes(notes, categories, calendar, engine);
+  }
+
+  /**
+   * Read the events of an iCalendar file
+   *
+   * Events exported by Seasons & Stars keep their game date in `X-SEASONS-STARS-DATE`; other
+   * events are mapped from their real dates through the proxy, one real day per game day.
+   */
+  static readIcs(
+    text: string,
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine,
+    proxy?: IcsDateProxy
+  ): ImportCandidate[] {
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      throw new Error('Not an iCalendar file: it has no VCALENDAR');
+    }
+
+    return this.parseIcsEvents(text).map((event, index) => {
+      const first = (name: string) => event.get(name)?.[0];
+      const title = this.unescapeText(first('SUMMARY')?.value || '') || 'Untitled event';
+      const gameDate = first('X-SEASONS-STARS-DATE');
+      let description = this.unescapeText(first('DESCRIPTION')?.value || '');
+
+      // Our own exports lead the description with the game date
+      const gameDateText = gameDate && this.unescapeText(gameDate.value);
+      if (gameDateText && description.startsWith(gameDateText)) {
+        description = description.slice(gameDateText.length).trim();
+      }
+
+      const start = this.parseIcsDate(first('DTSTART'));
+      const candidate: ImportCandidate = {
+        source: `iCalendar event ${first('UID')?.value || index + 1}`,
+        title,
+        content: this.toHtml(description),
+        allDay: start?.seconds === undefined,
+        categories: (event.get('CATEGORIES') || []).flatMap(property =>
+          this.splitText(property.value)
+        ),
+        playerVisible: (first('CLASS')?.value || '').toUpperCase() === 'PUBLIC',
+      };
+
+      if (!start) return { ...candidate, problem: 'The event has no readable DTSTART' };
+
+      let startDate: ICalendarDate | undefined;
+      if (gameDateText) {
+        const [best] = DateParser.parse(
+          gameDateText.replace(/\s+\d{1,2}:\d{2}$/, ''),
+          calendar,
+          engine
+        );
+        startDate = best?.date;
+      }
+      if (!startDate && !proxy) {
+        return { ...candidate, problem: 'No date proxy to map real dates onto game dates' };
+      }
+      startDate = startDate || this.fromRealDay(start.day, proxy!, engine);
+
+      // All-day events end the day after their last day
+      const end = this.parseIcsDate(first('DTEND'));
+      const endDay = end && (candidate.allDay ? end.day - 1 : end.day);
+      const endDate =
+        end && endDay! > start.day ? engine.addDays(startDate, endDay! - start.day) : undefined;
+
+      const rule = this.readIcsRule(first('RRULE')?.value);
+
+      return {
+        ...candidate,
+        startDate: this.withTime(startDate, start.seconds, calendar),
+        ...(endDate && { endDate: this.withTime(endDate, end!.seconds, calendar) }),
+        ...(rule.recurring && { recurring: rule.recurring }),
+        ...(rule.warning && { warning: rule.warning }),
+      };
+    });
+  }
+
+  /**
+   * Match categories and look for conflicts, without writing anything
+   *
+   * A candidate conflicts when a note with the same title is already on its start date,
+   * either in the world (`findNotesOn`) or earlier in the same import.
+   */
+  static planImport(
+    candidates: ImportCandidate[],
+    categories: NoteCategory[],
+    findNotesOn: (date: ICalendarDate) => JournalEntry[],
+    dryRun: boolean
+  ): NoteImportReport {
+    const report: NoteImportReport = {
+      dryRun,
+      notes: [],
+      conflicts: [],
+      unmapped: [],
+      newCategories: [],
+      warnings: [],
+      created: [],
+    };
+
+    for (const candidate of candidates) {
+      const { source, title } = candidate;
+      if (!candidate.startDate) {
+        report.unmapped.push({ source, title, reason: candidate.problem || 'No date' });
+        continue;
+      }
+
+      const date = candidate.startDate;
+      const sameTitle = (name: string | undefined) =>
+        (name || '').trim().toLowerCase() === title.trim().toLowerCase();
+      const existing = findNotesOn(date).find(note => sameTitle(note.name));
+      const planned = report.notes.find(
+        note => sameTitle(note.data.title) && this.isSameDay(note.data.startDate, date)
+      );
+
+      if (existing || planned) {
+        report.conflicts.push({
+          source,
+          title,
+          date,
+          reason: existing
+            ? 'A note with this title is already on this date'
+            : `Duplicates ${planned!.source}`,
+          ...(existing && { noteId: existing.id }),
+        });
+        continue;
+      }
+
+      // The first category becomes the note's category and the rest become tags
+      const [main, ...rest] = candidate.categories;
+      const category = main ? this.matchCategory(main, categories, report.newCategories) : null;
+
+      if (candidate.warning) report.warnings.push(`${source}: ${candidate.warning}`);
+      report.notes.push({
+        source,
+        data: {
+          title,
+          content: candidate.content,
+          startDate: date,
+          ...(candidate.endDate && { endDate: candidate.endDate }),
+          allDay: candidate.allDay,
+          category: category?.id,
+          tags: rest,
+          playerVisible: candidate.playerVisible,
+          ...(candidate.recurring && { recurring: candidate.recurring }),
+        },
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Find a category by ID or name, adding a new one when nothing matches
+   */
+  private static matchCategory(
+    name: string,
+    categories: NoteCategory[],
+    newCategories: NoteCategory[]
+  ): NoteCategory {
+    const key = name.trim().toLowerCase();
+    const match = [...categories, ...newCategories].find(
+      category => category.id.toLowerCase() === key || category.name.toLowerCase() === key
+    );
+    if (match) return match;
+
+    const category: NoteCategory = {
+      id: key.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'imported',
+      name: name.trim(),
+      icon: 'fas fa-tag',
+      color: '#808080',
+      description: 'Imported category',
+    };
+    newCategories.push(category);
+    return category;
+  }
+
+  private static resolveSimpleCalendarCategory(
+    category: any,
+    categories: { id?: string; name: string }[]
+  ): string {
+    if (typeof category === 'object' && category?.name) return category.name;
+    return categories.find(entry => entry.id === category)?.name || String(category);
+  }
+
+  /**
+   * Map a Simple Calendar date (0-based month and day) onto the active calendar, or describe
+   * why it can't be
+   */
+  private static mapSimpleCalendarDate(
+    date: SimpleCalendarDate,
+    allDay: boolean,
+    engine: CalendarEngine
+  ): ICalendarDate | string {
+    const calendar = engine.getCalendar();
+    const year = Number(date.year);
+    const month = Number(date.month) + 1;
+    const day = Number(date.day) + 1;
+    const label = `${year}-${month}-${day}`;
+
+    if (![year, month, day].every(Number.isInteger)) {
+      return `Unreadable date ${JSON.stringify(date)}`;
+    }
+    if (month < 1 || month > calendar.months.length) {
+      return `${calendar.id} has no month ${month} (${label})`;
+    }
+    if (day < 1 || day > engine.getMonthLength(month, year)) {
+      return `${calendar.months[month - 1].name} has no day ${day} in ${year} (${label})`;
+    }
+
+    const hour = date.hour || 0;
+    if (!allDay && hour >= calendar.time.hoursInDay) {
+      return `${calendar.id} days have no hour ${hour} (${label})`;
+    }
+
+    return {
+      year,
+      month,
+      day,
+      weekday: engine.calculateWeekday(year, month, day),
+      ...(!allDay && {
+        time: { hour, minute: date.minute || 0, second: date.seconds || 0 },
+      }),
+    };
+  }
+
+  private static getJournalContent(entry: any): string {
+    const pages = Array.isArray(entry?.pages)
+      ? entry.pages
+      : entry?.pages?.values
+        ? [...entry.pages.values()]
+        : [];
+    return pages[0]?.text?.content || entry?.content || '';
+  }
+
+  private static isAfter(a: ICalendarDate, b: ICalendarDate): boolean {
+    if (a.year !== b.year) return a.year > b.year;
+    if (a.month !== b.month) return a.month > b.month;
+    return a.day > b.day;
+  }
+
+  private static isSameDay(a: ICalendarDate, b: ICalendarDate): boolean {
+    return (
+      a.year === b.year &&
+      a.month === b.month &&
+      a.day === b.day &&
+      (a.intercalary || '') === (b.intercalary || '')
+    );
+  }
+
+  /**
+   * Split an iCalendar file into events, each a map of property name to values
+   */
+  private static parseIcsEvents(text: string): Map<string, IcsProperty[]>[] {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: Map<string, IcsProperty[]>[] = [];
+    let event: Map<string, IcsProperty[]> | null = null;
+
+    for (const line of lines) {
+      if (line === 'BEGIN:VEVENT') {
+        event = new Map();
+      } else if (line === 'END:VEVENT' && event) {
+        events.push(event);
+        event = null;
+      } else if (event) {
+        const colon = line.indexOf(':');
+        if (colon < 0) continue;
+
+        const [name, ...params] = line.slice(0, colon).split(';');
+        const property: IcsProperty = {
+          value: line.slice(colon + 1),
+          params: Object.fromEntries(params.map(param => param.split('=') as [string, string])),
+        };
+        const key = name.toUpperCase();
+        event.set(key, [...(event.get(key) || []), property]);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Read a DATE or DATE-TIME value as days since 1970-01-01 plus seconds into the day
+   */
+  private static parseIcsDate(
+    property: IcsProperty | undefined
+  ): { day: number; seconds?: number } | null {
+    const match = property?.value.trim().match(ICS_DATE_PATTERN);
+    if (!match) return null;
+
+    const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+    return {
+      day: Date.UTC(year, month - 1, day) / DAY_IN_MS,
+      ...(match[4] !== undefined && { seconds: hour * 3600 + minute * 60 + second }),
+    };
+  }
+
+  private static fromRealDay(
+    day: number,
+    proxy: IcsDateProxy,
+    engine: CalendarEngine
+  ): ICalendarDate {
+    const [year, month, date] = proxy.realDate.split('-').map(Number);
+    return engine.addDays(proxy.gameDate, day - Date.UTC(year, month - 1, date) / DAY_IN_MS);
+  }
+
+  /**
+   * Scale a real time of day onto the calendar's day
+   */
+  private static withTime(
+    date: ICalendarDate,
+    realSeconds: number | undefined,
+    calendar: SeasonsStarsCalendar
+  ): ICalendarDate {
+    if (realSeconds === undefined) return { ...date, time: undefined };
+
+    const { minutesInHour, secondsInMinute } = calendar.time;
+    const seconds = Math.round(
+      (realSeconds / 86400) * CalendarTimeUtils.getSecondsPerDay(calendar)
+    );
+    return {
+      ...date,
+      time: {
+        hour: Math.floor(seconds / (minutesInHour * secondsInMinute)),
+        minute: Math.floor(seconds / secondsInMinute) % minutesInHour,
+        second: seconds % secondsInMinute,
+      },
+    };
+  }
+
+  /**
+   * Keep simple repeat rules; anything with BY parts or UNTIL only imports the first event
+   */
+  private static readIcsRule(text: string | undefined): {
+    recurring?: RecurringPattern;
+    warning?: string;
+  } {
+    if (!text) return {};
+
+    const parts = new Map(text.split(';').map(part => part.split('=') as [string, string]));
+    const frequency = parts.get('FREQ')?.toLowerCase() as RecurrenceFrequency | undefined;
+    const supported = [...parts.keys()].every(key => ['FREQ', 'INTERVAL', 'COUNT'].includes(key));
+
+    if (!frequency || !['daily', 'weekly', 'monthly', 'yearly'].includes(frequency) || !supported) {
+      return { warning: `Repeat rule not imported: ${text}` };
+    }
+
+    const count = Number(parts.get('COUNT'));
+    return {
+      recurring: {
+        frequency,
+        interval: Number(parts.get('INTERVAL')) || 1,
+        ...(count > 0 && { maxOccurrences: count }),
+      },
+    };
+  }
+
+  private static unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+      char === 'n' || char === 'N' ? '\n' : char
+    );
+  }
+
+  /**
+   * Split a comma-separated text value, keeping escaped commas
+   */
+  private static splitText(value: string): string[] {
+    return value
+      .split(/(?<!\\),/)
+      .map(part => this.unescapeText(part).trim())
+      .filter(part => part.length > 0);
+  }
+
+  /**
+   * Turn plain text into paragraphs of HTML
+   */
+  private static toHtml(text: string): string {
+    if (!text) return '';
+
+    return text
+      .split(/\n{2,}/)
+      .map(
+        paragraph =>
+          `<p>${paragraph
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/\n/g, '<br>')}</p>`
+      )
+      .join('');
+  }
+}
@@ -333,7 +333,7 @@ export class NotePerformanceOptimizer {
     const current = { ...start };
 
     while (dayCount < maxDays && this.compareDates(current, end) <= 0) {
-      keys.push(this.getDateKey(current));
+      keys.push(CalendarTimeUtils.formatDateKey(current));
       this.incrementDate(current);
       dayCount++;
     }
@@ -468,13 +468,6 @@ export class NotePerformanceOptimizer {
     return textPage?.text?.content || '';
   }
 
-  private getDateKey(date: ICalendarDate): string {
-    const year = date.year.toString().padStart(4, '0');
-    const month = date.month.toString().padStart(2, '0');
-    const day = date.day.toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  }
-
   private compareDates(date1: ICalendarDate, date2: ICalendarDate): number {
     return CalendarTimeUtils.compareDates(date1, date2);
   }
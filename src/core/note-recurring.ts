@@ -2,7 +2,12 @@
  * Recurring events system for calendar notes
  */
 
-import type { CalendarDate as ICalendarDate } from '../types/calendar';
+import type {
+  CalendarDate as ICalendarDate,
+  DateArithmeticOptions,
+  MonthOverflowPolicy,
+  SeasonsStarsCalendar,
+} from '../types/calendar';
 import { CalendarTimeUtils } from './calendar-time-utils';
 
 export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
@@ -15,6 +20,26 @@ export type WeekdayName =
   | 'friday'
   | 'saturday';
 
+export interface WeekdayRule {
+  weekday: number; // 0-based index into the calendar's weekdays
+  ordinal?: number; // 2 = second, -1 = last (in the month, or the year for yearly rules)
+}
+
+/**
+ * Recurrence rule modelled on RFC 5545 RRULEs, using the calendar's own weekdays and months
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number; // COUNT
+  until?: ICalendarDate; // UNTIL (inclusive)
+  byDay?: WeekdayRule[]; // BYDAY
+  byMonth?: number[]; // BYMONTH (1-based)
+  byMonthDay?: number[]; // BYMONTHDAY; negative days count back from the end of the month
+  bySetPos?: number[]; // BYSETPOS; picks from each period's dates, negative from the end
+  byIntercalary?: string[]; // Intercalary period names, for yearly rules
+}
+
 export interface RecurringPattern {
   frequency: RecurrenceFrequency;
   interval: number; // Every N days/weeks/months/years
@@ -33,8 +58,15 @@ export interface RecurringPattern {
   yearMonth?: number; // Month of year (1-12, for yearly)
   yearDay?: number; // Day of month for yearly
 
+  // Days missing from a shorter month: clamp to its last day (default), roll into the next
+  // month, or skip ('error') to the next interval that has the day
+  overflow?: MonthOverflowPolicy;
+
   // Exception dates (skip these occurrences)
   exceptions?: ICalendarDate[];
+
+  // Full recurrence rule; when set it replaces the fields above except exceptions
+  rule?: RecurrenceRule;
 }
 
 export interface RecurrenceOccurrence {
@@ -43,6 +75,9 @@ export interface RecurrenceOccurrence {
   index: number; // 0-based occurrence index
 }
 
+// Periods an occurrence may skip looking for its day under the `error` overflow policy
+const MAX_SKIPPED_PERIODS = 100;
+
 /**
  * Manages recurring events and generates occurrence dates
  */
@@ -57,6 +92,10 @@ export class NoteRecurrence {
     rangeEnd: ICalendarDate,
     engine: any // Calendar engine for date calculations
   ): RecurrenceOccurrence[] {
+    if (pattern.rule) {
+      return this.generateRuleOccurrences(startDate, pattern, rangeStart, rangeEnd, engine);
+    }
+
     const occurrences: RecurrenceOccurrence[] = [];
     let currentDate = { ...startDate };
     let occurrenceIndex = 0;
@@ -101,6 +140,235 @@ export class NoteRecurrence {
     return occurrences;
   }
 
+  /**
+   * Check whether a pattern falls on a date without generating occurrences
+   *
+   * Intervals are counted from `startDate` and `maxOccurrences` is not applied.
+   * Weekday names may be the calendar's own weekday names as well as English ones.
+   */
+  static matchesDate(
+    date: ICalendarDate,
+    pattern: RecurringPattern,
+    startDate: ICalendarDate,
+    engine: any
+  ): boolean {
+    if (pattern.rule) {
+      return this.occursOn(date, pattern, startDate, engine);
+    }
+
+    if (date.intercalary || this.isDateBefore(date, startDate)) {
+      return false;
+    }
+
+    if (pattern.endDate && this.isDateAfter(date, pattern.endDate)) {
+      return false;
+    }
+
+    if (this.isExceptionDate(date, pattern.exceptions || [])) {
+      return false;
+    }
+
+    const calendar = engine.getCalendar();
+    const interval = Math.max(1, pattern.interval || 1);
+    const monthsSinceStart =
+      (date.year - startDate.year) * CalendarTimeUtils.getMonthsPerYear(calendar) +
+      date.month -
+      startDate.month;
+
+    switch (pattern.frequency) {
+      case 'daily':
+        return this.getDaysBetween(startDate, date, engine) % interval === 0;
+
+      case 'weekly': {
+        const weekLength = CalendarTimeUtils.getDaysPerWeek(calendar);
+        const weeksSinceStart = Math.floor(
+          this.getDaysBetween(startDate, date, engine) / weekLength
+        );
+        const weekdays = pattern.weekdays?.length
+          ? pattern.weekdays.map(day => this.resolveWeekday(day, calendar))
+          : [engine.calculateWeekday(startDate.year, startDate.month, startDate.day)];
+
+        return (
+          weeksSinceStart % interval === 0 &&
+          weekdays.includes(engine.calculateWeekday(date.year, date.month, date.day))
+        );
+      }
+
+      case 'monthly': {
+        const day = pattern.monthDay || startDate.day;
+        const scheduled = this.getScheduledMonth(date, day, pattern, engine);
+        if (scheduled !== date) {
+          const scheduledMonths =
+            (scheduled.year - startDate.year) * CalendarTimeUtils.getMonthsPerYear(calendar) +
+            scheduled.month -
+            startDate.month;
+          return scheduledMonths >= 0 && scheduledMonths % interval === 0;
+        }
+
+        return (
+          monthsSinceStart % interval === 0 && this.matchesDayOfMonth(date, day, pattern, engine)
+        );
+      }
+
+      case 'yearly': {
+        const month = pattern.yearMonth || startDate.month;
+        const day = pattern.yearDay || startDate.day;
+        const scheduled = this.getScheduledMonth(date, day, pattern, engine);
+
+        return (
+          (scheduled.year - startDate.year) % interval === 0 &&
+          scheduled.month === month &&
+          (scheduled !== date || this.matchesDayOfMonth(date, day, pattern, engine))
+        );
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check whether a recurring note has an occurrence on a date
+   *
+   * Like `matchesDate`, but a `maxOccurrences` limit is honoured.
+   */
+  static occursOn(
+    date: ICalendarDate,
+    pattern: RecurringPattern,
+    startDate: ICalendarDate,
+    engine: any
+  ): boolean {
+    if (pattern.rule) {
+      return this.generateRuleOccurrences(startDate, pattern, date, date, engine).some(
+        occurrence => !occurrence.isException && occurrence.date.intercalary === date.intercalary
+      );
+    }
+
+    if (!pattern.maxOccurrences) {
+      return this.matchesDate(date, pattern, startDate, engine);
+    }
+
+    return (
+      !date.intercalary &&
+      this.generateOccurrences(startDate, pattern, date, date, engine).some(
+        occurrence => !occurrence.isException && !occurrence.date.intercalary
+      )
+    );
+  }
+
+  /**
+   * List the dates a recurring note falls on within a range
+   *
+   * Patterns without `maxOccurrences` are checked day by day, so there is no limit on how
+   * far the range may lie from the start date.
+   */
+  static getOccurrenceDates(
+    startDate: ICalendarDate,
+    pattern: RecurringPattern,
+    rangeStart: ICalendarDate,
+    rangeEnd: ICalendarDate,
+    engine: any
+  ): ICalendarDate[] {
+    if (pattern.rule) {
+      return this.generateRuleOccurrences(startDate, pattern, rangeStart, rangeEnd, engine)
+        .filter(occurrence => !occurrence.isException)
+        .map(occurrence => occurrence.date);
+    }
+
+    if (pattern.maxOccurrences) {
+      return this.generateOccurrences(startDate, pattern, rangeStart, rangeEnd, engine)
+        .filter(occurrence => !occurrence.isException && !occurrence.date.intercalary)
+        .map(occurrence => occurrence.date);
+    }
+
+    const lastDate =
+      pattern.endDate && this.isDateBefore(pattern.endDate, rangeEnd) ? pattern.endDate : rangeEnd;
+    const dates: ICalendarDate[] = [];
+    let date = this.isDateAfter(startDate, rangeStart) ? { ...startDate } : { ...rangeStart };
+
+    while (!this.isDateAfter(date, lastDate)) {
+      if (this.matchesDate(date, pattern, startDate, engine)) {
+        dates.push(date);
+      }
+      date = engine.addDays(date, 1);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Check a date against a day of the month, or the pattern's Nth weekday if it has one
+   */
+  private static matchesDayOfMonth(
+    date: ICalendarDate,
+    day: number,
+    pattern: RecurringPattern,
+    engine: any
+  ): boolean {
+    if (pattern.monthWeek && pattern.monthWeekday) {
+      const nthWeekday = this.getNthWeekdayOfMonth(
+        date.year,
+        date.month,
+        pattern.monthWeek,
+        this.resolveWeekday(pattern.monthWeekday, engine.getCalendar()),
+        engine
+      );
+      return nthWeekday?.day === date.day;
+    }
+
+    // Days past the end of a short month fall on its last day unless the pattern rolls them
+    // over or skips the month
+    const monthLength = engine.getMonthLength(date.month, date.year);
+    if (day <= monthLength) {
+      return date.day === day;
+    }
+    return (pattern.overflow || 'clamp') === 'clamp' && date.day === monthLength;
+  }
+
+  /**
+   * Find the month an occurrence belongs to
+   *
+   * With `rollover`, an occurrence past the end of a short month lands early in the next
+   * one; this returns a date in the month it was scheduled for, or `date` itself.
+   */
+  private static getScheduledMonth(
+    date: ICalendarDate,
+    day: number,
+    pattern: RecurringPattern,
+    engine: any
+  ): ICalendarDate {
+    if (pattern.overflow !== 'rollover' || pattern.monthWeek || date.day >= day) {
+      return date;
+    }
+
+    const previous = engine.addMonths({ ...date, day: 1 }, -1);
+    const rolled = engine.addMonths({ ...previous, day }, 0, { overflow: 'rollover' });
+    const isRollover =
+      rolled.year === date.year && rolled.month === date.month && rolled.day === date.day;
+
+    return isRollover ? previous : date;
+  }
+
+  /**
+   * Count whole days from one date to another
+   */
+  private static getDaysBetween(from: ICalendarDate, to: ICalendarDate, engine: any): number {
+    const dayInSeconds = CalendarTimeUtils.getSecondsPerDay(engine.getCalendar());
+    const fromTime = engine.dateToWorldTime({ ...from, time: undefined });
+    const toTime = engine.dateToWorldTime({ ...to, time: undefined });
+    return Math.round((toTime - fromTime) / dayInSeconds);
+  }
+
+  /**
+   * Convert a weekday name to its index, preferring the calendar's own weekday names
+   */
+  private static resolveWeekday(weekday: string, calendar: any): number {
+    const index = (calendar.weekdays || []).findIndex(
+      (day: { name: string }) => day.name.toLowerCase() === weekday.toLowerCase()
+    );
+    return index >= 0 ? index : this.weekdayNameToNumber(weekday.toLowerCase() as WeekdayName);
+  }
+
   /**
    * Calculate the next occurrence date based on the recurrence pattern
    */
@@ -181,29 +449,29 @@ export class NoteRecurrence {
   ): ICalendarDate {
     if (pattern.monthDay) {
       // Specific day of month (e.g., 15th of every month)
-      let nextDate = { ...currentDate };
+      const scheduled = this.getScheduledMonth(currentDate, pattern.monthDay, pattern, engine);
 
       // Try same month first
-      if (currentDate.day < pattern.monthDay) {
-        nextDate.day = pattern.monthDay;
+      if (scheduled === currentDate && currentDate.day < pattern.monthDay) {
+        const nextDate = { ...currentDate, day: pattern.monthDay };
         if (this.isValidDate(nextDate, engine)) {
           return nextDate;
         }
       }
 
       // Move to next interval month
-      nextDate = this.addMonths(currentDate, pattern.interval, engine);
-      nextDate.day = Math.min(
-        pattern.monthDay,
-        engine.getMonthLength(nextDate.month, nextDate.year)
+      return this.addMonths(
+        { ...scheduled, day: pattern.monthDay },
+        pattern.interval,
+        engine,
+        pattern.overflow
       );
-      return nextDate;
     } else if (pattern.monthWeek && pattern.monthWeekday) {
       // Specific weekday of specific week (e.g., 2nd Tuesday of every month)
       return this.getNextMonthlyWeekdayOccurrence(currentDate, pattern, engine);
     } else {
       // Default: same day of next interval month
-      return this.addMonths(currentDate, pattern.interval, engine);
+      return this.addMonths(currentDate, pattern.interval, engine, pattern.overflow);
     }
   }
 
@@ -277,16 +545,14 @@ export class NoteRecurrence {
     }
 
     // Move to next interval year
-    const nextYear = currentDate.year + pattern.interval;
-    const maxDay = engine.getMonthLength(targetMonth, nextYear);
+    const scheduled = this.getScheduledMonth(currentDate, targetDay, pattern, engine);
 
-    return {
-      year: nextYear,
-      month: targetMonth,
-      day: Math.min(targetDay, maxDay),
-      weekday: engine.calculateWeekday(nextYear, targetMonth, Math.min(targetDay, maxDay)),
-      time: currentDate.time,
-    };
+    return this.addYears(
+      { ...scheduled, month: targetMonth, day: targetDay },
+      pattern.interval,
+      engine,
+      pattern.overflow
+    );
   }
 
   /**
@@ -304,34 +570,58 @@ export class NoteRecurrence {
 
   /**
    * Add months to a date using the calendar engine
+   *
+   * Occurrences past the end of a shorter month move back to its last day by default.
    */
-  private static addMonths(date: ICalendarDate, months: number, engine: any): ICalendarDate {
-    let newYear = date.year;
-    let newMonth = date.month + months;
+  private static addMonths(
+    date: ICalendarDate,
+    months: number,
+    engine: any,
+    overflow: MonthOverflowPolicy = 'clamp'
+  ): ICalendarDate {
+    return this.addPeriods(date, months, overflow, (from, count, options) =>
+      engine.addMonths(from, count, options)
+    );
+  }
 
-    // Handle year overflow/underflow using calendar-specific month count
-    const calendar = engine.getCalendar();
-    const monthsPerYear = CalendarTimeUtils.getMonthsPerYear(calendar);
-    while (newMonth > monthsPerYear) {
-      newMonth -= monthsPerYear;
-      newYear++;
-    }
-    while (newMonth < 1) {
-      newMonth += monthsPerYear;
-      newYear--;
+  /**
+   * Add years to a date using the calendar engine
+   */
+  private static addYears(
+    date: ICalendarDate,
+    years: number,
+    engine: any,
+    overflow: MonthOverflowPolicy = 'clamp'
+  ): ICalendarDate {
+    return this.addPeriods(date, years, overflow, (from, count, options) =>
+      engine.addYears(from, count, options)
+    );
+  }
+
+  /**
+   * Move a date by whole months or years
+   *
+   * An occurrence can't fail, so `error` skips ahead by further steps until the day exists,
+   * falling back to clamping if it never does.
+   */
+  private static addPeriods(
+    date: ICalendarDate,
+    count: number,
+    overflow: MonthOverflowPolicy,
+    add: (from: ICalendarDate, count: number, options: DateArithmeticOptions) => ICalendarDate
+  ): ICalendarDate {
+    if (overflow !== 'error') {
+      return add(date, count, { overflow });
     }
 
-    // Handle day overflow (e.g., Jan 31 + 1 month should be Feb 28/29)
-    const maxDay = engine.getMonthLength(newMonth, newYear);
-    const newDay = Math.min(date.day, maxDay);
+    for (let step = 1; step <= MAX_SKIPPED_PERIODS; step++) {
+      const next = add(date, count * step, { overflow: 'clamp' });
+      if (next.day === date.day) {
+        return next;
+      }
+    }
 
-    return {
-      year: newYear,
-      month: newMonth,
-      day: newDay,
-      weekday: engine.calculateWeekday(newYear, newMonth, newDay),
-      time: date.time,
-    };
+    return add(date, count, { overflow: 'clamp' });
   }
 
   /**
@@ -520,4 +810,529 @@ export class NoteRecurrence {
       ...options,
     };
   }
+
+  /**
+   * Parse recurrence rule text such as "FREQ=MONTHLY;BYDAY=-1Moonday;COUNT=6"
+   *
+   * Parts follow RFC 5545 RRULEs (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTH, BYMONTHDAY,
+   * BYSETPOS) plus BYINTERCALARY. Weekdays and months are the calendar's names, UNTIL is
+   * YEAR-MONTH-DAY. Throws an error describing the first part that can't be read.
+   */
+  static parseRule(text: string, calendar: SeasonsStarsCalendar): RecurrenceRule {
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+    const parts = text
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map(part => part.trim())
+      .filter(Boolean);
+
+    for (const part of parts) {
+      const [rawKey, value = ''] = part.split('=', 2).map(piece => piece.trim());
+      const key = rawKey.toUpperCase();
+      const list = value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
+
+      switch (key) {
+        case 'FREQ': {
+          const frequency = value.toLowerCase();
+          if (!['daily', 'weekly', 'monthly', 'yearly'].includes(frequency)) {
+            throw new Error(`Unknown recurrence frequency: ${value}`);
+          }
+          rule.frequency = frequency as RecurrenceFrequency;
+          break;
+        }
+        case 'INTERVAL':
+          rule.interval = this.parseRuleNumber(key, value, 1);
+          break;
+        case 'COUNT':
+          rule.count = this.parseRuleNumber(key, value, 1);
+          break;
+        case 'UNTIL': {
+          const match = value.match(/^(-?\d+)-(\d+)-(\d+)$/);
+          if (!match) {
+            throw new Error(`UNTIL must be a date such as 1492-3-10: ${value}`);
+          }
+          rule.until = { year: +match[1], month: +match[2], day: +match[3], weekday: 0 };
+          break;
+        }
+        case 'BYDAY':
+          rule.byDay = list.map(item => this.parseWeekdayRule(item, calendar));
+          break;
+        case 'BYMONTH':
+          rule.byMonth = list.map(item => this.parseRuleMonth(item, calendar));
+          break;
+        case 'BYMONTHDAY':
+          rule.byMonthDay = list.map(item => this.parseRuleNumber(key, item));
+          break;
+        case 'BYSETPOS':
+          rule.bySetPos = list.map(item => this.parseRuleNumber(key, item));
+          break;
+        case 'BYINTERCALARY':
+          rule.byIntercalary = list.map(item => {
+            const intercalary = (calendar.intercalary || []).find(
+              period => period.name.toLowerCase() === item.toLowerCase()
+            );
+            if (!intercalary) {
+              throw new Error(`Unknown intercalary period: ${item}`);
+            }
+            return intercalary.name;
+          });
+          break;
+        default:
+          throw new Error(`Unknown recurrence rule part: ${rawKey}`);
+      }
+    }
+
+    if (!rule.frequency) {
+      throw new Error('A recurrence rule needs a FREQ');
+    }
+
+    return rule as RecurrenceRule;
+  }
+
+  /**
+   * Write a recurrence rule as text that parseRule reads back
+   */
+  static formatRule(rule: RecurrenceRule, calendar: SeasonsStarsCalendar): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byMonth?.length) {
+      const months = rule.byMonth.map(month => calendar.months[month - 1]?.name ?? month);
+      parts.push(`BYMONTH=${months.join(',')}`);
+    }
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byDay?.length) {
+      const days = rule.byDay.map(
+        ({ weekday, ordinal }) => `${ordinal ?? ''}${calendar.weekdays[weekday]?.name ?? weekday}`
+      );
+      parts.push(`BYDAY=${days.join(',')}`);
+    }
+    if (rule.byIntercalary?.length) parts.push(`BYINTERCALARY=${rule.byIntercalary.join(',')}`);
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) {
+      parts.push(`UNTIL=${rule.until.year}-${rule.until.month}-${rule.until.day}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Express a pattern as a recurrence rule, converting the basic pattern fields if needed
+   */
+  static toRule(pattern: RecurringPattern, calendar: SeasonsStarsCalendar): RecurrenceRule {
+    if (pattern.rule) return pattern.rule;
+
+    const rule: RecurrenceRule = {
+      frequency: pattern.frequency,
+      interval: Math.max(1, pattern.interval || 1),
+      ...(pattern.maxOccurrences && { count: pattern.maxOccurrences }),
+      ...(pattern.endDate && { until: pattern.endDate }),
+    };
+
+    if (pattern.frequency === 'weekly' && pattern.weekdays?.length) {
+      rule.byDay = pattern.weekdays.map(day => ({
+        weekday: this.resolveWeekday(day, calendar),
+      }));
+    }
+
+    if (pattern.frequency === 'monthly' || pattern.frequency === 'yearly') {
+      if (pattern.monthWeek && pattern.monthWeekday) {
+        rule.byDay = [
+          {
+            weekday: this.resolveWeekday(pattern.monthWeekday, calendar),
+            ordinal: pattern.monthWeek,
+          },
+        ];
+      } else if (pattern.monthDay || pattern.yearDay) {
+        rule.byMonthDay = [
+          (pattern.frequency === 'yearly' && pattern.yearDay) || pattern.monthDay!,
+        ];
+      }
+    }
+
+    if (pattern.frequency === 'yearly' && pattern.yearMonth) {
+      rule.byMonth = [pattern.yearMonth];
+    }
+
+    return rule;
+  }
+
+  /**
+   * Generate the occurrences of a pattern with a recurrence rule within a date range
+   *
+   * Each period (day, week, month or year, every `interval`) is expanded into its dates, then
+   * filtered by the BY parts. Without COUNT, periods before the range are skipped; with it,
+   * they are expanded to keep a running count, and the walk ends once COUNT is reached.
+   */
+  private static generateRuleOccurrences(
+    startDate: ICalendarDate,
+    pattern: RecurringPattern,
+    rangeStart: ICalendarDate,
+    rangeEnd: ICalendarDate,
+    engine: any
+  ): RecurrenceOccurrence[] {
+    const rule = pattern.rule!;
+    const interval = Math.max(1, rule.interval || 1);
+    const startTime = this.getDayTime(startDate, engine);
+    const rangeStartTime = this.getDayTime(rangeStart, engine);
+    const rangeEndTime = Math.min(
+      this.getDayTime(rangeEnd, engine),
+      rule.until ? this.getDayTime(rule.until, engine) : Infinity
+    );
+
+    const occurrences: RecurrenceOccurrence[] = [];
+    let period = rule.count ? 0 : this.getFirstRulePeriod(startDate, rule, rangeStart, engine);
+    period -= period % interval;
+    let index = 0;
+
+    // Periods after the one holding the end of the range can't reach it; the estimate for
+    // weekly rules can fall a period short
+    const lastPeriod = this.getFirstRulePeriod(startDate, rule, rangeEnd, engine) + 2;
+
+    for (; period <= lastPeriod; period += interval) {
+      const { first, dates } = this.getRulePeriodDates(startDate, rule, period, engine);
+      if (this.getDayTime(first, engine) > rangeEndTime) break;
+
+      for (const date of dates) {
+        const time = this.getDayTime(date, engine);
+        if (time < startTime) continue;
+        if (time > rangeEndTime || (rule.count && index >= rule.count)) return occurrences;
+
+        if (time >= rangeStartTime) {
+          occurrences.push({
+            date,
+            isException: this.isExceptionDate(date, pattern.exceptions || []),
+            index,
+          });
+        }
+        index++;
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Estimate the first period (counted from the start date's) that can reach a date
+   */
+  private static getFirstRulePeriod(
+    startDate: ICalendarDate,
+    rule: RecurrenceRule,
+    date: ICalendarDate,
+    engine: any
+  ): number {
+    const calendar = engine.getCalendar();
+    let period = 0;
+
+    switch (rule.frequency) {
+      case 'yearly':
+        period = date.year - startDate.year;
+        break;
+      case 'monthly':
+        period =
+          (date.year - startDate.year) * CalendarTimeUtils.getMonthsPerYear(calendar) +
+          date.month -
+          startDate.month;
+        break;
+      case 'weekly':
+        period =
+          Math.floor(
+            this.getDaysBetween(startDate, date, engine) /
+              CalendarTimeUtils.getDaysPerWeek(calendar)
+          ) - 1;
+        break;
+      case 'daily':
+        period = this.getDaysBetween(startDate, date, engine);
+        break;
+    }
+
+    return Math.max(0, period);
+  }
+
+  /**
+   * Get the dates in one period of a rule, in order, with the first day of the period
+   */
+  private static getRulePeriodDates(
+    startDate: ICalendarDate,
+    rule: RecurrenceRule,
+    period: number,
+    engine: any
+  ): { first: ICalendarDate; dates: ICalendarDate[] } {
+    const calendar = engine.getCalendar();
+    const monthsPerYear = CalendarTimeUtils.getMonthsPerYear(calendar);
+    let first: ICalendarDate;
+    let dates: ICalendarDate[] = [];
+
+    switch (rule.frequency) {
+      case 'yearly': {
+        const year = startDate.year + period;
+        first = { year, month: 1, day: 1, weekday: 0 };
+
+        for (const name of rule.byIntercalary || []) {
+          dates.push(...this.getIntercalaryDates(year, name, engine));
+        }
+
+        if (rule.byMonth || rule.byMonthDay || !rule.byIntercalary) {
+          if (rule.byMonth || rule.byMonthDay) {
+            const months = rule.byMonth || calendar.months.map((_: unknown, i: number) => i + 1);
+            for (const month of months) {
+              dates.push(...this.getRuleMonthDates(year, month, startDate, rule, engine));
+            }
+          } else if (rule.byDay) {
+            // Ordinals count through the whole year
+            const days: ICalendarDate[] = [];
+            for (let month = 1; month <= monthsPerYear; month++) {
+              days.push(...this.getMonthDates(year, month, engine));
+            }
+            dates.push(...this.selectWeekdays(days, rule.byDay, engine));
+          } else {
+            dates.push(
+              ...this.getMonthDates(year, startDate.month, engine).filter(
+                date => date.day === startDate.day
+              )
+            );
+          }
+        }
+        break;
+      }
+
+      case 'monthly': {
+        const monthIndex = startDate.year * monthsPerYear + startDate.month - 1 + period;
+        const year = Math.floor(monthIndex / monthsPerYear);
+        const month = monthIndex - year * monthsPerYear + 1;
+        first = { year, month, day: 1, weekday: 0 };
+
+        if (!rule.byMonth || rule.byMonth.includes(month)) {
+          dates = this.getRuleMonthDates(year, month, startDate, rule, engine);
+        }
+        break;
+      }
+
+      case 'weekly': {
+        const weekLength = CalendarTimeUtils.getDaysPerWeek(calendar);
+        const startWeekday = engine.calculateWeekday(
+          startDate.year,
+          startDate.month,
+          startDate.day
+        );
+        const weekdays = rule.byDay?.map(day => day.weekday) ?? [startWeekday];
+        first = engine.addDays(startDate, period * weekLength - startWeekday);
+
+        for (let offset = 0; offset < weekLength; offset++) {
+          const date = offset === 0 ? first : engine.addDays(first, offset);
+          if (
+            !date.intercalary &&
+            weekdays.includes(engine.calculateWeekday(date.year, date.month, date.day)) &&
+            (!rule.byMonth || rule.byMonth.includes(date.month))
+          ) {
+            dates.push(date);
+          }
+        }
+        break;
+      }
+
+      default: {
+        first = engine.addDays(startDate, period);
+        const monthLength = engine.getMonthLength(first.month, first.year);
+        const matches =
+          !first.intercalary &&
+          (!rule.byMonth || rule.byMonth.includes(first.month)) &&
+          (!rule.byMonthDay ||
+            rule.byMonthDay.some(day => this.resolveMonthDay(day, monthLength) === first.day)) &&
+          (!rule.byDay ||
+            rule.byDay.some(
+              day => day.weekday === engine.calculateWeekday(first.year, first.month, first.day)
+            ));
+        if (matches) dates.push(first);
+        break;
+      }
+    }
+
+    dates = this.sortByDay(dates, engine);
+    if (rule.bySetPos?.length) {
+      dates = this.sortByDay(
+        rule.bySetPos
+          .map(position => dates[position > 0 ? position - 1 : dates.length + position])
+          .filter((date, i, picked): date is ICalendarDate => !!date && picked.indexOf(date) === i),
+        engine
+      );
+    }
+
+    return { first, dates };
+  }
+
+  /**
+   * Get a month's dates that match a monthly or yearly rule
+   */
+  private static getRuleMonthDates(
+    year: number,
+    month: number,
+    startDate: ICalendarDate,
+    rule: RecurrenceRule,
+    engine: any
+  ): ICalendarDate[] {
+    const days = this.getMonthDates(year, month, engine);
+
+    if (rule.byMonthDay) {
+      const monthLength = engine.getMonthLength(month, year);
+      const wanted = rule.byMonthDay.map(day => this.resolveMonthDay(day, monthLength));
+      const weekdays = rule.byDay?.map(day => day.weekday);
+      return days.filter(
+        date => wanted.includes(date.day) && (!weekdays || weekdays.includes(date.weekday))
+      );
+    }
+
+    if (rule.byDay) {
+      return this.selectWeekdays(days, rule.byDay, engine);
+    }
+
+    return days.filter(date => date.day === startDate.day);
+  }
+
+  /**
+   * Pick the dates on the rule's weekdays, applying ordinals such as "2nd" or "last"
+   */
+  private static selectWeekdays(
+    days: ICalendarDate[],
+    byDay: WeekdayRule[],
+    engine: any
+  ): ICalendarDate[] {
+    const selected = new Set<ICalendarDate>();
+
+    for (const { weekday, ordinal } of byDay) {
+      const matching = days.filter(date => date.weekday === weekday);
+      if (!ordinal) {
+        matching.forEach(date => selected.add(date));
+        continue;
+      }
+
+      const date = matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal];
+      if (date) selected.add(date);
+    }
+
+    return this.sortByDay([...selected], engine);
+  }
+
+  /**
+   * Get the regular (non-dropped) days of a month
+   */
+  private static getMonthDates(year: number, month: number, engine: any): ICalendarDate[] {
+    const dates: ICalendarDate[] = [];
+    const monthLength = engine.getMonthLength(month, year);
+
+    for (let day = 1; day <= monthLength; day++) {
+      if (engine.isDroppedDay?.(year, month, day)) continue;
+      dates.push({ year, month, day, weekday: engine.calculateWeekday(year, month, day) });
+    }
+
+    return dates;
+  }
+
+  /**
+   * Get the days of an intercalary period in a year, if the year has it
+   */
+  private static getIntercalaryDates(year: number, name: string, engine: any): ICalendarDate[] {
+    const calendar = engine.getCalendar();
+    const intercalary = (calendar.intercalary || []).find(
+      (period: { name: string }) => period.name === name
+    );
+    const month =
+      calendar.months.findIndex((m: { name: string }) => m.name === intercalary?.after) + 1;
+    if (!intercalary || month === 0) return [];
+
+    const inYear = engine
+      .getIntercalaryDaysAfterMonth(year, month)
+      .some((period: { name: string }) => period.name === name);
+    if (!inYear) return [];
+
+    return Array.from({ length: intercalary.days || 1 }, (_, i) => ({
+      year,
+      month,
+      day: i + 1,
+      weekday: engine.calculateWeekday(year, month, i + 1, name),
+      intercalary: name,
+    }));
+  }
+
+  /**
+   * Convert a possibly negative BYMONTHDAY value to a day of the month
+   */
+  private static resolveMonthDay(day: number, monthLength: number): number {
+    return day > 0 ? day : monthLength + 1 + day;
+  }
+
+  /**
+   * Sort dates chronologically, placing intercalary days after the month they follow
+   */
+  private static sortByDay(dates: ICalendarDate[], engine: any): ICalendarDate[] {
+    return dates.sort((a, b) => this.getDayTime(a, engine) - this.getDayTime(b, engine));
+  }
+
+  /**
+   * Get the world time at the start of a date's day, for chronological comparisons
+   */
+  private static getDayTime(date: ICalendarDate, engine: any): number {
+    return engine.dateToWorldTime({ ...date, time: undefined });
+  }
+
+  /**
+   * Read a whole number from a rule part, optionally with a minimum
+   */
+  private static parseRuleNumber(key: string, value: string, min?: number): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number === 0 || (min !== undefined && number < min)) {
+      throw new Error(`${key} must be a${min ? ' positive' : ' non-zero'} whole number: ${value}`);
+    }
+    return number;
+  }
+
+  /**
+   * Read a month by name, abbreviation or number
+   */
+  private static parseRuleMonth(value: string, calendar: SeasonsStarsCalendar): number {
+    const lower = value.toLowerCase();
+    const index = calendar.months.findIndex(
+      month => month.name.toLowerCase() === lower || month.abbreviation?.toLowerCase() === lower
+    );
+    if (index >= 0) return index + 1;
+
+    const number = Number(value);
+    if (Number.isInteger(number) && number >= 1 && number <= calendar.months.length) {
+      return number;
+    }
+
+    throw new Error(`Unknown month: ${value}`);
+  }
+
+  /**
+   * Read a BYDAY entry: a weekday name or abbreviation with an optional ordinal, e.g. "-1Moonday"
+   */
+  private static parseWeekdayRule(value: string, calendar: SeasonsStarsCalendar): WeekdayRule {
+    const findWeekday = (name: string) =>
+      calendar.weekdays.findIndex(
+        weekday =>
+          weekday.name.toLowerCase() === name.toLowerCase() ||
+          weekday.abbreviation?.toLowerCase() === name.toLowerCase()
+      );
+
+    // Weekday names may themselves start with digits, such as "1st"
+    const whole = findWeekday(value);
+    if (whole >= 0) return { weekday: whole };
+
+    const digits = value.match(/^[+-]?\d+/)?.[0] || '';
+    for (let length = 1; length <= digits.length; length++) {
+      const ordinal = Number(digits.slice(0, length));
+      const weekday = findWeekday(value.slice(length).trim());
+      if (weekday >= 0 && Number.isInteger(ordinal) && ordinal !== 0) {
+        return { weekday, ordinal };
+      }
+    }
+
+    throw new Error(`Unknown weekday: ${value}`);
+  }
 }
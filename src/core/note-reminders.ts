@@ -0,0 +1,310 @@
+/**
+ * Note reminders that fire when game time reaches them
+ *
+ * Reminders are stored on the note and checked whenever world time moves forward: every
+ * reminder whose trigger falls between the old and new time is due. Moving time backwards
+ * fires nothing, so rewinding and replaying a stretch of time fires its reminders again.
+ *
+ * `TimeConverter.scheduleCallback` is not used: it needs a hook per trigger, which recurring
+ * notes can't bound, it forgets its hooks on reload, and callbacks firing one by one can't be
+ * summed up after a big time jump.
+ */
+
+import type { CalendarDate as ICalendarDate, SeasonsStarsCalendar } from '../types/calendar';
+import type { CalendarEngine } from './calendar-engine';
+import { CalendarTimeUtils } from './calendar-time-utils';
+import { DateFormatter } from './date-formatter';
+import { NoteRecurrence } from './note-recurring';
+
+export type ReminderUnit = 'minutes' | 'hours' | 'days' | 'weeks';
+
+export type ReminderTiming =
+  | { type: 'start' } // When the note starts
+  | { type: 'before'; amount: number; unit: ReminderUnit } // Some time before it starts
+  | { type: 'timeOfDay'; hour: number; minute: number; daysBefore?: number }; // At a time on its day
+
+export interface NoteReminder {
+  timing: ReminderTiming;
+  delivery?: 'whisper' | 'chat'; // Whisper to the recipients (default) or post to everyone
+  recipients?: string[]; // User IDs to whisper to; the GMs when empty
+}
+
+export interface DueReminder {
+  note: JournalEntry;
+  reminder: NoteReminder;
+  occurrenceDate: ICalendarDate; // The date of the note, or of the occurrence for recurring notes
+  triggerTime: number; // World time the reminder fired at
+}
+
+export interface ReminderMessage {
+  content: string;
+  whisper: string[];
+  speaker: { alias: string };
+}
+
+/** More reminders than this in one time change are summed up in one message per audience */
+export const REMINDER_CATCH_UP_LIMIT = 3;
+
+const CATCH_UP_LIST_LIMIT = 20;
+const UNIT_PATTERN = '(minutes?|hours?|days?|weeks?)';
+
+/**
+ * Find, describe and announce note reminders
+ */
+export class NoteReminders {
+  /**
+   * Find the reminders whose trigger lies after fromTime and at or before toTime, in the
+   * order they fire
+   *
+   * Recurring notes remind for each occurrence; `isOverridden` skips occurrences replaced by
+   * an edited occurrence, which carries its own reminders.
+   */
+  static findDueReminders(
+    notes: JournalEntry[],
+    fromTime: number,
+    toTime: number,
+    engine: CalendarEngine,
+    isOverridden: (noteId: string, date: ICalendarDate) => boolean = () => false
+  ): DueReminder[] {
+    if (toTime <= fromTime) return [];
+
+    const secondsPerDay = CalendarTimeUtils.getSecondsPerDay(engine.getCalendar());
+    const due: DueReminder[] = [];
+
+    for (const note of notes) {
+      const flags = note.flags?.['seasons-and-stars'];
+      const reminders: NoteReminder[] = flags?.reminders || [];
+      if (!flags?.startDate || reminders.length === 0) continue;
+
+      let dates: ICalendarDate[] = [flags.startDate];
+      if (flags.isRecurringParent && flags.recurring) {
+        // Occurrences late enough to fire, and early enough given the longest lead time
+        const lead = Math.max(
+          ...reminders.map(reminder => -this.getOffset(reminder.timing, undefined, engine))
+        );
+        dates = NoteRecurrence.getOccurrenceDates(
+          flags.startDate,
+          flags.recurring,
+          engine.worldTimeToDate(fromTime - secondsPerDay),
+          engine.worldTimeToDate(toTime + Math.max(0, lead)),
+          engine
+        ).filter(date => !isOverridden(note.id, date));
+      }
+
+      for (const date of dates) {
+        const time = flags.allDay === false ? flags.startDate.time : undefined;
+        const dayStart = engine.dateToWorldTime({ ...date, time: undefined });
+
+        for (const reminder of reminders) {
+          const triggerTime = dayStart + this.getOffset(reminder.timing, time, engine);
+          if (triggerTime > fromTime && triggerTime <= toTime) {
+            due.push({ note, reminder, occurrenceDate: date, triggerTime });
+          }
+        }
+      }
+    }
+
+    return due.sort((a, b) => a.triggerTime - b.triggerTime);
+  }
+
+  /**
+   * Build the chat messages for reminders that fired together
+   *
+   * Up to REMINDER_CATCH_UP_LIMIT reminders get a message each; more than that, as after a
+   * long rest or a skip ahead, get one summary per audience.
+   */
+  static buildMessages(
+    due: DueReminder[],
+    calendar: SeasonsStarsCalendar,
+    engine: CalendarEngine,
+    gmIds: string[]
+  ): ReminderMessage[] {
+    const speaker = { alias: 'Seasons & Stars' };
+    const describe = (entry: DueReminder) =>
+      `${this.escapeHtml(DateFormatter.formatNamed(entry.occurrenceDate, calendar, 'widgetLong', engine))} (${this.describeTiming(entry.reminder.timing)})`;
+    const audience = (entry: DueReminder) =>
+      entry.reminder.delivery === 'chat'
+        ? []
+        : entry.reminder.recipients?.length
+          ? [...entry.reminder.recipients].sort()
+          : gmIds;
+
+    if (due.length <= REMINDER_CATCH_UP_LIMIT) {
+      return due.map(entry => ({
+        content: `<div class="seasons-stars-reminder"><h3>${this.escapeHtml(entry.note.name)}</h3><p>${describe(entry)}</p></div>`,
+        whisper: audience(entry),
+        speaker,
+      }));
+    }
+
+    const groups = new Map<string, DueReminder[]>();
+    for (const entry of due) {
+      const key = audience(entry).join(',');
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    return [...groups.entries()].map(([key, entries]) => {
+      const items = entries
+        .slice(0, CATCH_UP_LIST_LIMIT)
+        .map(
+          entry =>
+            `<li><strong>${this.escapeHtml(entry.note.name)}</strong>: ${describe(entry)}</li>`
+        );
+      if (entries.length > CATCH_UP_LIST_LIMIT) {
+        items.push(`<li>…and ${entries.length - CATCH_UP_LIST_LIMIT} more</li>`);
+      }
+
+      return {
+        content: `<div class="seasons-stars-reminder catch-up"><h3>${entries.length} reminders while time passed</h3><ul>${items.join('')}</ul></div>`,
+        whisper: key ? key.split(',') : [],
+        speaker,
+      };
+    });
+  }
+
+  /**
+   * Read reminder timings such as "at the start", "1 day before" or "at 18:00, 2 days
+   * before", separated by commas or semicolons
+   *
+   * Times of day must exist on the calendar's clock.
+   */
+  static parseTimings(text: string, calendar: SeasonsStarsCalendar): ReminderTiming[] {
+    const parts: string[] = [];
+    for (const part of text.split(/[,;]/).map(entry => entry.trim().toLowerCase())) {
+      if (!part) continue;
+
+      // "at 18:00, 2 days before" is one reminder
+      const previous = parts[parts.length - 1];
+      if (/^\d+\s+days?\s+before$/.test(part) && /^(at\s+)?\d{1,2}:\d{2}$/.test(previous || '')) {
+        parts[parts.length - 1] = `${previous} ${part}`;
+      } else {
+        parts.push(part);
+      }
+    }
+
+    const timings = parts.map((part): ReminderTiming => {
+      if (/^(at\s+)?(the\s+)?start$/.test(part)) return { type: 'start' };
+
+      const before = part.match(new RegExp(`^(\\d+)\\s+${UNIT_PATTERN}\\s+before$`));
+      if (before) {
+        const unit = (before[2].endsWith('s') ? before[2] : `${before[2]}s`) as ReminderUnit;
+        return { type: 'before', amount: Number(before[1]), unit };
+      }
+
+      const atTime = part.match(
+        /^(?:at\s+)?(\d{1,2}):(\d{2})(?:\s+on\s+the\s+day|\s+(\d+)\s+days?\s+before)?$/
+      );
+      if (atTime) {
+        const daysBefore = Number(atTime[3] || 0);
+        return {
+          type: 'timeOfDay',
+          hour: Number(atTime[1]),
+          minute: Number(atTime[2]),
+          ...(daysBefore > 0 && { daysBefore }),
+        };
+      }
+
+      throw new Error(`Unknown reminder: ${part}`);
+    });
+
+    timings.forEach(timing => this.validateTiming(timing, calendar));
+    return timings;
+  }
+
+  /**
+   * Check that a timing can fire on the calendar, throwing an error that says why not
+   */
+  static validateTiming(timing: ReminderTiming, calendar: SeasonsStarsCalendar): void {
+    const { hoursInDay, minutesInHour } = calendar.time;
+    const isCount = (value: number): boolean => Number.isInteger(value) && value >= 0;
+
+    switch (timing.type) {
+      case 'before':
+        if (!isCount(timing.amount)) {
+          throw new Error(
+            `Reminder lead time must be a whole number of zero or more: ${timing.amount}`
+          );
+        }
+        break;
+      case 'timeOfDay': {
+        const time = `${timing.hour}:${String(timing.minute).padStart(2, '0')}`;
+        if (!isCount(timing.hour) || timing.hour >= hoursInDay) {
+          throw new Error(`Reminder hour must be between 0 and ${hoursInDay - 1}: ${time}`);
+        }
+        if (!isCount(timing.minute) || timing.minute >= minutesInHour) {
+          throw new Error(`Reminder minute must be between 0 and ${minutesInHour - 1}: ${time}`);
+        }
+        if (timing.daysBefore !== undefined && !isCount(timing.daysBefore)) {
+          throw new Error(
+            `Reminder days before must be a whole number of zero or more: ${timing.daysBefore}`
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Describe a timing in the words parseTimings reads
+   */
+  static describeTiming(timing: ReminderTiming): string {
+    switch (timing.type) {
+      case 'start':
+        return 'at the start';
+      case 'before': {
+        const unit = timing.amount === 1 ? timing.unit.slice(0, -1) : timing.unit;
+        return `${timing.amount} ${unit} before`;
+      }
+      case 'timeOfDay': {
+        const time = `${timing.hour}:${String(timing.minute).padStart(2, '0')}`;
+        if (!timing.daysBefore) return `at ${time} on the day`;
+        return `at ${time}, ${timing.daysBefore} day${timing.daysBefore === 1 ? '' : 's'} before`;
+      }
+    }
+  }
+
+  /**
+   * Seconds from the start of the note's day to the trigger; negative for the day before
+   */
+  private static getOffset(
+    timing: ReminderTiming,
+    startTime: ICalendarDate['time'],
+    engine: CalendarEngine
+  ): number {
+    const calendar = engine.getCalendar();
+    const { minutesInHour, secondsInMinute } = calendar.time;
+    const secondsPerHour = minutesInHour * secondsInMinute;
+    const secondsPerDay = CalendarTimeUtils.getSecondsPerDay(calendar);
+    const start = startTime
+      ? startTime.hour * secondsPerHour + startTime.minute * secondsInMinute + startTime.second
+      : 0;
+
+    switch (timing.type) {
+      case 'start':
+        return start;
+      case 'before': {
+        const unitSeconds = {
+          minutes: secondsInMinute,
+          hours: secondsPerHour,
+          days: secondsPerDay,
+          weeks: secondsPerDay * CalendarTimeUtils.getDaysPerWeek(calendar),
+        }[timing.unit];
+        return start - timing.amount * unitSeconds;
+      }
+      case 'timeOfDay':
+        return (
+          timing.hour * secondsPerHour +
+          timing.minute * secondsInMinute -
+          (timing.daysBefore || 0) * secondsPerDay
+        );
+    }
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -4,16 +4,24 @@
 
 import type { CalendarDate as ICalendarDate } from '../types/calendar';
 import { NotePerformanceOptimizer } from './note-performance-optimizer';
+import { NoteRecurrence } from './note-recurring';
+import { CalendarTimeUtils } from './calendar-time-utils';
 import { Logger } from './logger';
 
 /**
  * High-performance storage system with date-based indexing
+ *
+ * Recurring notes are stored once, on their start date, and expanded into the dates they
+ * occur on when queried. An occurrence that was edited on its own is a separate journal
+ * (an override) that replaces the expanded occurrence on its date.
  */
 export class NoteStorage {
   private dateIndex: Map<string, Set<string>> = new Map();
   private noteCache: Map<string, JournalEntry> = new Map();
   private cacheSize = 100; // Limit cache size to prevent memory issues
   private indexBuilt = false;
+  private recurringNoteIds: Set<string> = new Set();
+  private occurrenceOverrides: Map<string, string> = new Map(); // "parentId|dateKey" -> note ID
   private performanceOptimizer!: NotePerformanceOptimizer;
 
   /**
@@ -38,8 +46,9 @@ export class NoteStorage {
       this.initialize();
     }
 
-    const dateKey = this.getDateKey(date);
+    const dateKey = CalendarTimeUtils.formatDateKey(date);
     this.addToDateIndex(dateKey, note.id);
+    this.indexRecurrence(note);
 
     // Add to cache
     this.addToCache(note.id, note);
@@ -56,6 +65,14 @@ export class NoteStorage {
       }
     }
 
+    // Remove from recurrence indices
+    this.recurringNoteIds.delete(noteId);
+    for (const [overrideKey, overrideId] of this.occurrenceOverrides.entries()) {
+      if (overrideId === noteId) {
+        this.occurrenceOverrides.delete(overrideKey);
+      }
+    }
+
     // Remove from cache
     this.noteCache.delete(noteId);
   }
@@ -68,13 +85,13 @@ export class NoteStorage {
       this.initialize();
     }
 
-    const dateKey = this.getDateKey(date);
+    const dateKey = CalendarTimeUtils.formatDateKey(date);
     const noteIds = this.dateIndex.get(dateKey) || new Set();
 
     const notes: JournalEntry[] = [];
     for (const noteId of noteIds) {
       const note = this.getFromCache(noteId) || game.journal?.get(noteId);
-      if (note && this.isCalendarNote(note)) {
+      if (note && this.isCalendarNote(note) && !this.isOverridden(noteId, dateKey)) {
         notes.push(note);
         // Add to cache if retrieved from game
         if (!this.noteCache.has(noteId)) {
@@ -83,6 +100,7 @@ export class NoteStorage {
       }
     }
 
+    notes.push(...this.findRecurringNotesOn(date));
     return this.sortNotesByCreation(notes);
   }
 
@@ -94,13 +112,13 @@ export class NoteStorage {
       this.initialize();
     }
 
-    const dateKey = this.getDateKey(date);
+    const dateKey = CalendarTimeUtils.formatDateKey(date);
     const noteIds = this.dateIndex.get(dateKey) || new Set();
 
     const notes: JournalEntry[] = [];
     for (const noteId of noteIds) {
       const note = this.getFromCache(noteId) || game.journal?.get(noteId);
-      if (note && this.isCalendarNote(note)) {
+      if (note && this.isCalendarNote(note) && !this.isOverridden(noteId, dateKey)) {
         notes.push(note);
         // Add to cache if retrieved from game
         if (!this.noteCache.has(noteId)) {
@@ -109,6 +127,7 @@ export class NoteStorage {
       }
     }
 
+    notes.push(...this.findRecurringNotesOn(date));
     return this.sortNotesByCreation(notes);
   }
 
@@ -124,8 +143,8 @@ export class NoteStorage {
     const noteIds = new Set<string>();
 
     // Iterate through date range and collect note IDs
-    const startKey = this.getDateKey(start);
-    const endKey = this.getDateKey(end);
+    const startKey = CalendarTimeUtils.formatDateKey(start);
+    const endKey = CalendarTimeUtils.formatDateKey(end);
 
     for (const [dateKey, dayNoteIds] of this.dateIndex.entries()) {
       if (dateKey >= startKey && dateKey <= endKey) {
@@ -155,9 +174,29 @@ export class NoteStorage {
       }
     }
 
+    for (const note of this.findRecurringNotesInRange(start, end)) {
+      if (!notes.includes(note)) {
+        notes.push(note);
+      }
+    }
+
     return this.sortNotesByDate(notes);
   }
 
+  /**
+   * Find the journal that overrides one occurrence of a recurring note, if it has been edited
+   */
+  findOccurrenceOverride(parentId: string, date: ICalendarDate): JournalEntry | null {
+    if (!this.indexBuilt) {
+      this.initialize();
+    }
+
+    const overrideId = this.occurrenceOverrides.get(
+      `${parentId}|${CalendarTimeUtils.formatDateKey(date)}`
+    );
+    return (overrideId && game.journal?.get(overrideId)) || null;
+  }
+
   /**
    * Rebuild the date index (call when notes are created/updated outside storage)
    *
@@ -168,7 +207,6 @@ export class NoteStorage {
    */
   rebuildIndex(): void {
     Logger.debug('Rebuilding note storage index');
-    this.dateIndex.clear();
     this.buildDateIndex();
     Logger.debug(`Index rebuilt with ${this.dateIndex.size} date entries`);
   }
@@ -232,6 +270,8 @@ export class NoteStorage {
    */
   private buildDateIndex(): void {
     this.dateIndex.clear();
+    this.recurringNoteIds.clear();
+    this.occurrenceOverrides.clear();
 
     if (!game.journal) {
       Logger.warn('Game journal not available for indexing');
@@ -251,6 +291,7 @@ export class NoteStorage {
           this.addToDateIndex(dateKey, journal.id);
           indexedCount++;
         }
+        this.indexRecurrence(journal);
       }
     });
 
@@ -258,13 +299,81 @@ export class NoteStorage {
   }
 
   /**
-   * Generate a date key for indexing (YYYY-MM-DD format)
+   * Track recurring notes and the occurrences that override them
    */
-  private getDateKey(date: ICalendarDate): string {
-    const year = date.year.toString().padStart(4, '0');
-    const month = date.month.toString().padStart(2, '0');
-    const day = date.day.toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  private indexRecurrence(note: JournalEntry): void {
+    const flags = note.flags?.['seasons-and-stars'];
+    if (flags?.isRecurringParent && flags.recurring) {
+      this.recurringNoteIds.add(note.id);
+    }
+
+    // Occurrences generated before overrides existed only have their start date
+    const occurrenceDate = flags?.occurrenceDate || flags?.startDate;
+    if (flags?.recurringParentId && occurrenceDate) {
+      const overrideKey = `${flags.recurringParentId}|${CalendarTimeUtils.formatDateKey(occurrenceDate)}`;
+      this.occurrenceOverrides.set(overrideKey, note.id);
+    }
+  }
+
+  /**
+   * Get the recurring notes with an occurrence on a date, other than on their start date
+   */
+  private findRecurringNotesOn(date: ICalendarDate): JournalEntry[] {
+    const engine = game.seasonsStars?.manager?.getActiveEngine();
+    if (!engine || this.recurringNoteIds.size === 0) return [];
+
+    const dateKey = CalendarTimeUtils.formatDateKey(date);
+    return this.getRecurringNotes().filter(note => {
+      const flags = note.flags['seasons-and-stars'];
+      if (flags.dateKey === dateKey || this.isOverridden(note.id, dateKey)) {
+        return false;
+      }
+      return NoteRecurrence.occursOn(date, flags.recurring, flags.startDate, engine);
+    });
+  }
+
+  /**
+   * Get the recurring notes with an occurrence in a date range, other than on their start date
+   */
+  private findRecurringNotesInRange(start: ICalendarDate, end: ICalendarDate): JournalEntry[] {
+    const engine = game.seasonsStars?.manager?.getActiveEngine();
+    if (!engine || this.recurringNoteIds.size === 0) return [];
+
+    return this.getRecurringNotes().filter(note => {
+      const flags = note.flags['seasons-and-stars'];
+      return NoteRecurrence.getOccurrenceDates(
+        flags.startDate,
+        flags.recurring,
+        start,
+        end,
+        engine
+      ).some(date => {
+        const dateKey = CalendarTimeUtils.formatDateKey(date);
+        return dateKey !== flags.dateKey && !this.isOverridden(note.id, dateKey);
+      });
+    });
+  }
+
+  /**
+   * Check whether the occurrence of a recurring note on a date has been replaced by an override
+   */
+  private isOverridden(noteId: string, dateKey: string): boolean {
+    return this.occurrenceOverrides.has(`${noteId}|${dateKey}`);
+  }
+
+  /**
+   * Get the indexed recurring notes that still exist
+   */
+  private getRecurringNotes(): JournalEntry[] {
+    const notes: JournalEntry[] = [];
+    for (const noteId of this.recurringNoteIds) {
+      const note = this.getFromCache(noteId) || game.journal?.get(noteId);
+      const flags = note?.flags?.['seasons-and-stars'];
+      if (note && flags?.recurring && flags.startDate) {
+        notes.push(note);
+      }
+    }
+    return notes;
   }
 
   /**
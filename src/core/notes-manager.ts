@@ -4,12 +4,46 @@
 
 import type { CalendarDate as ICalendarDate } from '../types/calendar';
 import { CalendarDate } from './calendar-date';
+import { CalendarTimeUtils } from './calendar-time-utils';
 import { NoteStorage } from './note-storage';
 import { notePermissions } from './note-permissions';
 import { NoteRecurrence, type RecurringPattern } from './note-recurring';
 import { NoteSearch, type NoteSearchCriteria, type NoteSearchResult } from './note-search';
+import { NoteIcsExport, type IcsDateProxy, type IcsExportOptions } from './note-ics-export';
+import {
+  NoteImport,
+  type ImportCandidate,
+  type NoteImportReport,
+  type NoteImportSource,
+} from './note-import';
+import {
+  NoteReminders,
+  REMINDER_CATCH_UP_LIMIT,
+  type DueReminder,
+  type NoteReminder,
+} from './note-reminders';
 import { Logger } from './logger';
 
+// Flags older versions set on the occurrences they generated
+const GENERATED_OCCURRENCE_FLAGS = new Set([
+  'calendarNote',
+  'version',
+  'dateKey',
+  'startDate',
+  'endDate',
+  'allDay',
+  'calendarId',
+  'category',
+  'tags',
+  'recurringParentId',
+  'isRecurringParent',
+  'created',
+  'modified',
+]);
+
+// Time (ms) between creating a generated occurrence and its last save that still counts as untouched
+const GENERATION_WINDOW_MS = 1000;
+
 export interface CreateNoteData {
   title: string;
   content: string;
@@ -21,6 +55,7 @@ export interface CreateNoteData {
   tags?: string[];
   playerVisible: boolean;
   recurring?: RecurringPattern;
+  reminders?: NoteReminder[];
 }
 
 export interface UpdateNoteData {
@@ -32,7 +67,8 @@ export interface UpdateNoteData {
   category?: string;
   tags?: string[];
   playerVisible?: boolean;
-  recurring?: RecurringPattern;
+  recurring?: RecurringPattern | null; // null stops the note repeating
+  reminders?: NoteReminder[];
 }
 
 export interface CalendarNoteFlags {
@@ -48,7 +84,9 @@ export interface CalendarNoteFlags {
     tags?: string[];
     recurring?: RecurringPattern; // Recurring pattern if applicable
     isRecurringParent?: boolean; // True if this is the master recurring note
-    recurringParentId?: string; // ID of parent note for generated occurrences
+    recurringParentId?: string; // ID of parent note for an edited occurrence
+    occurrenceDate?: ICalendarDate; // Date of the occurrence an edited occurrence replaces
+    reminders?: NoteReminder[]; // Fired as world time passes them
     created: number; // timestamp
     modified: number; // timestamp
   };
@@ -88,6 +126,14 @@ export class NotesManager {
     // Initialize notes folder
     await this.initializeNotesFolder();
 
+    // Only GMs can delete the occurrences older versions generated; asking them must not
+    // hold up the rest of initialization
+    if (game.user?.isGM) {
+      this.migrateGeneratedOccurrences().catch(error =>
+        Logger.error('Failed to collapse generated recurring occurrences', error as Error)
+      );
+    }
+
     // Check if we have a large collection and optimize accordingly
     const noteCount = this.getAllCalendarNotes().length;
     if (noteCount > 500) {
@@ -112,6 +158,9 @@ export class NotesManager {
     if (!activeCalendar) {
       throw new Error('No active calendar available');
     }
+    data.reminders?.forEach(reminder =>
+      NoteReminders.validateTiming(reminder.timing, activeCalendar)
+    );
 
     // Create the journal entry
     const journal = await JournalEntry.create({
@@ -122,7 +171,7 @@ export class NotesManager {
         'seasons-and-stars': {
           calendarNote: true,
           version: '1.0',
-          dateKey: this.formatDateKey(data.startDate),
+          dateKey: CalendarTimeUtils.formatDateKey(data.startDate),
           startDate: data.startDate,
           endDate: data.endDate,
           allDay: data.allDay,
@@ -131,6 +180,7 @@ export class NotesManager {
           tags: data.tags || [],
           recurring: data.recurring,
           isRecurringParent: !!data.recurring,
+          reminders: data.reminders || [],
           created: Date.now(),
           modified: Date.now(),
         },
@@ -150,14 +200,9 @@ export class NotesManager {
       },
     ]);
 
-    // Add to storage system
+    // Add to storage system; recurring notes are expanded into occurrences when queried
     await this.storage.storeNote(journal, data.startDate);
 
-    // Handle recurring notes - generate initial occurrences
-    if (data.recurring) {
-      await this.generateRecurringOccurrences(journal, data.recurring, data.startDate);
-    }
-
     // Emit hook for note creation
     Hooks.callAll('seasons-stars:noteCreated', journal);
 
@@ -195,12 +240,26 @@ export class NotesManager {
 
     if (data.startDate !== undefined) {
       flagUpdates.startDate = data.startDate;
-      flagUpdates.dateKey = this.formatDateKey(data.startDate);
+      flagUpdates.dateKey = CalendarTimeUtils.formatDateKey(data.startDate);
     }
     if (data.endDate !== undefined) flagUpdates.endDate = data.endDate;
     if (data.allDay !== undefined) flagUpdates.allDay = data.allDay;
     if (data.category !== undefined) flagUpdates.category = data.category;
     if (data.tags !== undefined) flagUpdates.tags = data.tags;
+    if (data.reminders !== undefined) {
+      const activeCalendar = game.seasonsStars?.manager?.getActiveCalendar();
+      if (!activeCalendar) {
+        throw new Error('No active calendar available');
+      }
+      data.reminders.forEach(reminder =>
+        NoteReminders.validateTiming(reminder.timing, activeCalendar)
+      );
+      flagUpdates.reminders = data.reminders;
+    }
+    if (data.recurring !== undefined) {
+      flagUpdates.recurring = data.recurring;
+      flagUpdates.isRecurringParent = !!data.recurring;
+    }
 
     updateData['flags.seasons-and-stars'] = flagUpdates;
 
@@ -213,6 +272,11 @@ export class NotesManager {
 
     await journal.update(updateData);
 
+    // Recurring notes are expanded from the storage index
+    if (data.recurring !== undefined) {
+      await this.storage.storeNote(journal, journal.flags['seasons-and-stars'].startDate);
+    }
+
     // Update content if provided
     if (data.content !== undefined) {
       const pages = journal.pages;
@@ -365,13 +429,15 @@ export class NotesManager {
   }
 
   /**
-   * Format a date as a key for storage (YYYY-MM-DD format, 1-based)
+   * Format a date for note titles using the active calendar's noteTitle format
    */
-  private formatDateKey(date: ICalendarDate): string {
-    const year = date.year.toString().padStart(4, '0');
-    const month = date.month.toString().padStart(2, '0');
-    const day = date.day.toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  private formatNoteTitleDate(date: ICalendarDate): string {
+    const manager = game.seasonsStars?.manager;
+    const activeCalendar = manager?.getActiveCalendar();
+    if (!activeCalendar) return CalendarTimeUtils.formatDateKey(date);
+
+    const engine = manager?.getActiveEngine() || undefined;
+    return new CalendarDate(date, activeCalendar, engine).formatNamed('noteTitle');
   }
 
   /**
@@ -562,50 +628,256 @@ export class NotesManager {
   }
 
   /**
-   * Generate recurring occurrences for a note
+   * Export the notes matching a search as an iCalendar (.ics) file
+   *
+   * Without a proxy the current game date is exported on today's real date. Pass a fixed
+   * proxy when the file is published, so events keep their real dates as game time passes.
    */
-  private async generateRecurringOccurrences(
-    parentNote: JournalEntry,
-    pattern: RecurringPattern,
-    startDate: ICalendarDate
+  async exportNotesToIcs(
+    criteria: NoteSearchCriteria = {},
+    options: Partial<IcsExportOptions> = {}
+  ): Promise<string> {
+    const manager = game.seasonsStars?.manager;
+    const calendar = manager?.getActiveCalendar();
+    const engine = manager?.getActiveEngine();
+    if (!calendar || !engine) {
+      throw new Error('No active calendar to export notes from');
+    }
+
+    const proxy = options.proxy || this.getDefaultIcsProxy();
+
+    const result = await this.searchNotes({
+      sortBy: 'date',
+      sortOrder: 'asc',
+      ...criteria,
+      limit: criteria.limit ?? Number.MAX_SAFE_INTEGER,
+    });
+
+    return NoteIcsExport.exportNotes(result.notes, calendar, engine, {
+      rangeStart: criteria.dateFrom,
+      rangeEnd: criteria.dateTo,
+      ...options,
+      proxy,
+    });
+  }
+
+  /**
+   * Export the notes matching a search and save them as an .ics download
+   */
+  async downloadNotesAsIcs(
+    criteria: NoteSearchCriteria = {},
+    options: Partial<IcsExportOptions> = {},
+    filename: string = 'seasons-and-stars.ics'
   ): Promise<void> {
-    const engine = game.seasonsStars?.manager?.getActiveEngine();
-    if (!engine) {
-      Logger.warn('No calendar engine available for recurring note generation');
-      return;
+    const data = await this.exportNotesToIcs(criteria, options);
+    foundry.utils.saveDataToFile(data, 'text/calendar', filename);
+    Logger.info(`Exported calendar notes to ${filename}`);
+  }
+
+  /**
+   * Import notes from Simple Calendar or an iCalendar file
+   *
+   * Runs as a dry run unless `dryRun: false` is passed: the report lists the notes that would
+   * be created, the conflicts and unmapped dates that would be skipped and the categories that
+   * would be added. Without a proxy, .ics dates are read as in `exportNotesToIcs`.
+   */
+  async importNotes(
+    source: NoteImportSource,
+    options: { dryRun?: boolean } = {}
+  ): Promise<NoteImportReport> {
+    if (!this.initialized) {
+      throw new Error('NotesManager not initialized');
+    }
+    if (!this.canCreateNote()) {
+      throw new Error('Only game masters can import notes');
+    }
+
+    const manager = game.seasonsStars?.manager;
+    const calendar = manager?.getActiveCalendar();
+    const engine = manager?.getActiveEngine();
+    if (!calendar || !engine) {
+      throw new Error('No active calendar to import notes into');
+    }
+
+    let candidates: ImportCandidate[];
+    switch (source.type) {
+      case 'simple-calendar-journals':
+        candidates = NoteImport.readSimpleCalendarNotes(
+          game.journal.filter(
+            journal =>
+              !!journal.flags?.['foundryvtt-simple-calendar']?.noteData &&
+              !journal.flags?.['seasons-and-stars']?.calendarNote
+          ),
+          this.getSimpleCalendarCategories(),
+          calendar,
+          engine
+        );
+        break;
+      case 'simple-calendar-json':
+        candidates = NoteImport.readSimpleCalendarExport(source.data, calendar, engine);
+        break;
+      case 'ics':
+        candidates = NoteImport.readIcs(
+          source.data,
+          calendar,
+          engine,
+          source.proxy || this.getDefaultIcsProxy()
+        );
+        break;
+      default:
+        throw new Error(`Unknown import source: ${(source as { type: string }).type}`);
+    }
+
+    const categories = game.seasonsStars?.categories;
+    const report = NoteImport.planImport(
+      candidates,
+      categories?.getCategories() || [],
+      date => this.storage.findNotesByDateSync(date),
+      options.dryRun !== false
+    );
+
+    const summary = `${report.notes.length} notes, ${report.conflicts.length} conflicts, ${report.unmapped.length} unmapped dates`;
+    if (report.dryRun) {
+      Logger.info(`Import dry run (${source.type}): ${summary}`);
+      return report;
+    }
+
+    for (const category of report.newCategories) {
+      await categories?.addCategory(category);
+    }
+    for (const note of report.notes) {
+      const journal = await this.createNote(note.data);
+      report.created.push(journal.id);
     }
 
-    // Generate occurrences for next 2 years to start
+    Logger.info(`Imported notes (${source.type}): ${summary}`);
+    return report;
+  }
+
+  /**
+   * Line the current game date up with today, for .ics files without a proxy
+   */
+  private getDefaultIcsProxy(): IcsDateProxy {
     const currentDate = game.seasonsStars?.manager?.getCurrentDate();
-    if (!currentDate) return;
-
-    const rangeStart = currentDate.toObject();
-    const rangeEnd: ICalendarDate = {
-      year: rangeStart.year + 2,
-      month: rangeStart.month,
-      day: rangeStart.day,
-      weekday: rangeStart.weekday,
-      time: rangeStart.time,
+    if (!currentDate) {
+      throw new Error('No current date to line real dates up with');
+    }
+
+    const today = new Date();
+    return {
+      gameDate: currentDate.toObject(),
+      realDate: [today.getFullYear(), today.getMonth() + 1, today.getDate()]
+        .map((value, index) => String(value).padStart(index === 0 ? 4 : 2, '0'))
+        .join('-'),
     };
+  }
 
-    const occurrences = NoteRecurrence.generateOccurrences(
-      startDate,
-      pattern,
-      rangeStart,
-      rangeEnd,
-      engine
+  /**
+   * Simple Calendar's note categories, when Simple Calendar is still installed
+   */
+  private getSimpleCalendarCategories(): { id?: string; name: string }[] {
+    try {
+      const calendars = game.settings.get('foundryvtt-simple-calendar', 'calendar-configuration');
+      return (Array.isArray(calendars) ? calendars : []).flatMap(
+        (calendar: any) => calendar?.noteCategories || []
+      );
+    } catch {
+      // Category IDs are kept as they are
+      return [];
+    }
+  }
+
+  /**
+   * Fire the reminders that world time passed on its way from fromTime to toTime
+   *
+   * Every client fires the `seasons-stars:noteReminder` hook; one GM posts the chat messages.
+   */
+  async checkReminders(fromTime: number, toTime: number): Promise<DueReminder[]> {
+    const manager = game.seasonsStars?.manager;
+    const engine = manager?.getActiveEngine();
+    if (!this.initialized || !engine || toTime <= fromTime) return [];
+
+    const due = NoteReminders.findDueReminders(
+      this.getAllCalendarNotes(),
+      fromTime,
+      toTime,
+      engine,
+      (noteId, date) => !!this.storage.findOccurrenceOverride(noteId, date)
     );
+    if (due.length === 0) return due;
 
-    Logger.info(`Generating ${occurrences.length} recurring occurrences`);
+    const catchUp = due.length > REMINDER_CATCH_UP_LIMIT;
+    for (const reminder of due) {
+      Hooks.callAll('seasons-stars:noteReminder', { ...reminder, catchUp });
+    }
 
-    // Create notes for each occurrence (except exceptions)
-    for (const occurrence of occurrences) {
-      if (occurrence.isException || occurrence.index === 0) {
-        continue; // Skip exceptions and the original note
+    // The active GM with the lowest ID posts, so each message appears once
+    const gms = game.users.filter(user => user.isGM);
+    const poster = gms
+      .filter(user => user.active)
+      .map(user => user.id)
+      .sort()[0];
+    if (poster === game.user?.id) {
+      const messages = NoteReminders.buildMessages(
+        due,
+        manager.getActiveCalendar(),
+        engine,
+        gms.map(user => user.id)
+      );
+      for (const message of messages) {
+        await ChatMessage.create(message);
       }
+    }
+
+    Logger.debug(`Fired ${due.length} note reminders${catchUp ? ' (catch-up)' : ''}`);
+    return due;
+  }
+
+  /**
+   * Get the journal for one occurrence of a recurring note, creating it if needed
+   *
+   * Occurrences are virtual until edited or annotated on their own; the journal created here
+   * replaces the occurrence on that date. Use `updateNote`/`setNoteModuleData` on it afterwards.
+   */
+  async getOrCreateOccurrence(
+    parentNoteId: string,
+    occurrenceDate: ICalendarDate
+  ): Promise<JournalEntry> {
+    const parentNote = game.journal?.get(parentNoteId);
+    const parentFlags = parentNote?.flags?.['seasons-and-stars'];
+    if (!parentNote || !parentFlags?.isRecurringParent || !parentFlags.recurring) {
+      throw new Error(`Recurring note ${parentNoteId} not found`);
+    }
 
-      await this.createRecurringOccurrence(parentNote, occurrence.date);
+    if (!notePermissions.canEditNote(game.user!, parentNote)) {
+      throw new Error('Insufficient permissions to edit recurring note');
     }
+
+    const existing = this.storage.findOccurrenceOverride(parentNoteId, occurrenceDate);
+    if (existing) return existing;
+
+    const engine = game.seasonsStars?.manager?.getActiveEngine();
+    if (!engine) {
+      throw new Error('No calendar engine available for recurring notes');
+    }
+
+    const isStartDate = this.compareDates(occurrenceDate, parentFlags.startDate) === 0;
+    if (
+      !isStartDate &&
+      !NoteRecurrence.occursOn(occurrenceDate, parentFlags.recurring, parentFlags.startDate, engine)
+    ) {
+      throw new Error(
+        `${parentNote.name} does not occur on ${this.formatNoteTitleDate(occurrenceDate)}`
+      );
+    }
+
+    const journal = await this.createRecurringOccurrence(parentNote, occurrenceDate);
+    Hooks.callAll('seasons-stars:noteCreated', journal);
+
+    Logger.info(
+      `Created occurrence of ${parentNote.name} on ${CalendarTimeUtils.formatDateKey(occurrenceDate)}`
+    );
+    return journal;
   }
 
   /**
@@ -621,21 +893,23 @@ export class NotesManager {
 
     // Create the occurrence note
     const journal = await JournalEntry.create({
-      name: `${parentNote.name} (${this.formatDateKey(occurrenceDate)})`,
+      name: `${parentNote.name} (${this.formatNoteTitleDate(occurrenceDate)})`,
       folder: noteFolder.id,
       ownership: parentNote.ownership,
       flags: {
         'seasons-and-stars': {
           calendarNote: true,
           version: '1.0',
-          dateKey: this.formatDateKey(occurrenceDate),
+          dateKey: CalendarTimeUtils.formatDateKey(occurrenceDate),
           startDate: occurrenceDate,
           endDate: parentFlags.endDate,
           allDay: parentFlags.allDay,
           calendarId: parentFlags.calendarId,
           category: parentFlags.category,
           tags: parentFlags.tags,
+          reminders: parentFlags.reminders,
           recurringParentId: parentNote.id,
+          occurrenceDate,
           isRecurringParent: false,
           created: Date.now(),
           modified: Date.now(),
@@ -663,7 +937,114 @@ export class NotesManager {
   }
 
   /**
-   * Get all recurring occurrences for a parent note
+   * Collapse occurrences generated by older versions back into their recurring notes
+   *
+   * Edited occurrences are kept as overrides for their date. The GM is asked before the
+   * untouched ones are deleted, since the recurring note now covers those dates; declined
+   * ones are kept as overrides too. Returns the number of journals deleted.
+   */
+  async migrateGeneratedOccurrences(): Promise<number> {
+    const unchanged: JournalEntry[] = [];
+    const edited: JournalEntry[] = [];
+
+    for (const journal of this.getAllCalendarNotes()) {
+      const flags = journal.flags['seasons-and-stars'];
+      if (!flags.recurringParentId || flags.occurrenceDate) continue;
+
+      // Orphaned occurrences are left for cleanupOrphanedData to report
+      const parentNote = game.journal?.get(flags.recurringParentId);
+      if (!parentNote) continue;
+
+      if (this.isUnchangedOccurrence(journal, parentNote)) {
+        unchanged.push(journal);
+      } else {
+        edited.push(journal);
+      }
+    }
+
+    if (unchanged.length > 0 && !(await this.confirmOccurrenceCleanup(unchanged.length))) {
+      edited.push(...unchanged.splice(0));
+    }
+
+    for (const journal of edited) {
+      const startDate = journal.flags['seasons-and-stars'].startDate;
+      await journal.setFlag('seasons-and-stars', 'occurrenceDate', startDate);
+    }
+
+    if (unchanged.length > 0) {
+      const ids = unchanged.map(journal => journal.id);
+      for (const noteId of ids) {
+        await this.storage.removeNote(noteId);
+      }
+      await JournalEntry.deleteDocuments(ids);
+      ui.notifications?.info(
+        `Seasons & Stars: Removed ${unchanged.length} unedited recurring note copies; their recurring notes now show those dates.`
+      );
+    }
+
+    if (unchanged.length > 0 || edited.length > 0) {
+      this.storage.rebuildIndex();
+      Logger.info(
+        `Collapsed ${unchanged.length} generated recurring occurrences (${edited.length} occurrences kept)`
+      );
+    }
+
+    return unchanged.length;
+  }
+
+  /**
+   * Ask the GM whether unedited generated occurrences may be deleted
+   */
+  private async confirmOccurrenceCleanup(count: number): Promise<boolean> {
+    return foundry.applications.api.DialogV2.confirm({
+      window: { title: 'Seasons & Stars: Recurring Notes' },
+      content: `<p>Recurring notes no longer need a journal for every date. ${count} journal entries copied from recurring notes by an older version were never edited.</p><p>Delete them? Edited copies are kept either way.</p>`,
+      rejectClose: false,
+    });
+  }
+
+  /**
+   * Check whether a generated occurrence was never edited or annotated
+   *
+   * Edits made through the note editor update the S&S `modified` flag, while edits in
+   * Foundry's journal sheet only show in the documents' `_stats`. Without stats, the name
+   * and content are compared against what generation produced.
+   */
+  private isUnchangedOccurrence(occurrence: JournalEntry, parentNote: JournalEntry): boolean {
+    const flags = occurrence.flags['seasons-and-stars'];
+    const extraFlags = Object.keys(flags).filter(key => !GENERATED_OCCURRENCE_FLAGS.has(key));
+    const otherModuleFlags = Object.keys(occurrence.flags).filter(
+      scope => scope !== 'seasons-and-stars'
+    );
+
+    // Generation stamped created and modified together; note editor saves update modified
+    if (
+      extraFlags.length > 0 ||
+      otherModuleFlags.length > 0 ||
+      Math.abs((flags.modified || 0) - (flags.created || 0)) >= GENERATION_WINDOW_MS
+    ) {
+      return false;
+    }
+
+    const documents = [occurrence, ...occurrence.pages.values()];
+    if (
+      documents.every(document => document._stats?.createdTime && document._stats?.modifiedTime)
+    ) {
+      return documents.every(
+        document =>
+          (document._stats?.modifiedTime ?? 0) - (document._stats?.createdTime ?? 0) <
+          GENERATION_WINDOW_MS
+      );
+    }
+
+    const content = occurrence.pages.values().next().value?.text?.content || '';
+    const parentContent = parentNote.pages.values().next().value?.text?.content || '';
+    const generatedName = `${parentNote.name} (${CalendarTimeUtils.formatDateKey(flags.startDate)})`;
+    return occurrence.name === generatedName && content === parentContent;
+  }
+
+  /**
+   * Get the edited occurrences of a recurring note
    */
   getRecurringOccurrences(parentNoteId: string): JournalEntry[] {
     return game.journal.filter(journal => {
@@ -673,7 +1054,7 @@ export class NotesManager {
   }
 
   /**
-   * Delete recurring note and all its occurrences
+   * Delete recurring note and all its edited occurrences
    */
   async deleteRecurringNote(parentNoteId: string): Promise<void> {
     const parentNote = game.journal?.get(parentNoteId);
@@ -718,17 +1099,24 @@ export class NotesManager {
     await parentNote.setFlag('seasons-and-stars', 'recurring', newPattern);
     await parentNote.setFlag('seasons-and-stars', 'modified', Date.now());
 
-    // Delete existing occurrences
-    const existingOccurrences = this.getRecurringOccurrences(parentNoteId);
-    for (const occurrence of existingOccurrences) {
-      await this.deleteNote(occurrence.id);
-    }
-
-    // Generate new occurrences
+    // Edited occurrences that no longer fall on the pattern are dropped
+    const engine = game.seasonsStars?.manager?.getActiveEngine();
     const startDate = parentNote.flags['seasons-and-stars'].startDate;
-    await this.generateRecurringOccurrences(parentNote, newPattern, startDate);
+    let removed = 0;
+    for (const occurrence of engine ? this.getRecurringOccurrences(parentNoteId) : []) {
+      const flags = occurrence.flags['seasons-and-stars'];
+      const occurrenceDate = flags.occurrenceDate || flags.startDate;
+      const onPattern =
+        this.compareDates(occurrenceDate, startDate) === 0 ||
+        NoteRecurrence.occursOn(occurrenceDate, newPattern, startDate, engine);
+      if (!onPattern) {
+        await this.deleteNote(occurrence.id);
+        removed++;
+      }
+    }
 
-    Logger.info('Updated recurring pattern and regenerated occurrences');
+    Hooks.callAll('seasons-stars:noteUpdated', parentNote);
+    Logger.info(`Updated recurring pattern (${removed} edited occurrences removed)`);
   }
 
   /**
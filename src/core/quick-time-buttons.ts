@@ -28,7 +28,7 @@ export function parseQuickTimeButtons(
         const trimmed = val.trim();
         if (!trimmed) return NaN;
 
-        const match = trimmed.match(/^(-?\d+)([mhdw]?)$/);
+        const match = trimmed.match(/^(-?\d+)(seg|[mhdw]?)$/);
 
         if (!match) {
           Logger.debug(`Invalid quick time button value: "${trimmed}"`);
@@ -53,6 +53,8 @@ export function parseQuickTimeButtons(
           case 'm':
           case '':
             return num; // Default to minutes
+          case 'seg':
+            return NaN; // Segments have no fixed length; see parseQuickTimeSegmentButtons
           default:
             Logger.debug(`Unknown unit in quick time button value: "${trimmed}"`);
             return NaN;
@@ -66,6 +68,23 @@ export function parseQuickTimeButtons(
   }
 }
 
+/**
+ * Parse the `seg` entries of the quick time button setting into segment counts
+ */
+export function parseQuickTimeSegmentButtons(settingValue: string): number[] {
+  if (!settingValue || typeof settingValue !== 'string') {
+    return [];
+  }
+
+  return settingValue
+    .split(',')
+    .map(val => val.trim().match(/^(-?\d+)seg$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1]))
+    .filter(count => Number.isFinite(count) && count !== 0)
+    .sort((a, b) => a - b);
+}
+
 /**
  * Format minute values for button display using calendar-aware units
  */
@@ -137,8 +156,13 @@ export function getQuickTimeButtonsFromSettings(
     // Get appropriate subset for widget type
     const buttons = getQuickTimeButtons(allButtons, isMiniWidget);
 
+    // Segment buttons only apply to calendars that name their time segments
+    const segmentButtons = calendar?.timeSegments?.length
+      ? parseQuickTimeSegmentButtons(settingValue)
+      : [];
+
     // If no valid buttons, fall back to defaults
-    if (buttons.length === 0) {
+    if (buttons.length === 0 && segmentButtons.length === 0) {
       return [
         { amount: 15, unit: 'minutes', label: '15m' },
         { amount: 30, unit: 'minutes', label: '30m' },
@@ -148,11 +172,18 @@ export function getQuickTimeButtonsFromSettings(
     }
 
     // Convert to template format
-    return buttons.map(minutes => ({
-      amount: minutes,
-      unit: 'minutes',
-      label: formatTimeButton(minutes, calendar),
-    }));
+    return [
+      ...buttons.map(minutes => ({
+        amount: minutes,
+        unit: 'minutes',
+        label: formatTimeButton(minutes, calendar),
+      })),
+      ...segmentButtons.map(count => ({
+        amount: count,
+        unit: 'segments',
+        label: `${count}seg`,
+      })),
+    ];
   } catch (error) {
     Logger.error('Error getting quick time buttons from settings', error as Error);
     // Fallback to default
@@ -0,0 +1,74 @@
+/**
+ * Per-scene hemisphere setting, used to flip seasons for southern scenes
+ */
+
+import { Logger } from './logger';
+import type { Hemisphere } from '../types/calendar';
+
+const FLAG_SCOPE = 'seasons-and-stars';
+const FLAG_KEY = 'hemisphere';
+
+/**
+ * The scene configuration sheet passed to the renderSceneConfig hook
+ */
+interface SceneConfigApp {
+  document?: Scene;
+}
+
+/**
+ * Get the hemisphere of a scene (the active scene by default), defaulting to northern
+ */
+export function getSceneHemisphere(scene?: Scene | null): Hemisphere {
+  scene ??= typeof game !== 'undefined' ? game.scenes?.active : undefined;
+  return scene?.getFlag?.(FLAG_SCOPE, FLAG_KEY) === 'southern' ? 'southern' : 'northern';
+}
+
+/**
+ * Register hooks adding the hemisphere choice to the scene configuration sheet
+ */
+export function registerSceneHemisphereHooks(): void {
+  Hooks.on('renderSceneConfig', (app: SceneConfigApp, html: HTMLElement | JQuery) => {
+    addHemisphereField(app, html);
+  });
+
+  Logger.debug('Scene hemisphere hooks registered');
+}
+
+/**
+ * Insert a hemisphere select into the scene configuration form
+ */
+function addHemisphereField(app: SceneConfigApp, html: HTMLElement | JQuery): void {
+  try {
+    const root = 'jquery' in html ? html[0] : html;
+    if (!root?.querySelector || root.querySelector(`[name="flags.${FLAG_SCOPE}.${FLAG_KEY}"]`)) {
+      return;
+    }
+
+    const container =
+      root.querySelector('.tab[data-tab="ambience"]') ||
+      root.querySelector('.tab[data-tab="basics"]') ||
+      root.querySelector('form') ||
+      root;
+    const current = getSceneHemisphere(app.document);
+    const option = (value: Hemisphere) =>
+      `<option value="${value}" ${current === value ? 'selected' : ''}>${game.i18n.localize(`SEASONS_STARS.settings.scene_hemisphere_${value}`)}</option>`;
+
+    container.insertAdjacentHTML(
+      'beforeend',
+      `
+      <div class="form-group">
+        <label>${game.i18n.localize('SEASONS_STARS.settings.scene_hemisphere')}</label>
+        <div class="form-fields">
+          <select name="flags.${FLAG_SCOPE}.${FLAG_KEY}">
+            ${option('northern')}
+            ${option('southern')}
+          </select>
+        </div>
+        <p class="hint">${game.i18n.localize('SEASONS_STARS.settings.scene_hemisphere_hint')}</p>
+      </div>
+    `
+    );
+  } catch (error) {
+    Logger.error('Failed to add hemisphere setting to scene config', error as Error);
+  }
+}
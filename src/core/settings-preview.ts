@@ -3,7 +3,12 @@
  */
 
 import { Logger } from './logger';
-import { parseQuickTimeButtons, formatTimeButton, getQuickTimeButtons } from './quick-time-buttons';
+import {
+  parseQuickTimeButtons,
+  parseQuickTimeSegmentButtons,
+  formatTimeButton,
+  getQuickTimeButtons,
+} from './quick-time-buttons';
 
 // Module-level state (replaces static class properties)
 let previewContainer: HTMLElement | null = null;
@@ -115,7 +120,7 @@ function updatePreview(value: string): void {
     // Parse the input value
     const allButtons = parseQuickTimeButtons(value, calendar);
 
-    if (allButtons.length === 0) {
+    if (allButtons.length === 0 && parseQuickTimeSegmentButtons(value).length === 0) {
       showErrorPreview('No valid time values found');
       return;
     }
@@ -2,12 +2,12 @@
  * Time conversion and Foundry VTT integration for Seasons & Stars
  */
 
-import type { CalendarDate as ICalendarDate } from '../types/calendar';
+import type { CalendarDate as ICalendarDate, DateArithmeticOptions } from '../types/calendar';
 import type { DebugInfo } from '../types/widget-types';
 import { CalendarEngine } from './calendar-engine';
 import { CalendarDate } from './calendar-date';
 import { Logger } from './logger';
-import { TIME_CONSTANTS } from './constants';
+import { getSceneHemisphere } from './scene-hemisphere';
 
 export class TimeConverter {
   private engine: CalendarEngine;
@@ -95,6 +95,8 @@ export class TimeConverter {
       oldTime: newTime - delta,
       newTime: newTime,
       delta: delta,
+      dayOfYear: this.engine.getDayOfYear(this.lastKnownDate),
+      weekOfYear: this.engine.getWeekOfYear(this.lastKnownDate),
     });
   }
 
@@ -104,7 +106,7 @@ export class TimeConverter {
   getCurrentDate(): CalendarDate {
     const worldTime = game.time?.worldTime || 0;
     const dateData = this.engine.worldTimeToDate(worldTime);
-    return new CalendarDate(dateData, this.engine.getCalendar());
+    return new CalendarDate(dateData, this.engine.getCalendar(), this.engine);
   }
 
   /**
@@ -157,6 +159,20 @@ export class TimeConverter {
     }
   }
 
+  /**
+   * Advance time to the start of the named time segment `segments` segments away
+   */
+  async advanceTimeSegments(segments: number, type?: string): Promise<void> {
+    const currentDate = this.getCurrentDate();
+    const deltaSeconds = this.engine.getTimeSegmentOffset(currentDate.toObject(), segments, type);
+
+    if (game.user?.isGM) {
+      await game.time?.advance(deltaSeconds);
+    } else {
+      ui.notifications?.warn('Only GMs can change the world time.');
+    }
+  }
+
   /**
    * Advance time by a number of weeks
    */
@@ -170,19 +186,21 @@ export class TimeConverter {
 
   /**
    * Advance time by a number of months
+   *
+   * `options.overflow` decides where a day past the end of the target month lands.
    */
-  async advanceMonths(months: number): Promise<void> {
+  async advanceMonths(months: number, options: DateArithmeticOptions = {}): Promise<void> {
     const currentDate = this.getCurrentDate();
-    const newDate = this.engine.addMonths(currentDate.toObject(), months);
+    const newDate = this.engine.addMonths(currentDate.toObject(), months, options);
     await this.setCurrentDate(newDate);
   }
 
   /**
    * Advance time by a number of years
    */
-  async advanceYears(years: number): Promise<void> {
+  async advanceYears(years: number, options: DateArithmeticOptions = {}): Promise<void> {
     const currentDate = this.getCurrentDate();
-    const newDate = this.engine.addYears(currentDate.toObject(), years);
+    const newDate = this.engine.addYears(currentDate.toObject(), years, options);
     await this.setCurrentDate(newDate);
   }
 
@@ -221,30 +239,38 @@ export class TimeConverter {
   }
 
   /**
-   * Check if it's currently daytime (between dawn and dusk by default)
+   * Check if it's currently daytime (between the calendar's sunrise and sunset by default)
    */
-  isDaytime(
-    dawnHour: number = TIME_CONSTANTS.DEFAULT_DAWN_HOUR,
-    duskHour: number = TIME_CONSTANTS.DEFAULT_DUSK_HOUR
-  ): boolean {
+  isDaytime(dawnHour?: number, duskHour?: number): boolean {
     const currentDate = this.getCurrentDate();
 
     if (!currentDate.time) {
       return true; // Default to daytime if no time component
     }
 
-    return currentDate.time.hour >= dawnHour && currentDate.time.hour < duskHour;
+    const { sunrise, sunset } = this.engine.getSunriseSunset(currentDate.toObject());
+    const { minutesInHour, secondsInMinute } = this.engine.getCalendar().time;
+    const { hour, minute, second } = currentDate.time;
+    const currentHour = hour + (minute + second / secondsInMinute) / minutesInHour;
+
+    return currentHour >= (dawnHour ?? sunrise) && currentHour < (duskHour ?? sunset);
   }
 
   /**
-   * Get the current season (0-3 for spring, summer, autumn, winter)
-   * This is a simple implementation - can be enhanced later
+   * Get the index of the current season in the calendar's seasons list
+   *
+   * Follows the active scene's hemisphere. Calendars without seasons fall back to
+   * splitting the year into four equal parts.
    */
   getCurrentSeason(): number {
     const currentDate = this.getCurrentDate();
     const calendar = this.engine.getCalendar();
 
-    // Simple approximation: divide year into 4 equal seasons
+    const season = this.engine.getSeason(currentDate.toObject(), getSceneHemisphere());
+    if (season && calendar.seasons) {
+      return calendar.seasons.indexOf(season);
+    }
+
     const monthsPerSeason = calendar.months.length / 4;
     return Math.floor((currentDate.month - 1) / monthsPerSeason);
   }
@@ -51,6 +51,24 @@ export class ValidationUtils {
     }
   }
 
+  /**
+   * Validate date arithmetic options
+   */
+  static validateArithmeticOptions(options: any): void {
+    if (options === undefined) return;
+
+    if (!options || typeof options !== 'object') {
+      throw new Error('Options must be an object');
+    }
+
+    if (
+      options.overflow !== undefined &&
+      !['clamp', 'rollover', 'error'].includes(options.overflow)
+    ) {
+      throw new Error('Overflow must be one of: clamp, rollover, error');
+    }
+  }
+
   /**
    * Validate boolean parameter
    */
@@ -0,0 +1,22 @@
+/**
+ * Foundry-free entry point for Seasons & Stars
+ *
+ * The calendar engine, validation, variants and date formatting/parsing only need calendar
+ * data, so tools outside Foundry (wiki generators, chat bots) can use them from Node:
+ *
+ *   import { CalendarEngine } from 'seasons-and-stars/headless';
+ *
+ * Nothing exported here reads Foundry globals or registers hooks. `runCalendarCli` backs the
+ * `seasons-stars` command in bin/.
+ */
+
+export { CalendarEngine } from './core/calendar-engine';
+export { CalendarValidator, type ValidationResult } from './core/calendar-validator';
+export { CalendarInheritance } from './core/calendar-inheritance';
+export { CalendarTimeUtils } from './core/calendar-time-utils';
+export { DateFormatter } from './core/date-formatter';
+export { DateParser } from './core/date-parser';
+export { NoteRecurrence, type RecurringPattern } from './core/note-recurring';
+export { NoteIcsExport, type IcsDateProxy, type IcsExportOptions } from './core/note-ics-export';
+export { runCalendarCli, type CalendarCliIO } from './core/calendar-cli';
+export type * from './types/calendar';
@@ -11,6 +11,7 @@ import { CalendarManager } from './core/calendar-manager';
 import { NotesManager } from './core/notes-manager';
 import { noteCategories, initializeNoteCategories } from './core/note-categories';
 import { CalendarDate } from './core/calendar-date';
+import { DateParser } from './core/date-parser';
 import { CalendarLocalization } from './core/calendar-localization';
 import { CalendarWidget } from './ui/calendar-widget';
 import { CalendarMiniWidget } from './ui/calendar-mini-widget';
@@ -22,13 +23,22 @@ import { SeasonsStarsKeybindings } from './core/keybindings';
 import { SeasonsStarsIntegration } from './core/bridge-integration';
 import { ValidationUtils } from './core/validation-utils';
 import { TIME_CONSTANTS } from './core/constants';
+import { CalendarTimeUtils } from './core/calendar-time-utils';
 import { registerQuickTimeButtonsHelper } from './core/quick-time-buttons';
 import { registerSettingsPreviewHooks } from './core/settings-preview';
+import { getSceneHemisphere, registerSceneHemisphereHooks } from './core/scene-hemisphere';
 import type { SeasonsStarsAPI } from './types/foundry-extensions';
 import type {
   CalendarDate as ICalendarDate,
   DateFormatOptions,
-  SeasonsStarsCalendar,
+  DateParseCandidate,
+  MoonPhaseInfo,
+  SunriseSunset,
+  CalendarHoliday,
+  CalendarTimeSegment,
+  CalendarDuration,
+  DateArithmeticOptions,
+  DurationFormatOptions,
 } from './types/calendar';
 
 // Module instances
@@ -253,6 +263,9 @@ Hooks.once('init', async () => {
   // Register settings preview functionality
   registerSettingsPreviewHooks();
 
+  // Register the per-scene hemisphere field
+  registerSceneHemisphereHooks();
+
   // Register keyboard shortcuts (must be in init hook)
   Logger.debug('Registering keyboard shortcuts');
   SeasonsStarsKeybindings.registerKeybindings();
@@ -300,6 +313,9 @@ Hooks.once('ready', async () => {
   // Register notes cleanup hooks for external journal deletion
   registerNotesCleanupHooks();
 
+  // Fire note reminders as world time passes them
+  registerNoteReminderHooks();
+
   // Register with Memory Mage if available
   registerMemoryMageIntegration();
 
@@ -429,9 +445,33 @@ function registerSettings(): void {
     },
   });
 
+  game.settings.register('seasons-and-stars', 'showWeekNumbers', {
+    name: 'Show Week Numbers',
+    hint: 'Show the week of the year beside each row of the calendar grid.',
+    scope: 'client',
+    config: true,
+    type: Boolean,
+    default: false,
+    onChange: () => {
+      Hooks.callAll('seasons-stars:settingsChanged', 'showWeekNumbers');
+    },
+  });
+
+  game.settings.register('seasons-and-stars', 'secondaryCalendars', {
+    name: 'Secondary Calendars',
+    hint: 'Comma-separated calendar IDs to show alongside the current date in the main widget, e.g. "gregorian,golarion-pf2e". Only calendars that declare an anchor can be converted.',
+    scope: 'client',
+    config: true,
+    type: String,
+    default: '',
+    onChange: () => {
+      Hooks.callAll('seasons-stars:settingsChanged', 'secondaryCalendars');
+    },
+  });
+
   game.settings.register('seasons-and-stars', 'quickTimeButtons', {
     name: 'Quick Time Buttons',
-    hint: 'Comma-separated time values for quick advancement buttons. Supports: 15, 30m, 1h, 2d, 1w. Negative values go backward. Examples: "10,30,60" or "-1h,15m,30m,1h"',
+    hint: 'Comma-separated time values for quick advancement buttons. Supports: 15, 30m, 1h, 2d, 1w, and 1seg to jump to the next named time segment (watch, bell) of calendars that define them. Negative values go backward. Examples: "10,30,60" or "-1h,15m,30m,1h"',
     scope: 'world',
     config: true,
     type: String,
@@ -641,6 +681,10 @@ function setupAPI(): void {
           case 'years':
             await calendarManager.advanceYears(amount);
             break;
+          case 'segment':
+          case 'segments':
+            await calendarManager.advanceTimeSegments(amount);
+            break;
           default:
             const error = new Error(`Unsupported time unit: ${unit}`);
             Logger.error('Unsupported time unit', error);
@@ -793,9 +837,13 @@ function setupAPI(): void {
       }
     },
 
-    advanceMonths: async (months: number, calendarId?: string): Promise<void> => {
+    advanceMonths: async (
+      months: number,
+      calendarId?: string,
+      options?: DateArithmeticOptions
+    ): Promise<void> => {
       try {
-        Logger.api('advanceMonths', { months, calendarId });
+        Logger.api('advanceMonths', { months, calendarId, options });
 
         // Input validation
         if (typeof months !== 'number' || !isFinite(months)) {
@@ -816,8 +864,10 @@ function setupAPI(): void {
           throw error;
         }
 
-        await calendarManager.advanceMonths(months);
-        Logger.api('advanceMonths', { months, calendarId }, 'success');
+        ValidationUtils.validateArithmeticOptions(options);
+
+        await calendarManager.advanceMonths(months, options);
+        Logger.api('advanceMonths', { months, calendarId, options }, 'success');
       } catch (error) {
         Logger.error(
           'Failed to advance months',
@@ -827,9 +877,13 @@ function setupAPI(): void {
       }
     },
 
-    advanceYears: async (years: number, calendarId?: string): Promise<void> => {
+    advanceYears: async (
+      years: number,
+      calendarId?: string,
+      options?: DateArithmeticOptions
+    ): Promise<void> => {
       try {
-        Logger.api('advanceYears', { years, calendarId });
+        Logger.api('advanceYears', { years, calendarId, options });
 
         // Input validation
         if (typeof years !== 'number' || !isFinite(years)) {
@@ -850,8 +904,10 @@ function setupAPI(): void {
           throw error;
         }
 
-        await calendarManager.advanceYears(years);
-        Logger.api('advanceYears', { years, calendarId }, 'success');
+        ValidationUtils.validateArithmeticOptions(options);
+
+        await calendarManager.advanceYears(years, options);
+        Logger.api('advanceYears', { years, calendarId, options }, 'success');
       } catch (error) {
         Logger.error(
           'Failed to advance years',
@@ -890,8 +946,12 @@ function setupAPI(): void {
           throw error;
         }
 
-        const calendarDate = new CalendarDate(date, activeCalendar);
-        const result = calendarDate.format(options);
+        const calendarDate = new CalendarDate(
+          date,
+          activeCalendar,
+          calendarManager.getActiveEngine() || undefined
+        );
+        const result = calendarDate.format(options || { namedFormat: 'default' });
         Logger.api('formatDate', { date, options }, result);
         return result;
       } catch (error) {
@@ -1137,10 +1197,7 @@ function setupAPI(): void {
     },
 
     // Optional enhanced features (basic implementations)
-    getSunriseSunset: (
-      date: ICalendarDate,
-      calendarId?: string
-    ): { sunrise: number; sunset: number } => {
+    getSunriseSunset: (date: ICalendarDate, calendarId?: string): SunriseSunset => {
       try {
         Logger.api('getSunriseSunset', { date, calendarId });
 
@@ -1157,9 +1214,17 @@ function setupAPI(): void {
           throw error;
         }
 
-        // Basic implementation - can be enhanced with calendar-specific data later
-        // For now, return reasonable defaults (6 AM sunrise, 6 PM sunset)
-        const result = { sunrise: 6, sunset: 18 };
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for sunrise/sunset calculation', error);
+          throw error;
+        }
+
+        const result = engine.getSunriseSunset(date);
         Logger.api('getSunriseSunset', { date, calendarId }, result);
         return result;
       } catch (error) {
@@ -1171,6 +1236,94 @@ function setupAPI(): void {
       }
     },
 
+    getTimeSegment: (
+      date: ICalendarDate,
+      type?: string,
+      calendarId?: string
+    ): CalendarTimeSegment | null => {
+      try {
+        Logger.api('getTimeSegment', { date, type, calendarId });
+
+        // Input validation
+        if (!date || typeof date !== 'object') {
+          const error = new Error('Date must be a valid ICalendarDate object');
+          Logger.error('Invalid date parameter', error);
+          throw error;
+        }
+
+        if (type !== undefined && typeof type !== 'string') {
+          const error = new Error('Segment type must be a string');
+          Logger.error('Invalid segment type parameter', error);
+          throw error;
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for time segment lookup', error);
+          throw error;
+        }
+
+        const result = engine.getTimeSegment(date, type);
+        Logger.api('getTimeSegment', { date, type, calendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to get time segment',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    getHolidays: (date: ICalendarDate, calendarId?: string): CalendarHoliday[] => {
+      try {
+        Logger.api('getHolidays', { date, calendarId });
+
+        // Input validation
+        if (!date || typeof date !== 'object') {
+          const error = new Error('Date must be a valid ICalendarDate object');
+          Logger.error('Invalid date parameter', error);
+          throw error;
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for holiday lookup', error);
+          throw error;
+        }
+
+        const result = engine.getHolidays(date);
+        Logger.api('getHolidays', { date, calendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to get holidays',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
     getSeasonInfo: (date: ICalendarDate, calendarId?: string): { name: string; icon: string } => {
       try {
         Logger.api('getSeasonInfo', { date, calendarId });
@@ -1198,46 +1351,23 @@ function setupAPI(): void {
           throw error;
         }
 
-        const calendar = calendarId
-          ? calendarManager.getCalendar(calendarId)
-          : calendarManager.getActiveCalendar();
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
 
-        if (
-          !calendar ||
-          !(calendar as SeasonsStarsCalendar).seasons ||
-          (calendar as SeasonsStarsCalendar).seasons!.length === 0
-        ) {
+        // Seasons follow the active scene's hemisphere
+        const currentSeason = engine?.getSeason(date, getSceneHemisphere());
+
+        if (!currentSeason) {
           Logger.warn(`No seasons found for calendar: ${calendarId || 'active'}`);
           const result = { name: 'Unknown', icon: 'none' };
           Logger.api('getSeasonInfo', { date, calendarId }, result);
           return result;
         }
 
-        // Basic season detection - find season containing this date
-        // This is a simple implementation that can be enhanced later
-        const currentSeason = (calendar as SeasonsStarsCalendar).seasons!.find(season => {
-          // Simple logic: match by rough month ranges
-          // This could be enhanced with proper calendar-aware season calculation
-          if (season.startMonth && season.endMonth) {
-            return date.month >= season.startMonth && date.month <= season.endMonth;
-          }
-          return false;
-        });
-
-        if (currentSeason) {
-          const result = {
-            name: currentSeason.name,
-            icon: currentSeason.icon || currentSeason.name.toLowerCase(),
-          };
-          Logger.api('getSeasonInfo', { date, calendarId }, result);
-          return result;
-        }
-
-        // Fallback: use first season or default
-        const fallbackSeason = (calendar as SeasonsStarsCalendar).seasons![0];
         const result = {
-          name: fallbackSeason?.name || 'Unknown',
-          icon: fallbackSeason?.icon || fallbackSeason?.name?.toLowerCase() || 'none',
+          name: currentSeason.name,
+          icon: currentSeason.icon || currentSeason.name.toLowerCase(),
         };
         Logger.api('getSeasonInfo', { date, calendarId }, result);
         return result;
@@ -1249,6 +1379,285 @@ function setupAPI(): void {
         throw error;
       }
     },
+
+    getMoonPhases: (date: ICalendarDate, calendarId?: string): MoonPhaseInfo[] => {
+      try {
+        Logger.api('getMoonPhases', { date, calendarId });
+
+        // Input validation
+        if (!date || typeof date !== 'object') {
+          const error = new Error('Date must be a valid ICalendarDate object');
+          Logger.error('Invalid date parameter', error);
+          throw error;
+        }
+
+        if (
+          typeof date.year !== 'number' ||
+          typeof date.month !== 'number' ||
+          typeof date.day !== 'number'
+        ) {
+          const error = new Error('Date must have valid year, month, and day numbers');
+          Logger.error('Invalid date structure', error);
+          throw error;
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for moon phase calculation', error);
+          throw error;
+        }
+
+        const result = engine.getMoonPhases(date);
+        Logger.api('getMoonPhases', { date, calendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to get moon phases',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    convertDate: (
+      date: ICalendarDate,
+      fromCalendarId: string,
+      toCalendarId: string
+    ): CalendarDate => {
+      try {
+        Logger.api('convertDate', { date, fromCalendarId, toCalendarId });
+
+        // Input validation
+        if (!date || typeof date !== 'object') {
+          const error = new Error('Date must be a valid ICalendarDate object');
+          Logger.error('Invalid date parameter', error);
+          throw error;
+        }
+
+        if (
+          typeof date.year !== 'number' ||
+          typeof date.month !== 'number' ||
+          typeof date.day !== 'number'
+        ) {
+          const error = new Error('Date must have valid year, month, and day numbers');
+          Logger.error('Invalid date structure', error);
+          throw error;
+        }
+
+        if (typeof fromCalendarId !== 'string' || typeof toCalendarId !== 'string') {
+          const error = new Error('Calendar IDs must be strings');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const result = calendarManager.convertDate(date, fromCalendarId, toCalendarId);
+
+        if (!result) {
+          const error = new Error(
+            `Cannot convert from ${fromCalendarId} to ${toCalendarId}: both calendars must be loaded and declare an anchor`
+          );
+          Logger.error('Date conversion unavailable', error);
+          throw error;
+        }
+
+        Logger.api('convertDate', { date, fromCalendarId, toCalendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to convert date',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    diffDates: (
+      from: ICalendarDate,
+      to: ICalendarDate,
+      calendarId?: string
+    ): Required<CalendarDuration> => {
+      try {
+        Logger.api('diffDates', { from, to, calendarId });
+
+        // Input validation
+        for (const date of [from, to]) {
+          if (
+            !date ||
+            typeof date !== 'object' ||
+            typeof date.year !== 'number' ||
+            typeof date.month !== 'number' ||
+            typeof date.day !== 'number'
+          ) {
+            const error = new Error('Dates must have valid year, month, and day numbers');
+            Logger.error('Invalid date parameter', error);
+            throw error;
+          }
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for date difference', error);
+          throw error;
+        }
+
+        const result = engine.diff(from, to);
+        Logger.api('diffDates', { from, to, calendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to get date difference',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    addDuration: (
+      date: ICalendarDate,
+      duration: CalendarDuration,
+      calendarId?: string,
+      options?: DateArithmeticOptions
+    ): ICalendarDate => {
+      try {
+        Logger.api('addDuration', { date, duration, calendarId, options });
+
+        // Input validation
+        if (
+          !date ||
+          typeof date !== 'object' ||
+          typeof date.year !== 'number' ||
+          typeof date.month !== 'number' ||
+          typeof date.day !== 'number'
+        ) {
+          const error = new Error('Date must have valid year, month, and day numbers');
+          Logger.error('Invalid date parameter', error);
+          throw error;
+        }
+
+        if (
+          !duration ||
+          typeof duration !== 'object' ||
+          Object.values(duration).some(value => !Number.isFinite(value))
+        ) {
+          const error = new Error('Duration must be an object of finite numbers');
+          Logger.error('Invalid duration parameter', error);
+          throw error;
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const engine = calendarId
+          ? calendarManager.engines?.get(calendarId)
+          : calendarManager.getActiveEngine();
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for duration arithmetic', error);
+          throw error;
+        }
+
+        ValidationUtils.validateArithmeticOptions(options);
+
+        const result = engine.add(date, duration, options);
+        Logger.api('addDuration', { date, duration, calendarId, options }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to add duration',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    humanizeDuration: (duration: CalendarDuration, options?: DurationFormatOptions): string => {
+      try {
+        Logger.api('humanizeDuration', { duration, options });
+
+        // Input validation
+        if (!duration || typeof duration !== 'object') {
+          const error = new Error('Duration must be an object');
+          Logger.error('Invalid duration parameter', error);
+          throw error;
+        }
+
+        const result = CalendarTimeUtils.humanizeDuration(duration, options);
+        Logger.api('humanizeDuration', { duration, options }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to describe duration',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
+
+    parseDate: (text: string, calendarId?: string): DateParseCandidate[] => {
+      try {
+        Logger.api('parseDate', { text, calendarId });
+
+        // Input validation
+        if (typeof text !== 'string' || !text.trim()) {
+          const error = new Error('Text must be a non-empty string');
+          Logger.error('Invalid text parameter', error);
+          throw error;
+        }
+
+        if (calendarId !== undefined && typeof calendarId !== 'string') {
+          const error = new Error('Calendar ID must be a string');
+          Logger.error('Invalid calendar ID parameter', error);
+          throw error;
+        }
+
+        const activeEngine = calendarManager.getActiveEngine();
+        const engine = calendarId ? calendarManager.engines?.get(calendarId) : activeEngine;
+
+        if (!engine) {
+          const error = new Error(`No engine available for calendar: ${calendarId || 'active'}`);
+          Logger.error('No engine available for date parsing', error);
+          throw error;
+        }
+
+        // Dates without a year default to the current year of the active calendar
+        const defaultYear =
+          engine === activeEngine ? calendarManager.getCurrentDate()?.year : undefined;
+
+        const result = DateParser.parse(text, engine.getCalendar(), engine, { defaultYear });
+        Logger.api('parseDate', { text, calendarId }, result);
+        return result;
+      } catch (error) {
+        Logger.error(
+          'Failed to parse date',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+    },
   };
 
   // Expose API to global game object
@@ -1474,6 +1883,22 @@ function getActiveWidgetCount(): number {
   return count;
 }
 
+/**
+ * Register the hook that fires note reminders when world time moves forward
+ */
+function registerNoteReminderHooks(): void {
+  Hooks.on('updateWorldTime', async (newTime: number, delta: number) => {
+    try {
+      await notesManager?.checkReminders(newTime - delta, newTime);
+    } catch (error) {
+      Logger.error(
+        'Failed to fire note reminders',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  });
+}
+
 /**
  * Register hooks to clean up notes when journals are deleted externally
  */
@@ -2,8 +2,12 @@
  * Seasons & Stars Calendar Type Definitions
  */
 
+import type { RecurringPattern } from '../core/note-recurring';
+
 export interface SeasonsStarsCalendar {
   id: string;
+  /** ID of the calendar this one is a variant of; only differences need to be listed */
+  extends?: string;
   translations: {
     [languageCode: string]: {
       label: string;
@@ -27,23 +31,179 @@ export interface SeasonsStarsCalendar {
     startDay: number;
   };
 
-  leapYear: {
-    rule: 'none' | 'gregorian' | 'custom';
-    interval?: number;
-    month?: string;
-    extraDays?: number;
-  };
+  leapYear: CalendarLeapYear;
 
   months: CalendarMonth[];
   weekdays: CalendarWeekday[];
+  week?: CalendarWeekConfig;
   intercalary: CalendarIntercalary[];
   seasons?: CalendarSeason[];
+  moons?: CalendarMoon[];
+  dateFormats?: CalendarDateFormats;
+  anchor?: CalendarAnchor;
+  eras?: CalendarEra[];
+  daylight?: CalendarDaylight;
+  timeSegments?: CalendarTimeSegment[];
+  holidays?: CalendarHoliday[];
+  revisions?: CalendarRevision[];
 
   time: {
     hoursInDay: number;
     minutesInHour: number;
     secondsInMinute: number;
   };
+
+  extensions?: {
+    'seasons-and-stars'?: SeasonsStarsCalendarExtensions;
+    [moduleId: string]: any;
+  };
+}
+
+/**
+ * Ties a calendar date to a day count shared with other calendars, for cross-calendar conversion
+ */
+export interface CalendarAnchor {
+  absoluteDay: number;
+  date: {
+    year: number;
+    month: number;
+    day: number;
+  };
+}
+
+/**
+ * A named part of the day such as a watch, bell, canonical hour or shift
+ *
+ * `start` and `end` are in the calendar's own hours and may be fractional; a segment
+ * whose end is not after its start runs past midnight.
+ */
+export interface CalendarTimeSegment {
+  name: string;
+  abbreviation?: string;
+  type?: string;
+  start: number;
+  end: number;
+  description?: string;
+}
+
+/**
+ * A named holiday that recurs on the calendar without needing a journal entry
+ *
+ * The recurrence uses the same shape as recurring notes. `interval` defaults to 1 and
+ * is counted from `startYear` (or the calendar epoch); weekday names may be the
+ * calendar's own weekday names.
+ */
+export interface CalendarHoliday {
+  name: string;
+  description?: string;
+  recurrence: HolidayRecurrence;
+  startYear?: number;
+}
+
+export type HolidayRecurrence = Omit<RecurringPattern, 'interval' | 'weekdays' | 'monthWeekday'> & {
+  interval?: number;
+  weekdays?: string[];
+  monthWeekday?: string;
+};
+
+/**
+ * Sunrise and sunset configuration, either as a yearly curve or a per-month table
+ *
+ * All hours are in the calendar's own hours (`time.hoursInDay`).
+ */
+export interface CalendarDaylight {
+  solstice?: { month: number; day: number };
+  longestDay?: number;
+  shortestDay?: number;
+  latitude?: number;
+  axialTilt?: number;
+  solarNoon?: number;
+  months?: DaylightMonth[];
+}
+
+export interface DaylightMonth {
+  sunrise: number;
+  sunset: number;
+}
+
+export interface SunriseSunset {
+  sunrise: number;
+  sunset: number;
+}
+
+/**
+ * A span of years with its own numbering, e.g. "Third Age 3019" or "44 BC"
+ */
+export interface CalendarEra {
+  name: string;
+  abbreviation?: string;
+  startYear?: number;
+  offset?: number;
+  backwards?: boolean;
+  format?: string;
+}
+
+/**
+ * Named date formats, keyed by name (e.g. widgetShort, chatTimestamp, noteTitle)
+ */
+export interface CalendarDateFormats {
+  [name: string]: string | CalendarDateFormat;
+}
+
+export interface CalendarDateFormat {
+  date: string;
+  intercalary?: string;
+}
+
+export interface CalendarLeapYear {
+  rule: 'none' | 'gregorian' | 'custom';
+  interval?: number;
+  rules?: LeapYearRule[];
+  month?: string;
+  extraDays?: number;
+  months?: LeapYearMonth[];
+}
+
+/**
+ * A reform that changes the calendar's structure from a given year onward
+ *
+ * Leap rules and month lengths apply to every year from `year`; `droppedDays` removes
+ * days from `month` of `year` only, the way 5–14 October 1582 never happened.
+ */
+export interface CalendarRevision {
+  name: string;
+  description?: string;
+  year: number;
+  month?: number;
+  leapYear?: CalendarLeapYear;
+  months?: { name: string; days: number }[];
+  droppedDays?: { startDay: number; count: number };
+}
+
+export interface LeapYearRule {
+  every: number;
+  offset?: number;
+  skip?: boolean;
+}
+
+export interface LeapYearMonth {
+  month: string;
+  extraDays?: number;
+  rules?: LeapYearRule[];
+}
+
+export interface SeasonsStarsCalendarExtensions {
+  namedYears?: CalendarNamedYears;
+}
+
+export interface CalendarNamedYears {
+  rule: 'repeat' | 'list' | 'explicit';
+  startYear?: number;
+  names?: string[];
+  years?: {
+    [year: string]: string;
+  };
+  format?: string;
 }
 
 export interface CalendarMonth {
@@ -59,6 +219,15 @@ export interface CalendarMonth {
   };
 }
 
+/**
+ * How the weekday cycle runs: across the whole calendar, or restarting every month or year
+ */
+export interface CalendarWeekConfig {
+  resetMode?: WeekdayResetMode;
+}
+
+export type WeekdayResetMode = 'continuous' | 'month' | 'year';
+
 export interface CalendarWeekday {
   id?: string;
   name: string;
@@ -77,6 +246,7 @@ export interface CalendarIntercalary {
   after: string;
   leapYearOnly: boolean;
   countsForWeekdays: boolean;
+  display?: IntercalaryDisplay;
   description?: string;
   translations?: {
     [languageCode: string]: {
@@ -85,6 +255,16 @@ export interface CalendarIntercalary {
   };
 }
 
+/**
+ * How the calendar grid shows an intercalary period: as a row after its month, or as its own page
+ */
+export type IntercalaryDisplay = 'row' | 'page';
+
+/**
+ * Which hemisphere a scene is in; southern scenes see the opposite season
+ */
+export type Hemisphere = 'northern' | 'southern';
+
 export interface CalendarSeason {
   name: string;
   description?: string;
@@ -100,6 +280,48 @@ export interface CalendarSeason {
   };
 }
 
+export interface CalendarMoon {
+  name: string;
+  cycleLength: number;
+  firstNewMoon: {
+    year: number;
+    month: number;
+    day: number;
+  };
+  phases?: CalendarMoonPhase[];
+  color?: string;
+  description?: string;
+  translations?: {
+    [languageCode: string]: {
+      description?: string;
+    };
+  };
+}
+
+export interface CalendarMoonPhase {
+  name: string;
+  icon?: string;
+}
+
+export interface DateParseCandidate {
+  date: CalendarDate;
+  confidence: number; // 0-1, higher is a better match
+}
+
+export interface DateParseOptions {
+  defaultYear?: number; // Year used when the text doesn't contain one
+}
+
+export interface MoonPhaseInfo {
+  moon: string;
+  phase: string;
+  phaseIndex: number;
+  icon: string;
+  illumination: number;
+  dayInCycle: number;
+  color?: string;
+}
+
 export interface CalendarDate {
   year: number;
   month: number;
@@ -113,17 +335,42 @@ export interface CalendarDate {
   };
 }
 
-export interface CalendarCalculation {
-  totalDays: number;
-  weekdayIndex: number;
-  yearLength: number;
-  monthLengths: number[];
-  intercalaryDays: CalendarIntercalary[];
-}
-
 export interface DateFormatOptions {
   includeTime?: boolean;
   includeWeekday?: boolean;
   includeYear?: boolean;
+  includeYearName?: boolean;
   format?: 'short' | 'long' | 'numeric';
+  template?: string;
+  namedFormat?: string;
+}
+
+/**
+ * A span of time in the calendar's own units; negative values point into the past
+ */
+export interface CalendarDuration {
+  years?: number;
+  months?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+/**
+ * What to do when a day doesn't exist in the target month, e.g. 31 January plus one month
+ *
+ * - `clamp`: use the last day of the month
+ * - `rollover`: carry the extra days into the following days
+ * - `error`: throw
+ */
+export type MonthOverflowPolicy = 'clamp' | 'rollover' | 'error';
+
+export interface DateArithmeticOptions {
+  overflow?: MonthOverflowPolicy; // Default 'clamp'
+}
+
+export interface DurationFormatOptions {
+  maxUnits?: number; // Largest units to show, default 2
+  relative?: boolean; // Add "ago" or "in", default true
 }
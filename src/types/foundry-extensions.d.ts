@@ -5,9 +5,24 @@
  * Core Foundry types are provided by foundry-v13-essentials.d.ts
  */
 
-import type { SeasonsStarsCalendar, CalendarDate, DateFormatOptions } from './calendar';
+import type {
+  SeasonsStarsCalendar,
+  CalendarDate,
+  DateFormatOptions,
+  DateParseCandidate,
+  MoonPhaseInfo,
+  SunriseSunset,
+  CalendarHoliday,
+  CalendarTimeSegment,
+  CalendarDuration,
+  DateArithmeticOptions,
+  DurationFormatOptions,
+} from './calendar';
 import type { SeasonsStarsIntegration } from '../core/bridge-integration';
 import type { NoteCategories } from '../core/note-categories';
+import type { NoteSearchCriteria } from '../core/note-search';
+import type { IcsExportOptions } from '../core/note-ics-export';
+import type { NoteImportReport, NoteImportSource } from '../core/note-import';
 
 // Extend the Game interface to include S&S specific properties
 declare global {
@@ -40,8 +55,12 @@ export interface SeasonsStarsAPI {
   advanceHours(hours: number, calendarId?: string): Promise<void>;
   advanceMinutes(minutes: number, calendarId?: string): Promise<void>;
   advanceWeeks(weeks: number, calendarId?: string): Promise<void>;
-  advanceMonths(months: number, calendarId?: string): Promise<void>;
-  advanceYears(years: number, calendarId?: string): Promise<void>;
+  advanceMonths(
+    months: number,
+    calendarId?: string,
+    options?: DateArithmeticOptions
+  ): Promise<void>;
+  advanceYears(years: number, calendarId?: string, options?: DateArithmeticOptions): Promise<void>;
   getActiveCalendar(): SeasonsStarsCalendar | null;
   setActiveCalendar(calendarId: string): Promise<void>;
   getAvailableCalendars(): string[];
@@ -49,8 +68,25 @@ export interface SeasonsStarsAPI {
   getMonthNames(calendarId?: string): string[];
   getWeekdayNames(calendarId?: string): string[];
   getSeasonInfo(date: CalendarDate, calendarId?: string): { name: string; icon: string };
-  getSunriseSunset(date: CalendarDate, calendarId?: string): { sunrise: number; sunset: number };
+  getSunriseSunset(date: CalendarDate, calendarId?: string): SunriseSunset;
+  getTimeSegment(
+    date: CalendarDate,
+    type?: string,
+    calendarId?: string
+  ): CalendarTimeSegment | null;
+  getHolidays(date: CalendarDate, calendarId?: string): CalendarHoliday[];
+  getMoonPhases(date: CalendarDate, calendarId?: string): MoonPhaseInfo[];
   formatDate(date: CalendarDate, options?: DateFormatOptions): string;
+  parseDate(text: string, calendarId?: string): DateParseCandidate[];
+  convertDate(date: CalendarDate, fromCalendarId: string, toCalendarId: string): CalendarDate;
+  diffDates(from: CalendarDate, to: CalendarDate, calendarId?: string): Required<CalendarDuration>;
+  addDuration(
+    date: CalendarDate,
+    duration: CalendarDuration,
+    calendarId?: string,
+    options?: DateArithmeticOptions
+  ): CalendarDate;
+  humanizeDuration(duration: CalendarDuration, options?: DurationFormatOptions): string;
   dateToWorldTime(date: CalendarDate, calendarId?: string): number;
   worldTimeToDate(timestamp: number, calendarId?: string): CalendarDate;
 }
@@ -63,8 +99,14 @@ export interface NotesManagerInterface {
   getNote(noteId: string): Promise<JournalEntry | null>;
   getNotesForDate(date: CalendarDate): Promise<JournalEntry[]>;
   getNotesForDateRange(start: CalendarDate, end: CalendarDate): Promise<JournalEntry[]>;
+  getOrCreateOccurrence(parentNoteId: string, occurrenceDate: CalendarDate): Promise<JournalEntry>;
   setNoteModuleData(noteId: string, moduleId: string, data: any): Promise<void>;
   getNoteModuleData(noteId: string, moduleId: string): any;
+  exportNotesToIcs(
+    criteria?: NoteSearchCriteria,
+    options?: Partial<IcsExportOptions>
+  ): Promise<string>;
+  importNotes(source: NoteImportSource, options?: { dryRun?: boolean }): Promise<NoteImportReport>;
   storage: {
     findNotesByDateSync(date: CalendarDate): JournalEntry[];
   };
@@ -43,6 +43,7 @@ declare global {
 
   // Make Foundry types available globally
   const JournalEntry: typeof FoundryJournalEntry;
+  const ChatMessage: typeof FoundryChatMessage;
   const Folder: typeof FoundryFolder;
   const Dialog: typeof FoundryDialog;
   const Application: typeof FoundryApplication;
@@ -51,6 +52,7 @@ declare global {
 
   type JournalEntry = FoundryJournalEntry;
   type User = FoundryUser;
+  type Scene = FoundryScene;
   type Calendar = FoundryCalendar;
 
   // Global Node.js compatibility
@@ -76,6 +78,7 @@ interface Game {
   users: FoundryCollection<FoundryUser>;
   journal: FoundryCollection<FoundryJournalEntry>;
   folders?: FoundryCollection<FoundryFolder>;
+  scenes?: FoundryCollection<FoundryScene> & { active?: FoundryScene | null };
   keybindings?: FoundryKeybindings;
 
   // Season & Stars specific integration point
@@ -109,6 +112,7 @@ interface FoundryUser {
   id: string;
   name: string;
   isGM: boolean;
+  active?: boolean;
 }
 
 declare class FoundryJournalEntry {
@@ -119,8 +123,10 @@ declare class FoundryJournalEntry {
   flags: Record<string, any>;
   author?: FoundryUser;
   folder?: string;
+  _stats?: DocumentStats;
 
   static create(data: any): Promise<FoundryJournalEntry>;
+  static deleteDocuments(ids: string[]): Promise<FoundryJournalEntry[]>;
   update(data: any): Promise<FoundryJournalEntry>;
   delete(): Promise<void>;
   createEmbeddedDocuments(type: string, data: any[]): Promise<any[]>;
@@ -136,9 +142,31 @@ interface JournalEntryPage {
   text?: {
     content: string;
   };
+  _stats?: DocumentStats;
   update?(data: any): Promise<JournalEntryPage>;
 }
 
+interface DocumentStats {
+  createdTime?: number | null;
+  modifiedTime?: number | null;
+}
+
+declare class FoundryChatMessage {
+  id: string;
+  content: string;
+  whisper: string[];
+
+  static create(data: any): Promise<FoundryChatMessage>;
+}
+
+declare class FoundryScene {
+  id: string;
+  name: string;
+  active: boolean;
+
+  getFlag(scope: string, key: string): any;
+}
+
 declare class FoundryFolder {
   id: string;
   name: string;
@@ -409,6 +437,7 @@ declare namespace DialogV2 {
   }
 
   interface ConfirmOptions {
+    window?: { title?: string };
     title?: string;
     content?: string;
     yes?: Function;
@@ -610,6 +639,7 @@ interface FoundryNamespace {
   utils: {
     deepClone<T>(obj: T): T;
     mergeObject<T, U>(original: T, other: U, options?: any): T & U;
+    saveDataToFile(data: string, type: string, filename: string): void;
   };
 }
 
@@ -17,6 +17,8 @@ export interface BaseWidgetContext extends Record<string, unknown> {
 // Mini widget specific context
 export interface MiniWidgetContext extends BaseWidgetContext {
   shortDate: string;
+  timeSegment?: string;
+  timeSegmentDescription?: string;
   hasSmallTime: boolean;
   showTimeControls: boolean;
 }
@@ -6,7 +6,31 @@ import { CalendarLocalization } from '../core/calendar-localization';
 import { CalendarWidget } from './calendar-widget';
 import { CalendarMiniWidget } from './calendar-mini-widget';
 import { Logger } from '../core/logger';
-import type { CalendarDate as ICalendarDate } from '../types/calendar';
+import { NamedYears } from '../core/named-years';
+import { DateFormatter } from '../core/date-formatter';
+import { DateParser } from '../core/date-parser';
+import { CalendarTimeUtils } from '../core/calendar-time-utils';
+import { getSceneHemisphere } from '../core/scene-hemisphere';
+import type { CalendarEngine } from '../core/calendar-engine';
+import type {
+  CalendarDate as ICalendarDate,
+  CalendarIntercalary,
+  MoonPhaseInfo,
+} from '../types/calendar';
+
+/**
+ * Display glyphs for the standard moon phase icons
+ */
+const MOON_PHASE_GLYPHS: Record<string, string> = {
+  new: '🌑',
+  'waxing-crescent': '🌒',
+  'first-quarter': '🌓',
+  'waxing-gibbous': '🌔',
+  full: '🌕',
+  'waning-gibbous': '🌖',
+  'last-quarter': '🌗',
+  'waning-crescent': '🌘',
+};
 
 export class CalendarGridWidget extends foundry.applications.api.HandlebarsApplicationMixin(
   foundry.applications.api.ApplicationV2
@@ -59,6 +83,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
       selectDate: CalendarGridWidget.prototype._onSelectDate,
       goToToday: CalendarGridWidget.prototype._onGoToToday,
       setYear: CalendarGridWidget.prototype._onSetYear,
+      goToDate: CalendarGridWidget.prototype._onGoToDate,
       createNote: CalendarGridWidget.prototype._onCreateNote,
       viewNotes: CalendarGridWidget.prototype._onViewNotes,
       switchToMain: CalendarGridWidget.prototype._onSwitchToMain,
@@ -84,6 +109,14 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
 
     // Render any existing sidebar buttons
     this.renderExistingSidebarButtons();
+
+    // Submit the go-to-date box with Enter
+    const dateQuery = this.element?.querySelector<HTMLInputElement>('input[name="dateQuery"]');
+    dateQuery?.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        this._onGoToDate(event, dateQuery);
+      }
+    });
   }
 
   /**
@@ -111,6 +144,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
 
     const calendarInfo = CalendarLocalization.getLocalizedCalendarInfo(activeCalendar);
     const monthData = this.generateMonthData(activeCalendar, this.viewDate, currentDate);
+    const pageIntercalary = this.getPageIntercalary(activeCalendar, this.viewDate);
 
     const clickBehavior = game.settings.get('seasons-and-stars', 'calendarClickBehavior') as string;
     const isGM = game.user?.isGM || false;
@@ -132,12 +166,21 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
       viewDate: this.viewDate,
       currentDate: currentDate.toObject(),
       monthData: monthData,
-      monthName: activeCalendar.months[this.viewDate.month - 1]?.name || 'Unknown',
-      monthDescription: activeCalendar.months[this.viewDate.month - 1]?.description,
-      yearDisplay: `${activeCalendar.year?.prefix || ''}${this.viewDate.year}${activeCalendar.year?.suffix || ''}`,
+      monthName:
+        pageIntercalary?.name || activeCalendar.months[this.viewDate.month - 1]?.name || 'Unknown',
+      monthDescription: pageIntercalary
+        ? pageIntercalary.description
+        : activeCalendar.months[this.viewDate.month - 1]?.description,
+      yearDisplay: this.formatYear(this.viewDate.year),
+      dateQueryExample: DateFormatter.format(
+        { year: this.viewDate.year, month: 1, day: 3, weekday: 0 },
+        activeCalendar,
+        '{dayOrdinal} {month} {yearFull}'
+      ),
       isGM: isGM,
       clickBehavior: clickBehavior,
       uiHint: uiHint,
+      showWeekNumbers: game.settings.get('seasons-and-stars', 'showWeekNumbers') as boolean,
       weekdays: activeCalendar.weekdays.map(wd => ({
         name: wd.name,
         abbreviation: wd.abbreviation,
@@ -148,6 +191,9 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
 
   /**
    * Generate calendar month data with day grid and note indicators
+   *
+   * Viewing an intercalary period with `display: 'page'` lays out that period's
+   * days instead of the month it follows.
    */
   private generateMonthData(calendar: any, viewDate: ICalendarDate, currentDate: ICalendarDate) {
     const engine = game.seasonsStars?.manager?.getActiveEngine();
@@ -157,16 +203,25 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const monthInfo = calendar.months[viewDate.month - 1];
     if (!monthInfo) return { weeks: [], totalDays: 0 };
 
+    const pageIntercalary = this.getPageIntercalary(calendar, viewDate);
+    const intercalaryName = pageIntercalary?.name;
+
     // Calculate month length (considering leap years)
-    const monthLength = engine.getMonthLength(viewDate.month, viewDate.year);
+    const monthLength = pageIntercalary
+      ? pageIntercalary.days || 1
+      : engine.getMonthLength(viewDate.month, viewDate.year);
+
+    // Periods outside the week fill the grid in order rather than by weekday
+    const followsWeekdays = pageIntercalary ? (pageIntercalary.countsForWeekdays ?? true) : true;
 
     // Find the first day of the month and its weekday
     const firstDay: ICalendarDate = {
       year: viewDate.year,
       month: viewDate.month,
       day: 1,
-      weekday: engine.calculateWeekday(viewDate.year, viewDate.month, 1),
+      weekday: engine.calculateWeekday(viewDate.year, viewDate.month, 1, intercalaryName),
       time: { hour: 0, minute: 0, second: 0 },
+      ...(intercalaryName && { intercalary: intercalaryName }),
     };
 
     // Get notes for this month for note indicators with category and tooltip information
@@ -209,6 +264,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
             day: day,
             weekday: 0,
             time: { hour: 0, minute: 0, second: 0 },
+            ...(intercalaryName && { intercalary: intercalaryName }),
           };
 
           const allNotes = notesManager.storage?.findNotesByDateSync(dayDate) || [];
@@ -224,7 +280,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
             return userLevel >= CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER;
           });
           if (notes.length > 0) {
-            const dateKey = this.formatDateKey(dayDate);
+            const dateKey = CalendarTimeUtils.formatDateKey(dayDate);
             const dayCategories = new Set<string>();
             const noteDetails: Array<{ title: string; tags: string[] }> = [];
 
@@ -266,25 +322,46 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const weeks: Array<Array<any>> = [];
     let currentWeek: Array<any> = [];
 
-    // Fill in empty cells before month starts
-    const startWeekday = firstDay.weekday || 0;
-    for (let i = 0; i < startWeekday; i++) {
-      currentWeek.push({ isEmpty: true });
-    }
+    // Track moon phases from the previous day so only phase changes get an icon
+    const hasMoons = (calendar.moons?.length || 0) > 0;
+    let previousMoonPhases: MoonPhaseInfo[] = hasMoons
+      ? engine.getMoonPhases(engine.addDays(firstDay, -1))
+      : [];
+
+    // A calendar revision switching over this month may have dropped some of its days
+    const revision = intercalaryName
+      ? null
+      : engine.getRevisionForMonth(viewDate.year, viewDate.month);
 
     // Fill in the days of the month
     for (let day = 1; day <= monthLength; day++) {
+      if (revision && engine.isDroppedDay(viewDate.year, viewDate.month, day)) continue;
+
       const dayDate: ICalendarDate = {
         year: viewDate.year,
         month: viewDate.month,
         day: day,
-        weekday: engine.calculateWeekday(viewDate.year, viewDate.month, day),
+        weekday: engine.calculateWeekday(viewDate.year, viewDate.month, day, intercalaryName),
         time: { hour: 0, minute: 0, second: 0 },
+        ...(intercalaryName && { intercalary: intercalaryName }),
       };
 
+      // Place each day in its weekday column; weeks that reset mid-row start a new row
+      const column = followsWeekdays ? dayDate.weekday : (day - 1) % calendar.weekdays.length;
+      if (column < currentWeek.length) {
+        while (currentWeek.length < calendar.weekdays.length) {
+          currentWeek.push({ isEmpty: true });
+        }
+        weeks.push(currentWeek);
+        currentWeek = [];
+      }
+      while (currentWeek.length < column) {
+        currentWeek.push({ isEmpty: true });
+      }
+
       const isToday = this.isSameDate(dayDate, currentDate);
       const isViewDate = this.isSameDate(dayDate, viewDate);
-      const dateKey = this.formatDateKey(dayDate);
+      const dateKey = CalendarTimeUtils.formatDateKey(dayDate);
       const noteData = monthNotes.get(dateKey);
       const noteCount = noteData?.count || 0;
       const hasNotes = noteCount > 0;
@@ -311,6 +388,23 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         noteTooltip = `${noteCount} note(s) (${noteData.primaryCategory}):\n${notesList}`;
       }
 
+      // Moon phases: show an icon on the day each moon enters a new phase
+      const moonPhases: MoonPhaseInfo[] = hasMoons ? engine.getMoonPhases(dayDate) : [];
+      const moonIcons = this.getMoonPhaseIcons(moonPhases, previousMoonPhases);
+      const moonTooltip = moonPhases.map(phase => `${phase.moon}: ${phase.phase}`).join('\n');
+      previousMoonPhases = moonPhases;
+
+      // Calendar holidays come from the calendar definition, not from journal notes
+      const holidays = engine.getHolidays(dayDate);
+      const holidayTooltip = holidays
+        .map(holiday =>
+          holiday.description ? `${holiday.name}: ${holiday.description}` : holiday.name
+        )
+        .join('\n');
+
+      const { sunrise, sunset } = engine.getSunriseSunset(dayDate);
+      const daylightTooltip = `Dawn ${CalendarTimeUtils.formatHours(sunrise, calendar)}, Dusk ${CalendarTimeUtils.formatHours(sunset, calendar)}`;
+
       currentWeek.push({
         day: day,
         date: dayDate,
@@ -318,7 +412,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         isSelected: isViewDate,
         isClickable: game.user?.isGM || false,
         weekday: dayDate.weekday,
-        fullDate: `${viewDate.year}-${viewDate.month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
+        fullDate: dateKey,
         hasNotes: hasNotes,
         noteCount: noteCount,
         noteMultiple: noteCount > 1,
@@ -326,6 +420,11 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         primaryCategory: noteData?.primaryCategory || 'general',
         noteTooltip: noteTooltip,
         canCreateNote: this.canCreateNote(),
+        moonIcons: moonIcons,
+        moonTooltip: moonTooltip,
+        daylightTooltip: daylightTooltip,
+        holidays: holidays.map(holiday => holiday.name),
+        holidayTooltip: holidayTooltip,
       });
 
       // Start new week on last day of week
@@ -343,63 +442,170 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
       weeks.push(currentWeek);
     }
 
-    // Add intercalary days as separate full-width rows
-    const intercalaryDays = engine.getIntercalaryDaysAfterMonth(viewDate.year, viewDate.month);
+    // Add intercalary days as separate full-width rows; periods shown as pages are skipped
+    const intercalaryDays = pageIntercalary
+      ? []
+      : engine
+          .getIntercalaryDaysAfterMonth(viewDate.year, viewDate.month)
+          .filter(intercalary => intercalary.display !== 'page');
     for (const intercalary of intercalaryDays) {
       // Find the month that this intercalary day comes after
       const afterMonthIndex = calendar.months.findIndex(m => m.name === intercalary.after);
       const intercalaryMonth = afterMonthIndex >= 0 ? afterMonthIndex + 1 : viewDate.month;
+      const periodDays = intercalary.days || 1;
+      const monthKey = `${viewDate.year}-${viewDate.month.toString().padStart(2, '0')}`;
+
+      // One cell for each day of the period, in a full-width row
+      const intercalaryRow: Array<any> = [];
+      for (let day = 1; day <= periodDays; day++) {
+        const intercalaryDate: ICalendarDate = {
+          year: viewDate.year,
+          month: intercalaryMonth, // Use the month it comes after (1-based)
+          day,
+          weekday: engine.calculateWeekday(viewDate.year, intercalaryMonth, day, intercalary.name),
+          time: { hour: 0, minute: 0, second: 0 },
+          intercalary: intercalary.name,
+        };
 
-      const intercalaryDate: ICalendarDate = {
-        year: viewDate.year,
-        month: intercalaryMonth, // Use the month it comes after (1-based)
-        day: 1, // Intercalary days don't have regular day numbers
-        weekday: 0, // Intercalary days don't have weekdays
-        time: { hour: 0, minute: 0, second: 0 },
-        intercalary: intercalary.name,
-      };
-
-      const isToday = this.isSameIntercalaryDate(intercalaryDate, currentDate);
-      const isViewDate = this.isSameIntercalaryDate(intercalaryDate, viewDate);
-
-      // Create intercalary day row as full-width cell
-      const intercalaryRow = [
-        {
+        intercalaryRow.push({
           day: intercalary.name,
           date: intercalaryDate,
-          isToday: isToday,
-          isSelected: isViewDate,
+          isToday: this.isSameIntercalaryDate(intercalaryDate, currentDate),
+          isSelected: this.isSameIntercalaryDate(intercalaryDate, viewDate),
           isClickable: game.user?.isGM || false,
           isIntercalary: true,
           intercalaryName: intercalary.name,
+          intercalaryDay: periodDays > 1 ? day : undefined,
           intercalaryDescription: intercalary.description,
-          fullDate: `${viewDate.year}-${viewDate.month.toString().padStart(2, '0')}-${intercalary.name}`,
+          weekday: intercalaryDate.weekday,
+          fullDate:
+            periodDays > 1
+              ? `${monthKey}-${intercalary.name}-${day.toString().padStart(2, '0')}`
+              : `${monthKey}-${intercalary.name}`,
           hasNotes: false, // TODO: Add intercalary note support in future
           noteCount: 0,
           categoryClass: '',
           primaryCategory: 'general',
           noteTooltip: '',
           canCreateNote: this.canCreateNote(),
-        },
-      ];
+        });
+      }
 
       weeks.push(intercalaryRow);
     }
 
+    // Week of the year for each row, taken from its first regular day
+    const weekNumbers = weeks.map(week => {
+      const firstDay = week.find(cell => !cell.isEmpty && !cell.isIntercalary);
+      return firstDay ? engine.getWeekOfYear(firstDay.date) : null;
+    });
+
     return {
       weeks: weeks,
-      totalDays: monthLength,
-      monthName: monthInfo.name,
-      monthDescription: monthInfo.description,
+      weekNumbers: weekNumbers,
+      totalDays: monthLength - (revision?.droppedDays?.count || 0),
+      monthName: intercalaryName || monthInfo.name,
+      monthDescription: pageIntercalary ? pageIntercalary.description : monthInfo.description,
       intercalaryDays: intercalaryDays,
+      season: pageIntercalary ? engine.getSeason(firstDay, getSceneHemisphere())?.name : undefined,
+      revision: revision ? { name: revision.name, description: revision.description } : undefined,
+    };
+  }
+
+  /**
+   * Get the intercalary period a date falls in when that period is shown as its own page
+   */
+  private getPageIntercalary(calendar: any, date: ICalendarDate): CalendarIntercalary | undefined {
+    if (!date.intercalary) return undefined;
+
+    const intercalary = (calendar?.intercalary as CalendarIntercalary[] | undefined)?.find(
+      i => i.name === date.intercalary
+    );
+    return intercalary?.display === 'page' ? intercalary : undefined;
+  }
+
+  /**
+   * Get the first day of an intercalary page
+   */
+  private getIntercalaryPageDate(
+    engine: CalendarEngine,
+    year: number,
+    month: number,
+    intercalary: CalendarIntercalary
+  ): ICalendarDate {
+    return {
+      year,
+      month,
+      day: 1,
+      weekday: engine.calculateWeekday(year, month, 1, intercalary.name),
+      time: this.viewDate.time ? { ...this.viewDate.time } : undefined,
+      intercalary: intercalary.name,
     };
   }
 
   /**
-   * Format date as storage key
+   * Step the view a page forward or back, visiting intercalary periods shown as pages
+   */
+  private getAdjacentPage(engine: CalendarEngine, direction: 1 | -1): ICalendarDate {
+    const viewDate = this.viewDate;
+    const pagesAfter = (year: number, month: number) =>
+      engine
+        .getIntercalaryDaysAfterMonth(year, month)
+        .filter(intercalary => intercalary.display === 'page');
+    const current = this.getPageIntercalary(engine.getCalendar(), viewDate);
+    const pages = pagesAfter(viewDate.year, viewDate.month);
+    const index = current ? pages.findIndex(page => page.name === current.name) : -1;
+
+    if (direction > 0) {
+      const next = pages[index + 1];
+      return next
+        ? this.getIntercalaryPageDate(engine, viewDate.year, viewDate.month, next)
+        : engine.addMonths(viewDate, 1);
+    }
+
+    // Going back from a page leads to the previous page or the month it follows
+    if (current) {
+      const previous = pages[index - 1];
+      return previous
+        ? this.getIntercalaryPageDate(engine, viewDate.year, viewDate.month, previous)
+        : { ...viewDate, intercalary: undefined, day: 1 };
+    }
+
+    const previousMonth = engine.addMonths(viewDate, -1);
+    const lastPage = pagesAfter(previousMonth.year, previousMonth.month).pop();
+    return lastPage
+      ? this.getIntercalaryPageDate(engine, previousMonth.year, previousMonth.month, lastPage)
+      : previousMonth;
+  }
+
+  /**
+   * Move the view by whole years, staying on an intercalary page when the target year has it
+   */
+  private getPageYearsAway(engine: CalendarEngine, years: number): ICalendarDate {
+    const target = engine.addYears(this.viewDate, years);
+    const current = this.getPageIntercalary(engine.getCalendar(), this.viewDate);
+    const page = current
+      ? engine
+          .getIntercalaryDaysAfterMonth(target.year, target.month)
+          .find(intercalary => intercalary.name === current.name)
+      : undefined;
+
+    return page ? this.getIntercalaryPageDate(engine, target.year, target.month, page) : target;
+  }
+
+  /**
+   * Build display icons for moons whose phase changed since the previous day
    */
-  private formatDateKey(date: ICalendarDate): string {
-    return `${date.year}-${date.month.toString().padStart(2, '0')}-${date.day.toString().padStart(2, '0')}`;
+  private getMoonPhaseIcons(
+    moonPhases: MoonPhaseInfo[],
+    previousMoonPhases: MoonPhaseInfo[]
+  ): Array<MoonPhaseInfo & { glyph: string }> {
+    return moonPhases
+      .filter((phase, index) => phase.phaseIndex !== previousMoonPhases[index]?.phaseIndex)
+      .map(phase => ({
+        ...phase,
+        glyph: MOON_PHASE_GLYPHS[phase.icon] || MOON_PHASE_GLYPHS.full,
+      }));
   }
 
   /**
@@ -458,16 +664,14 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
   }
 
   /**
-   * Format a year with prefix and suffix from calendar configuration
+   * Format a year with its era (or prefix and suffix) and year name from calendar configuration
    */
   private formatYear(year: number): string {
     const manager = game.seasonsStars?.manager;
     const calendar = manager?.getActiveCalendar();
     if (!calendar) return year.toString();
 
-    const prefix = calendar.year?.prefix || '';
-    const suffix = calendar.year?.suffix || '';
-    return `${prefix}${year}${suffix}`;
+    return NamedYears.formatYear(calendar, year, DateFormatter.getYearString(calendar, year));
   }
 
   /**
@@ -477,6 +681,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     return (
       date1.year === date2.year &&
       date1.month === date2.month &&
+      date1.day === date2.day &&
       date1.intercalary === date2.intercalary &&
       !!date1.intercalary &&
       !!date2.intercalary
@@ -492,7 +697,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const engine = game.seasonsStars?.manager?.getActiveEngine();
     if (!engine) return;
 
-    this.viewDate = engine.addMonths(this.viewDate, -1);
+    this.viewDate = this.getAdjacentPage(engine, -1);
     this.render();
   }
 
@@ -505,7 +710,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const engine = game.seasonsStars?.manager?.getActiveEngine();
     if (!engine) return;
 
-    this.viewDate = engine.addMonths(this.viewDate, 1);
+    this.viewDate = this.getAdjacentPage(engine, 1);
     this.render();
   }
 
@@ -518,7 +723,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const engine = game.seasonsStars?.manager?.getActiveEngine();
     if (!engine) return;
 
-    this.viewDate = engine.addYears(this.viewDate, -1);
+    this.viewDate = this.getPageYearsAway(engine, -1);
     this.render();
   }
 
@@ -531,7 +736,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const engine = game.seasonsStars?.manager?.getActiveEngine();
     if (!engine) return;
 
-    this.viewDate = engine.addYears(this.viewDate, 1);
+    this.viewDate = this.getPageYearsAway(engine, 1);
     this.render();
   }
 
@@ -584,6 +789,7 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         // Handle intercalary day selection
         const intercalaryName = target.dataset.day; // For intercalary days, day contains the name
         if (!intercalaryName) return;
+        const intercalaryDay = parseInt(target.dataset.intercalaryDay || '1');
 
         // Find the intercalary day definition to determine which month it comes after
         const calendar = engine.getCalendar();
@@ -597,32 +803,43 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         targetDate = {
           year: this.viewDate.year,
           month: afterMonthIndex + 1, // Use the month it comes after (1-based)
-          day: 1, // Intercalary days typically use day 1 as a placeholder
-          weekday: 0, // Intercalary days don't have weekdays
+          day: intercalaryDay,
+          weekday: engine.calculateWeekday(
+            this.viewDate.year,
+            afterMonthIndex + 1,
+            intercalaryDay,
+            intercalaryName
+          ),
           time: currentDate.time || { hour: 0, minute: 0, second: 0 },
           intercalary: intercalaryName,
         };
 
         const afterMonthName = calendar.months[afterMonthIndex]?.name || 'Unknown';
         const yearDisplay = this.formatYear(this.viewDate.year);
+        const dayName = target.dataset.intercalaryDay
+          ? `${intercalaryName} ${intercalaryDay}`
+          : intercalaryName;
         ui.notifications?.info(
-          `Date set to ${intercalaryName} (intercalary day after ${afterMonthName} ${yearDisplay})`
+          `Date set to ${dayName} (intercalary day after ${afterMonthName} ${yearDisplay})`
         );
       } else {
-        // Handle regular day selection
+        // Handle regular day selection, including days on an intercalary page
         const day = parseInt(target.dataset.day || '0');
         if (day < 1) return;
 
+        const calendar = engine.getCalendar();
+        const pageName = this.getPageIntercalary(calendar, this.viewDate)?.name;
+
         targetDate = {
           year: this.viewDate.year,
           month: this.viewDate.month,
           day: day,
-          weekday: engine.calculateWeekday(this.viewDate.year, this.viewDate.month, day),
+          weekday: engine.calculateWeekday(this.viewDate.year, this.viewDate.month, day, pageName),
           time: currentDate.time || { hour: 0, minute: 0, second: 0 },
+          ...(pageName && { intercalary: pageName }),
         };
 
-        const calendar = engine.getCalendar();
-        const monthName = calendar.months[targetDate.month - 1]?.name || 'Unknown';
+        const monthName = pageName || calendar.months[targetDate.month - 1]?.name || 'Unknown';
         const dayWithSuffix = this.addOrdinalSuffix(targetDate.day);
         const yearDisplay = this.formatYear(targetDate.year);
         ui.notifications?.info(`Date set to ${dayWithSuffix} of ${monthName}, ${yearDisplay}`);
@@ -665,7 +882,11 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         const afterMonthName = intercalaryDef?.after || 'Unknown';
         const yearDisplay = this.formatYear(this.viewDate.year);
 
-        dateInfo = `${intercalaryName} (intercalary day after ${afterMonthName}, ${yearDisplay})`;
+        const dayName = target.dataset.intercalaryDay
+          ? `${intercalaryName} ${target.dataset.intercalaryDay}`
+          : intercalaryName;
+
+        dateInfo = `${dayName} (intercalary day after ${afterMonthName}, ${yearDisplay})`;
         if (intercalaryDef?.description) {
           dateInfo += `\n${intercalaryDef.description}`;
         }
@@ -674,8 +895,11 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         const day = parseInt(target.dataset.day || '0');
         if (day < 1) return;
 
-        const monthName = calendar.months[this.viewDate.month - 1]?.name || 'Unknown';
-        const monthDesc = calendar.months[this.viewDate.month - 1]?.description;
+        const page = this.getPageIntercalary(calendar, this.viewDate);
+        const monthName = page?.name || calendar.months[this.viewDate.month - 1]?.name || 'Unknown';
+        const monthDesc = page
+          ? page.description
+          : calendar.months[this.viewDate.month - 1]?.description;
         const dayWithSuffix = this.addOrdinalSuffix(day);
         const yearDisplay = this.formatYear(this.viewDate.year);
 
@@ -760,6 +984,32 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     }
   }
 
+  /**
+   * Navigate to the date typed into the go-to-date box
+   */
+  async _onGoToDate(event: Event, target: HTMLElement): Promise<void> {
+    event.preventDefault();
+
+    const manager = game.seasonsStars?.manager;
+    const engine = manager?.getActiveEngine();
+    const input = this.element?.querySelector<HTMLInputElement>('input[name="dateQuery"]');
+    const text = input?.value.trim();
+    if (!engine || !text) return;
+
+    const [best] = DateParser.parse(text, engine.getCalendar(), engine, {
+      defaultYear: this.viewDate.year,
+    });
+
+    if (!best) {
+      ui.notifications?.warn(`Could not find a date matching "${text}"`);
+      return;
+    }
+
+    Logger.debug('Navigating grid to parsed date', best);
+    this.viewDate = best.date;
+    this.render();
+  }
+
   /**
    * Create a new note for the selected date
    */
@@ -786,12 +1036,17 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const day = parseInt(dayElement.getAttribute('data-day') || '0');
     if (!day) return;
 
+    const pageName = this.getPageIntercalary(
+      game.seasonsStars?.manager?.getActiveCalendar(),
+      this.viewDate
+    )?.name;
     const targetDate: ICalendarDate = {
       year: this.viewDate.year,
       month: this.viewDate.month,
       day: day,
       weekday: 0, // Will be calculated by the engine
       time: { hour: 0, minute: 0, second: 0 },
+      ...(pageName && { intercalary: pageName }),
     };
 
     // Show note creation dialog
@@ -838,11 +1093,12 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
       let calendarInfo = '';
 
       if (activeCalendar) {
-        const monthName =
-          activeCalendar.months[safeDate.month - 1]?.name || `Month ${safeDate.month}`;
-        const yearPrefix = activeCalendar.year?.prefix || '';
-        const yearSuffix = activeCalendar.year?.suffix || '';
-        dateDisplayStr = `${safeDate.day} ${monthName}, ${yearPrefix}${safeDate.year}${yearSuffix}`;
+        dateDisplayStr = DateFormatter.formatNamed(
+          { ...date, ...safeDate },
+          activeCalendar,
+          'noteTitle',
+          manager?.getActiveEngine() || undefined
+        );
         calendarInfo = `<div style="text-align: center; margin-bottom: 16px; padding: 8px; background: rgba(0,0,0,0.1); border-radius: 4px; font-weight: 600; color: var(--color-text-dark-primary);">${dateDisplayStr}</div>`;
       }
 
@@ -1373,12 +1629,17 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     const day = parseInt(dayElement.getAttribute('data-day') || '0');
     if (!day) return;
 
+    const pageName = this.getPageIntercalary(
+      game.seasonsStars?.manager?.getActiveCalendar(),
+      this.viewDate
+    )?.name;
     const targetDate: ICalendarDate = {
       year: this.viewDate.year,
       month: this.viewDate.month,
       day: day,
       weekday: 0, // Will be calculated by the engine
       time: { hour: 0, minute: 0, second: 0 },
+      ...(pageName && { intercalary: pageName }),
     };
 
     try {
@@ -1413,10 +1674,10 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
     let dateDisplayStr = `${date.year}-${date.month.toString().padStart(2, '0')}-${date.day.toString().padStart(2, '0')}`;
 
     if (activeCalendar) {
-      const monthName = activeCalendar.months[date.month - 1]?.name || `Month ${date.month}`;
-      const yearPrefix = activeCalendar.year?.prefix || '';
-      const yearSuffix = activeCalendar.year?.suffix || '';
-      dateDisplayStr = `${date.day} ${monthName}, ${yearPrefix}${date.year}${yearSuffix}`;
+      const monthName =
+        date.intercalary || activeCalendar.months[date.month - 1]?.name || `Month ${date.month}`;
+      const yearString = DateFormatter.getYearString(activeCalendar, date.year);
+      dateDisplayStr = `${date.day} ${monthName}, ${yearString}`;
     }
 
     const notesList = notes
@@ -1553,6 +1814,13 @@ export class CalendarGridWidget extends foundry.applications.api.HandlebarsAppli
         CalendarGridWidget.activeInstance.render();
       }
     });
+
+    // Update widget when the week number column is toggled
+    Hooks.on('seasons-stars:settingsChanged', (settingName: string) => {
+      if (settingName === 'showWeekNumbers' && CalendarGridWidget.activeInstance?.rendered) {
+        CalendarGridWidget.activeInstance.render();
+      }
+    });
   }
 
   /**
@@ -88,8 +88,13 @@ export class CalendarMiniWidget extends foundry.applications.api.HandlebarsAppli
     // Check if SmallTime is available and active
     const hasSmallTime = SmallTimeUtils.isSmallTimeAvailable();
 
+    // Named part of the day (watch, bell, canonical hour) for calendars that define them
+    const timeSegment = manager.getActiveEngine()?.getTimeSegment(currentDate.toObject());
+
     return Object.assign(context, {
-      shortDate: currentDate.toDateString(),
+      shortDate: currentDate.formatNamed('widgetShort'),
+      timeSegment: timeSegment?.name,
+      timeSegmentDescription: timeSegment?.description,
       hasSmallTime: hasSmallTime,
       showTimeControls: !hasSmallTime && (game.user?.isGM || false),
       isGM: game.user?.isGM || false,
@@ -99,7 +104,7 @@ export class CalendarMiniWidget extends foundry.applications.api.HandlebarsAppli
         description: activeCalendar.description,
       },
       currentDate: currentDate.toObject(),
-      formattedDate: currentDate.toLongString(),
+      formattedDate: currentDate.formatNamed('widgetLong'),
     }) as MiniWidgetContext;
   }
 
@@ -572,6 +577,9 @@ export class CalendarMiniWidget extends foundry.applications.api.HandlebarsAppli
         case 'hours':
           await manager.advanceHours(amount);
           break;
+        case 'segments':
+          await manager.advanceTimeSegments(amount);
+          break;
         default:
           Logger.warn(`Unknown time unit: ${unit}`);
           return;
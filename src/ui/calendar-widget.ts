@@ -7,6 +7,8 @@ import { CalendarSelectionDialog } from './calendar-selection-dialog';
 import { CalendarGridWidget } from './calendar-grid-widget';
 import { CalendarMiniWidget } from './calendar-mini-widget';
 import { Logger } from '../core/logger';
+import { CalendarTimeUtils } from '../core/calendar-time-utils';
+import type { CalendarManager } from '../core/calendar-manager';
 import type { CalendarDate as ICalendarDate } from '../types/calendar';
 
 export class CalendarWidget extends foundry.applications.api.HandlebarsApplicationMixin(
@@ -92,9 +94,11 @@ export class CalendarWidget extends foundry.applications.api.HandlebarsApplicati
     return Object.assign(context, {
       calendar: calendarInfo,
       currentDate: currentDate.toObject(),
-      formattedDate: currentDate.toLongString(),
-      shortDate: currentDate.toDateString(),
+      formattedDate: currentDate.formatNamed('widgetLong'),
+      shortDate: currentDate.formatNamed('widgetShort'),
       timeString: currentDate.toTimeString(),
+      daylight: this.getDaylight(manager, currentDate.toObject()),
+      secondaryDates: this.getSecondaryDates(manager, activeCalendar.id, currentDate.toObject()),
       isGM: game.user?.isGM || false,
       canAdvanceTime: game.user?.isGM || false,
       hasSmallTime: hasSmallTime,
@@ -103,6 +107,59 @@ export class CalendarWidget extends foundry.applications.api.HandlebarsApplicati
     });
   }
 
+  /**
+   * Get dawn and dusk for the current date as display strings
+   */
+  private getDaylight(
+    manager: CalendarManager,
+    currentDate: ICalendarDate
+  ): { dawn: string; dusk: string } | null {
+    const engine = manager.getActiveEngine();
+    if (!engine) return null;
+
+    const calendar = engine.getCalendar();
+    const { sunrise, sunset } = engine.getSunriseSunset(currentDate);
+    return {
+      dawn: CalendarTimeUtils.formatHours(sunrise, calendar),
+      dusk: CalendarTimeUtils.formatHours(sunset, calendar),
+    };
+  }
+
+  /**
+   * Convert the current date into each calendar listed in the secondaryCalendars setting
+   */
+  private getSecondaryDates(
+    manager: CalendarManager,
+    activeCalendarId: string,
+    currentDate: ICalendarDate
+  ): Array<{ label: string; date: string }> {
+    const setting = (game.settings?.get('seasons-and-stars', 'secondaryCalendars') as string) || '';
+    const calendarIds = setting
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id && id !== activeCalendarId);
+
+    const secondaryDates: Array<{ label: string; date: string }> = [];
+    for (const calendarId of calendarIds) {
+      const calendar = manager.getCalendar(calendarId);
+      const converted = calendar
+        ? manager.convertDate(currentDate, activeCalendarId, calendarId)
+        : null;
+
+      if (!calendar || !converted) {
+        Logger.debug(`Cannot show secondary calendar "${calendarId}": missing calendar or anchor`);
+        continue;
+      }
+
+      secondaryDates.push({
+        label: CalendarLocalization.getCalendarLabel(calendar),
+        date: converted.formatNamed('widgetShort'),
+      });
+    }
+
+    return secondaryDates;
+  }
+
   /**
    * Attach event listeners to rendered parts
    */
@@ -163,6 +220,9 @@ export class CalendarWidget extends foundry.applications.api.HandlebarsApplicati
         case 'hours':
           await manager.advanceHours(amount);
           break;
+        case 'segments':
+          await manager.advanceTimeSegments(amount);
+          break;
         case 'days':
           await manager.advanceDays(amount);
           break;
@@ -363,7 +423,9 @@ export class CalendarWidget extends foundry.applications.api.HandlebarsApplicati
 
     // Update widget when settings change (especially quick time buttons)
     Hooks.on('seasons-stars:settingsChanged', (settingName: string) => {
-      if (settingName === 'quickTimeButtons' && CalendarWidget.activeInstance?.rendered) {
+      const affectsWidget =
+        settingName === 'quickTimeButtons' || settingName === 'secondaryCalendars';
+      if (affectsWidget && CalendarWidget.activeInstance?.rendered) {
         CalendarWidget.activeInstance.render();
       }
     });
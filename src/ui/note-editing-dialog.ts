@@ -6,6 +6,9 @@
 import type { CalendarDate as ICalendarDate } from '../types/calendar';
 import { CalendarDate } from '../core/calendar-date';
 import { Logger } from '../core/logger';
+import { DateFormatter } from '../core/date-formatter';
+import { NoteRecurrence, type RecurrenceRule, type RecurringPattern } from '../core/note-recurring';
+import { NoteReminders, type NoteReminder } from '../core/note-reminders';
 import type { UpdateNoteData } from '../core/notes-manager';
 
 export interface NoteEditingData {
@@ -17,7 +20,8 @@ export interface NoteEditingData {
   category: string;
   tags: string[];
   playerVisible: boolean;
-  recurring?: any; // Future recurring pattern support
+  recurring?: RecurringPattern;
+  reminders: NoteReminder[];
 }
 
 /**
@@ -54,9 +58,74 @@ export class NoteEditingDialog {
       category: flags?.category || 'general',
       tags: flags?.tags || [],
       playerVisible: this.journal.ownership?.default === CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER,
+      recurring: flags?.recurring,
+      reminders: flags?.reminders || [],
     };
   }
 
+  /**
+   * Get the note's recurrence as rule text, or an empty string if it doesn't repeat
+   */
+  private getRecurrenceText(): string {
+    const activeCalendar = game.seasonsStars?.manager?.getActiveCalendar();
+    const recurring = this.originalData.recurring;
+    if (!activeCalendar || !recurring) return '';
+
+    return NoteRecurrence.formatRule(
+      NoteRecurrence.toRule(recurring, activeCalendar),
+      activeCalendar
+    );
+  }
+
+  /**
+   * Get the note's reminder timings as text, e.g. "1 day before, at 18:00 on the day"
+   */
+  private getRemindersText(): string {
+    return this.originalData.reminders
+      .map(reminder => NoteReminders.describeTiming(reminder.timing))
+      .join(', ');
+  }
+
+  /**
+   * Get who the note's reminders go to; the dialog shows and sets one audience for all of them
+   */
+  private getReminderAudience(): Required<Pick<NoteReminder, 'delivery' | 'recipients'>> {
+    const { delivery, recipients } = this.originalData.reminders[0] || {};
+    return { delivery: delivery || 'whisper', recipients: recipients || [] };
+  }
+
+  /**
+   * Generate the delivery and recipient controls for reminders
+   */
+  private generateReminderAudienceFields(): string {
+    const { delivery, recipients } = this.getReminderAudience();
+    const userOptions = (
+      game.users?.map(
+        user =>
+          `<label class="reminder-recipient"><input type="checkbox" name="reminderRecipients" value="${user.id}" ${recipients.includes(user.id) ? 'checked' : ''} />${user.name}${user.isGM ? ' (GM)' : ''}</label>`
+      ) || []
+    ).join('');
+
+    return `
+          <div class="reminder-audience">
+            <select name="reminderDelivery">
+              <option value="whisper" ${delivery === 'whisper' ? 'selected' : ''}>Whisper to recipients</option>
+              <option value="chat" ${delivery === 'chat' ? 'selected' : ''}>Post to chat for everyone</option>
+            </select>
+            <div class="reminder-recipients">
+              <small>Recipients (the GMs when none are checked):</small>
+              ${userOptions}
+            </div>
+          </div>`;
+  }
+
+  /**
+   * Check whether the note is an edited occurrence of a recurring note, which can't repeat itself
+   */
+  private isRecurringOccurrence(): boolean {
+    return !!this.journal.flags?.['seasons-and-stars']?.recurringParentId;
+  }
+
   /**
    * Generate the dialog content HTML
    */
@@ -76,9 +145,11 @@ export class NoteEditingDialog {
       const monthName =
         activeCalendar.months[this.originalData.startDate.month - 1]?.name ||
         `Month ${this.originalData.startDate.month}`;
-      const yearPrefix = activeCalendar.year?.prefix || '';
-      const yearSuffix = activeCalendar.year?.suffix || '';
-      dateDisplayStr = `${this.originalData.startDate.day} ${monthName}, ${yearPrefix}${this.originalData.startDate.year}${yearSuffix}`;
+      const yearString = DateFormatter.getYearString(
+        activeCalendar,
+        this.originalData.startDate.year
+      );
+      dateDisplayStr = `${this.originalData.startDate.day} ${monthName}, ${yearString}`;
       calendarInfo = `<div style="text-align: center; margin-bottom: 16px; padding: 8px; background: rgba(0,0,0,0.1); border-radius: 4px; font-weight: 600; color: var(--color-text-dark-primary);">${dateDisplayStr}</div>`;
     }
 
@@ -132,6 +203,14 @@ export class NoteEditingDialog {
     // Format current tags for display in input
     const currentTagsString = this.originalData.tags.join(', ');
 
+    const recurrenceField = this.isRecurringOccurrence()
+      ? ''
+      : `
+        <div class="form-group">
+          <label>Repeats (optional):</label>
+          <input type="text" name="recurrence" value="${this.getRecurrenceText()}" placeholder="e.g. FREQ=MONTHLY;BYDAY=-1${activeCalendar?.weekdays[0]?.name || 'Monday'}" autocomplete="off" />
+        </div>`;
+
     return `
       <style>
         .seasons-stars-note-form {
@@ -269,6 +348,21 @@ export class NoteEditingDialog {
         .seasons-stars-note-form input[type="checkbox"] {
           margin-right: 6px;
         }
+        .seasons-stars-note-form .reminder-audience {
+          margin-top: 6px;
+        }
+        .seasons-stars-note-form .reminder-recipients {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px 12px;
+          margin-top: 6px;
+        }
+        .seasons-stars-note-form .reminder-recipient {
+          display: inline-flex;
+          align-items: center;
+          margin: 0;
+          font-weight: normal;
+        }
         .seasons-stars-note-form .visibility-section {
           border: 1px solid var(--color-border-light);
           border-radius: 4px;
@@ -321,6 +415,12 @@ export class NoteEditingDialog {
             ${tagSuggestions}
           </div>
         </div>
+        ${recurrenceField}
+        <div class="form-group">
+          <label>Reminders (optional):</label>
+          <input type="text" name="reminders" value="${this.getRemindersText()}" placeholder="e.g. 1 day before, at 18:00 on the day" autocomplete="off" />
+          ${this.generateReminderAudienceFields()}
+        </div>
 
         <div class="form-group">
           <div class="visibility-section">
@@ -589,6 +689,61 @@ export class NoteEditingDialog {
         playerVisible,
       };
 
+      // Only touch the recurrence when its text was changed
+      const recurrenceText = ((formData.get('recurrence') as string | null) ?? '').trim();
+      if (formData.has('recurrence') && recurrenceText !== this.getRecurrenceText()) {
+        const activeCalendar = game.seasonsStars?.manager?.getActiveCalendar();
+        if (recurrenceText && !activeCalendar) {
+          ui.notifications?.error('No active calendar available');
+          return;
+        }
+
+        try {
+          updateData.recurring = recurrenceText
+            ? this.buildRecurringPattern(NoteRecurrence.parseRule(recurrenceText, activeCalendar!))
+            : null;
+        } catch (error) {
+          ui.notifications?.error(
+            `Invalid recurrence: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return;
+        }
+      }
+
+      // Only touch the reminders when their timings or audience were changed
+      const remindersText = ((formData.get('reminders') as string | null) ?? '').trim();
+      const delivery = formData.get('reminderDelivery') === 'chat' ? 'chat' : 'whisper';
+      const recipients = formData.getAll('reminderRecipients').map(String).sort();
+      const original = this.getReminderAudience();
+      const audienceChanged =
+        delivery !== original.delivery ||
+        recipients.join(',') !== [...original.recipients].sort().join(',');
+      if (
+        formData.has('reminders') &&
+        (remindersText !== this.getRemindersText() || audienceChanged)
+      ) {
+        const activeCalendar = game.seasonsStars?.manager?.getActiveCalendar();
+        if (remindersText && !activeCalendar) {
+          ui.notifications?.error('No active calendar available');
+          return;
+        }
+
+        try {
+          updateData.reminders = NoteReminders.parseTimings(remindersText, activeCalendar!).map(
+            timing => ({
+              timing,
+              delivery,
+              ...(recipients.length > 0 && { recipients }),
+            })
+          );
+        } catch (error) {
+          ui.notifications?.error(
+            `Invalid reminder: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return;
+        }
+      }
+
       // Update the note
       const notesManager = game.seasonsStars?.notes;
       if (!notesManager) {
@@ -611,6 +766,20 @@ export class NoteEditingDialog {
     }
   }
 
+  /**
+   * Wrap a parsed rule in a pattern, keeping the note's existing exception dates
+   */
+  private buildRecurringPattern(rule: RecurrenceRule): RecurringPattern {
+    return {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      ...(this.originalData.recurring?.exceptions && {
+        exceptions: this.originalData.recurring.exceptions,
+      }),
+      rule,
+    };
+  }
+
   /**
    * Show the edit dialog
    */
@@ -227,7 +227,7 @@ describe('Calendar Click Behavior Feature', () => {
         year: 2024,
         month: 1,
         day: 1,
-        weekday: 0,
+        weekday: engine.calculateWeekday(2024, 1, 1, 'Festival Day'),
         time: { hour: 0, minute: 0, second: 0 },
         intercalary: 'Festival Day',
       });
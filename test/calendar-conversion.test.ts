@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarManager } from '../src/core/calendar-manager';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import dnd5eSwordCoastCalendar from '../calendars/dnd5e-sword-coast.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import golarionCalendar from '../calendars/golarion-pf2e.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import eberronCalendar from '../calendars/eberron.json';
+import travellerCalendar from '../calendars/traveller-imperial.json';
+
+const gregorian = gregorianCalendar as SeasonsStarsCalendar;
+
+describe('Cross-Calendar Conversion', () => {
+  describe('Absolute days', () => {
+    it('should map the anchor date to its absolute day', () => {
+      const engine = new CalendarEngine(gregorian);
+
+      expect(engine.dateToAbsoluteDay({ year: 2024, month: 1, day: 1, weekday: 0 })).toBe(2460311);
+      expect(engine.dateToAbsoluteDay({ year: 2000, month: 1, day: 1, weekday: 0 })).toBe(2451545);
+    });
+
+    it('should round-trip absolute days', () => {
+      const engine = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+
+      for (const absoluteDay of [0, 100000, 544953, 545318, 600000]) {
+        const date = engine.absoluteDayToDate(absoluteDay)!;
+        expect(engine.dateToAbsoluteDay(date)).toBe(absoluteDay);
+      }
+    });
+
+    it('should return null for calendars without an anchor', () => {
+      const engine = new CalendarEngine(eberronCalendar as SeasonsStarsCalendar);
+
+      expect(engine.dateToAbsoluteDay({ year: 998, month: 1, day: 1, weekday: 0 })).toBeNull();
+      expect(engine.absoluteDayToDate(0)).toBeNull();
+    });
+  });
+
+  describe('CalendarManager.convertDate', () => {
+    let manager: CalendarManager;
+
+    beforeEach(() => {
+      manager = new CalendarManager();
+      for (const calendar of [
+        gregorianCalendar,
+        golarionCalendar,
+        forgottenRealmsCalendar,
+        dnd5eSwordCoastCalendar,
+        eberronCalendar,
+        travellerCalendar,
+      ]) {
+        manager.loadCalendar(calendar as SeasonsStarsCalendar);
+      }
+    });
+
+    it('should convert Gregorian dates to Absalom Reckoning', () => {
+      const result = manager.convertDate(
+        { year: 2024, month: 7, day: 4, weekday: 0 },
+        'gregorian',
+        'golarion-pf2e'
+      );
+
+      expect(result?.toObject()).toMatchObject({ year: 4724, month: 7, day: 4 });
+    });
+
+    it('should convert Imperial dates to Terran dates', () => {
+      const founding = manager.convertDate(
+        { year: 0, month: 1, day: 1, weekday: 0 },
+        'traveller-imperial',
+        'gregorian'
+      );
+      expect(founding?.toObject()).toMatchObject({ year: 4521, month: 1, day: 1 });
+
+      const date = { year: 1105, month: 1, day: 100, weekday: 0 };
+      const terran = manager.convertDate(date, 'traveller-imperial', 'gregorian')!;
+      const back = manager.convertDate(terran.toObject(), 'gregorian', 'traveller-imperial');
+      expect(back?.toObject()).toMatchObject({ year: 1105, month: 1, day: 100 });
+    });
+
+    it('should agree between the bundled Harptos calendars', () => {
+      const date = { year: 1492, month: 5, day: 12, weekday: 0 };
+      const result = manager.convertDate(date, 'forgotten-realms', 'dnd5e-sword-coast');
+
+      expect(result?.toObject()).toMatchObject({ year: 1492, month: 5, day: 12 });
+    });
+
+    it('should preserve intercalary days', () => {
+      const midwinter = { year: 1492, month: 1, day: 1, weekday: 0, intercalary: 'Midwinter' };
+      const result = manager.convertDate(midwinter, 'forgotten-realms', 'dnd5e-sword-coast');
+
+      expect(result?.intercalary).toBe('Midwinter');
+    });
+
+    it('should carry over the time of day', () => {
+      const result = manager.convertDate(
+        { year: 2024, month: 1, day: 1, weekday: 0, time: { hour: 18, minute: 30, second: 15 } },
+        'gregorian',
+        'golarion-pf2e'
+      );
+
+      expect(result?.time).toEqual({ hour: 18, minute: 30, second: 15 });
+    });
+
+    it('should be reversible', () => {
+      const date = { year: 2024, month: 3, day: 15, weekday: 0 };
+      const harptos = manager.convertDate(date, 'gregorian', 'forgotten-realms')!;
+      const back = manager.convertDate(harptos.toObject(), 'forgotten-realms', 'gregorian');
+
+      expect(back?.toObject()).toMatchObject({ year: 2024, month: 3, day: 15 });
+    });
+
+    it('should return null when a calendar has no anchor or is unknown', () => {
+      const date = { year: 2024, month: 1, day: 1, weekday: 0 };
+
+      expect(manager.convertDate(date, 'gregorian', 'eberron')).toBeNull();
+      expect(manager.convertDate(date, 'gregorian', 'missing')).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept the bundled anchors', () => {
+      expect(CalendarValidator.validate(gregorianCalendar).isValid).toBe(true);
+      expect(CalendarValidator.validate(golarionCalendar).isValid).toBe(true);
+      expect(CalendarValidator.validate(travellerCalendar).isValid).toBe(true);
+    });
+
+    it('should reject malformed anchors', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        anchor: { absoluteDay: 1.5, date: { year: 2024, month: 13, day: 1 } },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Anchor absoluteDay must be a whole number');
+      expect(result.errors).toContain('Anchor date month must be between 1 and 12');
+    });
+  });
+});
@@ -279,6 +279,54 @@ describe('CalendarEngine - Gregorian Calendar', () => {
   });
 });
 
+describe('CalendarEngine - Year Arithmetic', () => {
+  /**
+   * Count days from the epoch by walking year by year (the original algorithm)
+   */
+  function countDaysByYear(engine: CalendarEngine, epoch: number, year: number): number {
+    let days = 0;
+    for (let y = epoch; y < year; y++) days += engine.getYearLength(y);
+    for (let y = year; y < epoch; y++) days -= engine.getYearLength(y);
+    return days;
+  }
+
+  it('should match year-by-year counting across many leap cycles', () => {
+    const engine = new CalendarEngine(gregorianCalendar);
+
+    for (const year of [-3217, -400, 1, 1600, 1900, 2000, 2023, 2100, 5301]) {
+      const days = (engine as any).dateToDays({ year, month: 1, day: 1, weekday: 0 });
+      expect(days).toBe(countDaysByYear(engine, 2024, year));
+    }
+  });
+
+  it('should fall back to cached checkpoints for very long leap cycles', () => {
+    const engine = new CalendarEngine({
+      ...simpleCalendar,
+      leapYear: { rule: 'custom', interval: 25000, month: 'Month1', extraDays: 1 },
+    });
+
+    for (const year of [-26001, -1, 0, 1, 24999, 25000, 50001]) {
+      const date = { year, month: 2, day: 15, weekday: 0 };
+      const days = (engine as any).dateToDays(date);
+
+      expect(days).toBe(countDaysByYear(engine, 0, year) + 30 + 14 + (year % 25000 === 0 ? 1 : 0));
+      expect(engine.worldTimeToDate(engine.dateToWorldTime(date))).toMatchObject({
+        year,
+        month: 2,
+        day: 15,
+      });
+    }
+  });
+
+  it('should keep weekdays continuous across leap cycle boundaries', () => {
+    const engine = new CalendarEngine(gregorianCalendar);
+
+    // 1 January 2000 was a Saturday, 1 January 2401 a Monday
+    expect(engine.calculateWeekday(2000, 1, 1)).toBe(6);
+    expect(engine.calculateWeekday(2401, 1, 1)).toBe(1);
+  });
+});
+
 describe('CalendarEngine - Multi-Day Intercalary Periods', () => {
   // Test calendar with multi-day intercalary periods
   const intercalaryTestCalendar: SeasonsStarsCalendar = {
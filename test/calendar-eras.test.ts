@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEras } from '../src/core/calendar-eras';
+import { CalendarDate } from '../src/core/calendar-date';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { DateFormatter } from '../src/core/date-formatter';
+import { DateParser } from '../src/core/date-parser';
+import { withCalendar } from './mocks/fixtures';
+
+const commonEra = withCalendar({
+  eras: [
+    { name: 'Before Common Era', abbreviation: 'BCE', backwards: true },
+    { name: 'Common Era', abbreviation: 'CE', startYear: 1 },
+  ],
+});
+
+const regnal = withCalendar({
+  eras: [
+    { name: 'Reign of Maeve', startYear: 1204, format: 'Year {year} of the {era}' },
+    { name: 'Reign of Aldric', startYear: 1180, offset: 4, format: 'Year {year} of the {era}' },
+  ],
+});
+
+describe('CalendarEras', () => {
+  describe('Era numbering', () => {
+    it('should count forward eras from their start year', () => {
+      expect(CalendarEras.getEraYear(commonEra, 1)?.eraYear).toBe(1);
+      expect(CalendarEras.formatYear(commonEra, 2024)).toBe('2024 CE');
+    });
+
+    it('should count backwards eras down towards the next era', () => {
+      expect(CalendarEras.formatYear(commonEra, 0)).toBe('1 BCE');
+      expect(CalendarEras.formatYear(commonEra, -43)).toBe('44 BCE');
+    });
+
+    it('should pick the era by start year regardless of declaration order', () => {
+      expect(CalendarEras.formatYear(regnal, 1203)).toBe('Year 28 of the Reign of Aldric');
+      expect(CalendarEras.formatYear(regnal, 1204)).toBe('Year 1 of the Reign of Maeve');
+    });
+
+    it('should return null for years before the first era', () => {
+      expect(CalendarEras.getEraYear(regnal, 1100)).toBeNull();
+      expect(DateFormatter.getYearString(regnal, 1100)).toBe('1100 CE');
+    });
+
+    it('should convert era years back to calendar years', () => {
+      const [bce, ce] = commonEra.eras!;
+      const aldric = regnal.eras![1];
+
+      expect(CalendarEras.toCalendarYear(commonEra, bce, 44)).toBe(-43);
+      expect(CalendarEras.toCalendarYear(commonEra, ce, 2024)).toBe(2024);
+      expect(CalendarEras.toCalendarYear(regnal, aldric, 28)).toBe(1203);
+    });
+  });
+
+  describe('Display', () => {
+    it('should use the era in CalendarDate year strings and tokens', () => {
+      const date = new CalendarDate({ year: -43, month: 3, day: 15, weekday: 0 }, commonEra);
+
+      expect(date.getYearString()).toBe('44 BCE');
+      expect(date.format({ template: '{eraYear} {eraAbbr} ({era})' })).toBe(
+        '44 BCE (Before Common Era)'
+      );
+    });
+
+    it('should round-trip era years through the date parser', () => {
+      for (const year of [-43, 0, 1, 2024]) {
+        const date = new CalendarDate({ year, month: 3, day: 15, weekday: 0 }, commonEra);
+        const [result] = DateParser.parse(date.format({ namedFormat: 'noteTitle' }), commonEra);
+
+        expect(result.date).toMatchObject({ year, month: 3, day: 15 });
+      }
+    });
+
+    it('should parse regnal years', () => {
+      const [result] = DateParser.parse('3 March, Year 28 of the Reign of Aldric', regnal);
+      expect(result.date).toMatchObject({ year: 1203, month: 3, day: 3 });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept well-formed eras', () => {
+      expect(CalendarValidator.validate(commonEra).isValid).toBe(true);
+    });
+
+    it('should reject malformed eras', () => {
+      const result = CalendarValidator.validate(
+        withCalendar({
+          eras: [
+            { name: 'First', backwards: true },
+            { name: 'Second' },
+            { name: '', startYear: 1.5 },
+          ],
+        })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'Era 2 omits startYear, but only one era may start at the beginning'
+      );
+      expect(result.errors).toContain('Era 3 missing required field: name');
+      expect(result.errors).toContain('Era 3 startYear must be a whole number');
+    });
+  });
+});
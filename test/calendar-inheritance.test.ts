@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CalendarInheritance } from '../src/core/calendar-inheritance';
+import { CalendarManager } from '../src/core/calendar-manager';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import dnd5eSwordCoastCalendar from '../calendars/dnd5e-sword-coast.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import golarionCalendar from '../calendars/golarion-pf2e.json';
+import starfinderCalendar from '../calendars/starfinder-absalom-station.json';
+
+const harptos = forgottenRealmsCalendar as SeasonsStarsCalendar;
+
+const variant = {
+  id: 'harptos-dalelands',
+  extends: 'forgotten-realms',
+  translations: { en: { label: 'Dalelands Reckoning' } },
+  year: { suffix: ' DY' },
+  months: [{}, {}, { name: 'Thaw' }],
+  moons: null,
+} as unknown as SeasonsStarsCalendar;
+
+describe('Calendar inheritance', () => {
+  describe('CalendarInheritance.merge', () => {
+    const merged = CalendarInheritance.merge(harptos, variant);
+
+    it('should deep-merge object overrides', () => {
+      expect(merged.id).toBe('harptos-dalelands');
+      expect(merged.year).toEqual({ ...harptos.year, suffix: ' DY' });
+      expect(merged.translations.en.label).toBe('Dalelands Reckoning');
+      expect(merged.translations.en.description).toBe(harptos.translations.en.description);
+    });
+
+    it('should merge arrays of objects item by item', () => {
+      expect(merged.months).toHaveLength(12);
+      expect(merged.months[2]).toEqual({ ...harptos.months[2], name: 'Thaw' });
+      expect(merged.months[3]).toEqual(harptos.months[3]);
+    });
+
+    it('should keep base items past the end of a partial array', () => {
+      const renamed = CalendarInheritance.merge(harptos, {
+        ...variant,
+        months: [{ name: 'Deepwinter' }],
+      } as unknown as SeasonsStarsCalendar);
+
+      expect(renamed.months.map(month => month.name)).toEqual([
+        'Deepwinter',
+        ...harptos.months.slice(1).map(month => month.name),
+      ]);
+    });
+
+    it('should remove array items set to null', () => {
+      const withoutFeast = CalendarInheritance.merge(harptos, {
+        ...variant,
+        intercalary: [...harptos.intercalary.slice(0, -1).map(() => ({})), null],
+      } as unknown as SeasonsStarsCalendar);
+
+      expect(withoutFeast.intercalary.map(day => day.name)).not.toContain('Feast of the Moon');
+      expect(withoutFeast.intercalary).toHaveLength(harptos.intercalary.length - 1);
+    });
+
+    it('should remove keys set to null and drop extends', () => {
+      expect('moons' in merged).toBe(false);
+      expect(merged.extends).toBeUndefined();
+      expect(harptos.months[2].name).toBe('Ches');
+    });
+
+    it('should rebuild near-duplicate bundled calendars from their differences', () => {
+      for (const [base, other] of [
+        [forgottenRealmsCalendar, dnd5eSwordCoastCalendar],
+        [golarionCalendar, starfinderCalendar],
+      ] as SeasonsStarsCalendar[][]) {
+        const overrides = CalendarInheritance.diff(base, other);
+
+        expect(overrides.year).not.toEqual(base.year);
+        expect(CalendarInheritance.merge(base, overrides as SeasonsStarsCalendar)).toEqual(other);
+      }
+    });
+  });
+
+  describe('CalendarManager', () => {
+    let manager: CalendarManager;
+
+    beforeEach(() => {
+      manager = new CalendarManager();
+      manager.loadCalendar(harptos);
+    });
+
+    it('should load a variant merged onto the calendar it extends', () => {
+      expect(manager.loadCalendar(variant)).toBe(true);
+
+      const calendar = manager.getCalendar('harptos-dalelands');
+      expect(calendar?.months[2].name).toBe('Thaw');
+      expect(calendar?.weekdays).toEqual(harptos.weekdays);
+      expect(manager.engines.get('harptos-dalelands')?.getMonthLength(3, 1492)).toBe(30);
+    });
+
+    it('should reject variants of unknown calendars', () => {
+      expect(manager.loadCalendar({ ...variant, extends: 'greyhawk' })).toBe(false);
+      expect(
+        manager.loadCalendar({ ...variant, id: 'harptos-self', extends: 'harptos-self' })
+      ).toBe(false);
+    });
+
+    it('should validate the merged calendar', () => {
+      const broken = { ...variant, year: { startDay: 99 } } as unknown as SeasonsStarsCalendar;
+
+      expect(manager.loadCalendar(broken)).toBe(false);
+      expect(manager.getCalendar('harptos-dalelands')).toBeNull();
+    });
+
+    it('should export either the sparse overrides or the flattened calendar', () => {
+      manager.loadCalendar(variant);
+
+      const sparse = JSON.parse(manager.exportCalendar('harptos-dalelands', { sparse: true })!);
+      const flattened = JSON.parse(manager.exportCalendar('harptos-dalelands')!);
+
+      expect(sparse).toEqual({
+        id: 'harptos-dalelands',
+        extends: 'forgotten-realms',
+        translations: { en: { label: 'Dalelands Reckoning' } },
+        year: { suffix: ' DY' },
+        months: variant.months,
+        moons: null,
+      });
+      expect(flattened).toEqual(manager.getCalendar('harptos-dalelands'));
+      expect(flattened.extends).toBeUndefined();
+
+      // Calendars that extend nothing export in full either way
+      expect(manager.exportCalendar('forgotten-realms', { sparse: true })).toBe(
+        manager.exportCalendar('forgotten-realms')
+      );
+    });
+
+    it('should load bundled variants after the calendars they extend', () => {
+      const ordered = (manager as any).orderByInheritance([
+        { id: 'child', extends: 'parent' },
+        { id: 'grandchild', extends: 'child' },
+        { id: 'parent' },
+        { id: 'sibling', extends: 'forgotten-realms' },
+        { id: 'orphan', extends: 'missing' },
+      ]);
+
+      expect(ordered.map((calendar: SeasonsStarsCalendar) => calendar.id)).toEqual([
+        'parent',
+        'sibling',
+        'child',
+        'grandchild',
+        'orphan',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { CalendarGridWidget } from '../src/ui/calendar-grid-widget';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import { gregorian, on } from './mocks/fixtures';
+
+// Julian rules until the 1582 reform; 1 January of year 0 was a Thursday in the Julian calendar
+const julianGregorian: SeasonsStarsCalendar = {
+  ...gregorian,
+  year: { ...gregorian.year, startDay: 4 },
+  leapYear: { rule: 'custom', interval: 4, month: 'February', extraDays: 1 },
+  revisions: [
+    {
+      name: 'Gregorian Reform',
+      description: 'Thursday 4 October 1582 was followed by Friday 15 October',
+      year: 1582,
+      month: 10,
+      leapYear: gregorian.leapYear,
+      droppedDays: { startDay: 5, count: 10 },
+    },
+  ],
+};
+
+describe('Calendar revisions', () => {
+  const engine = new CalendarEngine(julianGregorian);
+
+  describe('CalendarEngine', () => {
+    it('should follow the leap rules in effect for each year', () => {
+      expect(engine.getMonthLength(2, 1500)).toBe(29);
+      expect(engine.getMonthLength(2, 1700)).toBe(28);
+      expect(engine.getMonthLength(2, 2000)).toBe(29);
+    });
+
+    it('should run world time straight across the dropped days', () => {
+      const lastJulianDay = on(1582, 10, 4);
+      const nextDay = engine.addDays(lastJulianDay, 1);
+
+      expect(nextDay).toMatchObject({ year: 1582, month: 10, day: 15 });
+      expect(engine.dateToWorldTime(on(1582, 10, 15)) - engine.dateToWorldTime(lastJulianDay)).toBe(
+        86400
+      );
+      expect(engine.getYearLength(1582)).toBe(355);
+    });
+
+    it('should keep the weekday cycle going across the gap', () => {
+      // Thursday, then Friday
+      expect(engine.calculateWeekday(1582, 10, 4)).toBe(4);
+      expect(engine.calculateWeekday(1582, 10, 15)).toBe(5);
+    });
+
+    it('should round-trip dates on both sides of the reform', () => {
+      for (const date of [on(1, 1, 1), on(1582, 10, 4), on(1582, 10, 31), on(2024, 2, 29)]) {
+        expect(engine.worldTimeToDate(engine.dateToWorldTime(date))).toMatchObject({
+          year: date.year,
+          month: date.month,
+          day: date.day,
+        });
+      }
+    });
+
+    it('should treat dates inside the gap as the first day after it', () => {
+      expect(engine.dateToWorldTime(on(1582, 10, 10))).toBe(
+        engine.dateToWorldTime(on(1582, 10, 15))
+      );
+      expect(engine.isDroppedDay(1582, 10, 10)).toBe(true);
+      expect(engine.isDroppedDay(1582, 10, 15)).toBe(false);
+    });
+
+    it('should match historical Julian day numbers', () => {
+      expect(engine.dateToAbsoluteDay(on(1582, 10, 4))).toBe(2299160);
+      expect(engine.dateToAbsoluteDay(on(1582, 10, 15))).toBe(2299161);
+      expect(engine.dateToAbsoluteDay(on(1, 1, 1))).toBe(1721424);
+      expect(engine.dateToAbsoluteDay(on(2024, 1, 1))).toBe(2460311);
+    });
+
+    it('should apply revised month lengths from the revision year', () => {
+      const reformed = new CalendarEngine({
+        ...gregorian,
+        revisions: [{ name: 'Long Winter', year: 2030, months: [{ name: 'January', days: 35 }] }],
+      });
+
+      expect(reformed.getMonthLength(1, 2029)).toBe(31);
+      expect(reformed.getMonthLength(1, 2030)).toBe(35);
+      expect(reformed.addDays(on(2030, 1, 31), 4)).toMatchObject({ month: 1, day: 35 });
+    });
+  });
+
+  describe('Calendar grid', () => {
+    beforeEach(() => {
+      globalThis.game = {
+        user: { isGM: false, id: 'player-user-id' },
+        settings: { get: vi.fn().mockReturnValue('setDate') },
+        seasonsStars: { manager: { getActiveEngine: () => engine } },
+      } as any;
+    });
+
+    function monthData(month: number) {
+      const viewDate = on(1582, month, 1);
+      const grid = new CalendarGridWidget(viewDate);
+      return (grid as any).generateMonthData(julianGregorian, viewDate, viewDate);
+    }
+
+    it('should leave out dropped days and name the revision', () => {
+      const data = monthData(10);
+      const days = data.weeks.flat().filter((cell: any) => !cell.isEmpty);
+
+      expect(data.revision).toEqual({
+        name: 'Gregorian Reform',
+        description: 'Thursday 4 October 1582 was followed by Friday 15 October',
+      });
+      expect(data.totalDays).toBe(21);
+      expect(days.map((cell: any) => cell.day).slice(2, 6)).toEqual([3, 4, 15, 16]);
+    });
+
+    it('should not mark other months', () => {
+      expect(monthData(9).revision).toBeUndefined();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept well-formed revisions', () => {
+      expect(CalendarValidator.validate(julianGregorian).errors).toEqual([]);
+    });
+
+    it('should reject revisions outside the calendar', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        revisions: [
+          { name: 'Reform', year: 1582, month: 2, droppedDays: { startDay: 20, count: 10 } },
+          { name: 'Renaming', year: 1600, months: [{ name: 'Thermidor', days: 30 }] },
+          { name: 'Thirteenth', year: 1700, month: 13 },
+        ],
+      });
+
+      expect(result.errors).toContain(
+        'Revision 1 droppedDays must be within the 28 days of its month'
+      );
+      expect(result.errors).toContain("Revision 2 month 'Thermidor' does not exist in months list");
+      expect(result.errors).toContain('Revision 3 month must be between 1 and 12');
+    });
+  });
+});
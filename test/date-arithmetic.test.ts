@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarTimeUtils } from '../src/core/calendar-time-utils';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import { at, on } from './mocks/fixtures';
+
+const gregorian = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+const harptos = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+
+describe('Date arithmetic', () => {
+  describe('CalendarEngine.diff', () => {
+    it('should count whole months before the remaining days and time', () => {
+      expect(gregorian.diff(on(2024, 1, 31), at(2024, 3, 5, 6, 30))).toEqual({
+        years: 0,
+        months: 1,
+        days: 5,
+        hours: 6,
+        minutes: 30,
+        seconds: 0,
+      });
+      expect(gregorian.diff(on(2020, 2, 29), on(2024, 2, 29))).toMatchObject({
+        years: 4,
+        months: 0,
+        days: 0,
+      });
+    });
+
+    it('should give negative fields for earlier dates', () => {
+      expect(gregorian.diff(on(2024, 3, 5), at(2023, 12, 25, 12))).toEqual({
+        years: 0,
+        months: -2,
+        days: -10,
+        hours: -12,
+        minutes: 0,
+        seconds: 0,
+      });
+    });
+
+    it('should count intercalary days as days', () => {
+      // Hammer 30, Midwinter, then Alturiak 1
+      expect(harptos.diff(on(1492, 1, 30), on(1492, 2, 1))).toMatchObject({ months: 0, days: 2 });
+      expect(harptos.diff(on(1492, 1, 15), on(1492, 2, 15))).toMatchObject({ months: 1, days: 0 });
+    });
+  });
+
+  describe('CalendarEngine.add', () => {
+    it('should clamp to shorter months and add time across midnight', () => {
+      expect(gregorian.add(on(2024, 1, 31), { months: 1, hours: 30 })).toMatchObject({
+        year: 2024,
+        month: 3,
+        day: 1,
+        time: { hour: 6, minute: 0, second: 0 },
+      });
+      expect(gregorian.add(on(2024, 2, 29), { years: -1 })).toMatchObject({
+        year: 2023,
+        month: 2,
+        day: 28,
+      });
+    });
+
+    it('should land on intercalary days', () => {
+      expect(harptos.add(on(1492, 1, 30), { days: 1 })).toMatchObject({
+        month: 1,
+        day: 1,
+        intercalary: 'Midwinter',
+      });
+    });
+
+    it('should undo diff in both directions', () => {
+      const dates = [at(2023, 11, 30, 18, 45), on(2024, 2, 29), at(2024, 3, 31, 3), on(2031, 7, 4)];
+
+      for (const from of dates) {
+        for (const to of dates) {
+          const result = gregorian.add(from, gregorian.diff(from, to));
+          expect(gregorian.dateToWorldTime(result)).toBe(gregorian.dateToWorldTime(to));
+        }
+      }
+    });
+  });
+
+  describe('CalendarTimeUtils.humanizeDuration', () => {
+    it('should describe past and future durations', () => {
+      expect(CalendarTimeUtils.humanizeDuration({ months: -3, days: -4, hours: -2 })).toBe(
+        '3 months, 4 days ago'
+      );
+      expect(CalendarTimeUtils.humanizeDuration({ days: 1, minutes: 5 })).toBe(
+        'in 1 day, 5 minutes'
+      );
+    });
+
+    it('should honour the unit limit and plain mode', () => {
+      const duration = { years: 1, months: 2, days: 3 };
+
+      expect(CalendarTimeUtils.humanizeDuration(duration, { maxUnits: 3, relative: false })).toBe(
+        '1 year, 2 months, 3 days'
+      );
+      expect(CalendarTimeUtils.humanizeDuration({}, { relative: false })).toBe('0 seconds');
+      expect(CalendarTimeUtils.humanizeDuration({ days: 0 })).toBe('now');
+    });
+  });
+});
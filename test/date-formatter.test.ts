@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { DateFormatter } from '../src/core/date-formatter';
+import { CalendarDate } from '../src/core/calendar-date';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import gregorianCalendar from '../calendars/gregorian.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+
+const gregorian = gregorianCalendar as SeasonsStarsCalendar;
+const forgottenRealms = forgottenRealmsCalendar as SeasonsStarsCalendar;
+
+const christmas = {
+  year: 2024,
+  month: 12,
+  day: 25,
+  weekday: 3,
+  time: { hour: 14, minute: 5, second: 9 },
+};
+
+describe('DateFormatter', () => {
+  describe('Tokens', () => {
+    it('should replace date tokens', () => {
+      expect(
+        DateFormatter.format(
+          christmas,
+          gregorian,
+          '{weekdayAbbr} {dayPadded}/{monthPadded}/{year} ({monthAbbr} {dayOrdinal})'
+        )
+      ).toBe('Wed 25/12/2024 (Dec 25th)');
+    });
+
+    it('should replace year and time tokens', () => {
+      expect(
+        DateFormatter.format(christmas, gregorian, '{yearPrefix}{year}{yearSuffix} at {time}')
+      ).toBe('2024 CE at 14:05:09');
+      expect(DateFormatter.format(christmas, gregorian, '{hour}h{minute}')).toBe('14h05');
+    });
+
+    it('should replace the moon token', () => {
+      const date = { year: 1372, month: 1, day: 1, weekday: 0 };
+      const engine = new CalendarEngine(forgottenRealms);
+
+      expect(DateFormatter.format(date, forgottenRealms, '{moon}', engine)).toBe('Full Moon');
+      expect(DateFormatter.format(date, forgottenRealms, '{moons}')).toBe('Selûne: Full Moon');
+    });
+
+    it('should replace the season token', () => {
+      const calendar: SeasonsStarsCalendar = {
+        ...gregorian,
+        seasons: [{ name: 'Winter', startMonth: 12, startDay: 1, endMonth: 12 }],
+      };
+
+      expect(DateFormatter.format(christmas, calendar, '{season}')).toBe('Winter');
+    });
+
+    it('should leave unknown tokens untouched', () => {
+      expect(DateFormatter.format(christmas, gregorian, '{day} {unknown}')).toBe('25 {unknown}');
+    });
+
+    it('should drop separators left by empty tokens', () => {
+      const { time: _time, ...dateWithoutTime } = christmas;
+
+      expect(DateFormatter.format(dateWithoutTime, gregorian, '{day} {month}, {time}')).toBe(
+        '25 December'
+      );
+    });
+  });
+
+  describe('Named formats', () => {
+    it('should reproduce the built-in layouts by default', () => {
+      const date = new CalendarDate(christmas, gregorian);
+
+      expect(date.formatNamed('widgetShort')).toBe(date.toDateString());
+      expect(date.formatNamed('widgetLong')).toBe(date.toLongString());
+      expect(date.formatNamed('default')).toBe(date.format());
+    });
+
+    it('should reproduce the built-in layouts for intercalary days', () => {
+      const date = new CalendarDate(
+        { year: 1372, month: 1, day: 1, weekday: 0, intercalary: 'Midwinter' },
+        forgottenRealms
+      );
+
+      expect(date.formatNamed('widgetShort')).toBe(date.toDateString());
+    });
+
+    it('should prefer formats declared by the calendar', () => {
+      const calendar: SeasonsStarsCalendar = {
+        ...gregorian,
+        dateFormats: {
+          widgetShort: '{day} {monthAbbr}',
+          chatTimestamp: { date: '{month} {day}', intercalary: '{intercalary}!' },
+        },
+      };
+      const date = new CalendarDate(christmas, calendar);
+
+      expect(date.formatNamed('widgetShort')).toBe('25 Dec');
+      expect(date.format({ namedFormat: 'chatTimestamp' })).toBe('December 25');
+      expect(date.clone({ intercalary: 'Leap Day' }).formatNamed('chatTimestamp')).toBe(
+        'Leap Day!'
+      );
+    });
+
+    it('should fall back to the default format for unknown names', () => {
+      const date = new CalendarDate(christmas, gregorian);
+      expect(date.formatNamed('nonexistent')).toBe(date.formatNamed('default'));
+    });
+
+    it('should format with a template option', () => {
+      const date = new CalendarDate(christmas, gregorian);
+      expect(date.format({ template: '{month} {year}' })).toBe('December 2024');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept string and object formats', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        dateFormats: { widgetShort: '{day}', noteTitle: { date: '{day}', intercalary: '{day}' } },
+      });
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject formats without a date string', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        dateFormats: { noteTitle: { intercalary: '{intercalary}' } },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        "Date format 'noteTitle' must be a string or an object with a date string"
+      );
+    });
+  });
+});
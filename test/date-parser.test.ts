@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { DateParser } from '../src/core/date-parser';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import eberronCalendar from '../calendars/eberron.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import valeReckoningCalendar from '../calendars/vale-reckoning.json';
+
+const forgottenRealms = forgottenRealmsCalendar as SeasonsStarsCalendar;
+const eberron = eberronCalendar as SeasonsStarsCalendar;
+const gregorian = gregorianCalendar as SeasonsStarsCalendar;
+const valeReckoning = valeReckoningCalendar as SeasonsStarsCalendar;
+
+function best(text: string, calendar: SeasonsStarsCalendar, defaultYear?: number) {
+  return DateParser.parse(text, calendar, new CalendarEngine(calendar), { defaultYear })[0];
+}
+
+describe('DateParser', () => {
+  describe('Month names', () => {
+    it('should parse ordinal days with a year suffix', () => {
+      const result = best('3rd of Hammer, 1492 DR', forgottenRealms);
+
+      expect(result.date).toMatchObject({ year: 1492, month: 1, day: 3 });
+      expect(result.confidence).toBe(1);
+    });
+
+    it('should parse month-first dates', () => {
+      const result = best('Zarantyr 14 998 YK', eberron);
+      expect(result.date).toMatchObject({ year: 998, month: 1, day: 14 });
+    });
+
+    it('should ignore case', () => {
+      expect(best('25 DECEMBER 2024', gregorian).date).toMatchObject({
+        year: 2024,
+        month: 12,
+        day: 25,
+      });
+    });
+
+    it('should match abbreviations and partial names with lower confidence', () => {
+      const abbreviated = best('Dec 25 2024', gregorian);
+      const partial = best('Decem 25 2024', gregorian);
+
+      expect(abbreviated.date).toMatchObject({ month: 12, day: 25 });
+      expect(partial.date).toMatchObject({ month: 12, day: 25 });
+      expect(abbreviated.confidence).toBeLessThan(1);
+      expect(partial.confidence).toBeLessThan(abbreviated.confidence);
+    });
+
+    it('should return every month sharing an abbreviation', () => {
+      const results = DateParser.parse('5 Ele 1492', forgottenRealms);
+      const months = results.map(candidate => candidate.date.month);
+
+      expect(months).toContain(8);
+      expect(months).toContain(9);
+    });
+
+    it('should use the default year when none is given', () => {
+      expect(best('3 Hammer', forgottenRealms, 1372).date).toMatchObject({
+        year: 1372,
+        month: 1,
+        day: 3,
+      });
+    });
+
+    it('should calculate the weekday of the result', () => {
+      const engine = new CalendarEngine(gregorian);
+      const result = best('25 December 2024', gregorian);
+
+      expect(result.date.weekday).toBe(engine.calculateWeekday(2024, 12, 25));
+    });
+  });
+
+  describe('Ambiguity and scoring', () => {
+    it('should offer both readings of two plain numbers, day first', () => {
+      const results = DateParser.parse('March 10 12', gregorian);
+
+      expect(results[0].date).toMatchObject({ year: 12, day: 10 });
+      expect(results[1].date).toMatchObject({ year: 10, day: 12 });
+      expect(results[0].confidence).toBeGreaterThan(results[1].confidence);
+    });
+
+    it('should skip readings where the day does not fit the month', () => {
+      expect(best('February 29 2024', gregorian).date).toMatchObject({ year: 2024, day: 29 });
+      expect(DateParser.parse('February 29 2023', gregorian)).toEqual([]);
+    });
+
+    it('should penalise a weekday that does not match the date', () => {
+      const matching = best('Wednesday, 25 December 2024', gregorian);
+      const mismatched = best('Friday, 25 December 2024', gregorian);
+
+      expect(matching.confidence).toBe(1);
+      expect(mismatched.confidence).toBeLessThan(matching.confidence);
+    });
+
+    it('should not mistake ordinal weekday names for days', () => {
+      // Forgotten Realms weekdays are named "1st" to "10th"
+      const result = best('7th Mirtul 1492', forgottenRealms);
+      expect(result.date).toMatchObject({ year: 1492, month: 5, day: 7 });
+    });
+
+    it('should return nothing for unrelated text', () => {
+      expect(DateParser.parse('hello world', gregorian)).toEqual([]);
+      expect(DateParser.parse('', gregorian)).toEqual([]);
+    });
+  });
+
+  describe('Intercalary days and numeric dates', () => {
+    it('should parse multi-word intercalary names', () => {
+      const result = best('Feast of the Moon 1492 DR', forgottenRealms);
+
+      expect(result.date).toMatchObject({
+        year: 1492,
+        month: 11,
+        day: 1,
+        intercalary: 'Feast of the Moon',
+      });
+    });
+
+    it('should only find leap-year periods in leap years', () => {
+      expect(best('Shieldmeet 1492 DR', forgottenRealms).date).toMatchObject({
+        year: 1492,
+        intercalary: 'Shieldmeet',
+      });
+      expect(DateParser.parse('Shieldmeet 1491 DR', forgottenRealms)).toEqual([]);
+    });
+
+    it('should give intercalary days their own weekday', () => {
+      const engine = new CalendarEngine(valeReckoning);
+      const result = best('Hearthmoor 1542', valeReckoning);
+
+      expect(result.date).toMatchObject({ year: 1542, month: 1, intercalary: 'Hearthmoor' });
+      expect(result.date.weekday).toBe(engine.calculateWeekday(1542, 1, 1, 'Hearthmoor'));
+      expect(result.date.weekday).not.toBe(engine.calculateWeekday(1542, 1, 1));
+    });
+
+    it('should parse ISO-style dates', () => {
+      expect(best('1492-03-07', forgottenRealms).date).toMatchObject({
+        year: 1492,
+        month: 3,
+        day: 7,
+      });
+      expect(DateParser.parse('1492-13-01', forgottenRealms)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarTimeUtils } from '../src/core/calendar-time-utils';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { gregorian, on, withCalendar } from './mocks/fixtures';
+
+describe('Daylight', () => {
+  describe('Latitude curve', () => {
+    const engine = new CalendarEngine(gregorian);
+
+    it('should give the longest day at the solstice', () => {
+      const summer = engine.getSunriseSunset(on(2024, 6, 21));
+      const winter = engine.getSunriseSunset(on(2024, 12, 21));
+
+      expect(summer.sunset - summer.sunrise).toBeCloseTo(15.42, 1);
+      expect(winter.sunset - winter.sunrise).toBeCloseTo(8.58, 1);
+    });
+
+    it('should centre the day on solar noon', () => {
+      const { sunrise, sunset } = engine.getSunriseSunset(on(2024, 3, 20));
+
+      expect((sunrise + sunset) / 2).toBeCloseTo(12);
+      expect(sunset - sunrise).toBeCloseTo(12, 0);
+    });
+
+    it('should reverse the seasons in the southern hemisphere', () => {
+      const southern = new CalendarEngine(
+        withCalendar({ daylight: { ...gregorian.daylight, latitude: -45 } })
+      );
+      const { sunrise, sunset } = southern.getSunriseSunset(on(2024, 6, 21));
+
+      expect(sunset - sunrise).toBeCloseTo(8.58, 1);
+    });
+
+    it('should produce polar day and night', () => {
+      const arctic = new CalendarEngine(
+        withCalendar({ daylight: { ...gregorian.daylight, latitude: 80 } })
+      );
+
+      expect(arctic.getSunriseSunset(on(2024, 6, 21))).toEqual({ sunrise: 0, sunset: 24 });
+      expect(arctic.getSunriseSunset(on(2024, 12, 21))).toEqual({ sunrise: 12, sunset: 12 });
+    });
+  });
+
+  describe('Day length curve', () => {
+    it('should follow the configured longest and shortest days in calendar hours', () => {
+      const twentyHourDay = {
+        ...gregorian,
+        time: { hoursInDay: 20, minutesInHour: 50, secondsInMinute: 50 },
+      };
+      const engine = new CalendarEngine(
+        withCalendar(
+          { daylight: { solstice: { month: 6, day: 21 }, longestDay: 14, shortestDay: 6 } },
+          twentyHourDay
+        )
+      );
+
+      expect(engine.getSunriseSunset(on(2024, 6, 21))).toEqual({ sunrise: 3, sunset: 17 });
+      const winter = engine.getSunriseSunset(on(2024, 12, 21));
+      expect(winter.sunset - winter.sunrise).toBeCloseTo(6, 1);
+    });
+  });
+
+  describe('Monthly table', () => {
+    const months = gregorian.months.map((_, index) => ({
+      sunrise: index === 0 ? 8 : 6,
+      sunset: index === 0 ? 16 : 18,
+    }));
+    const engine = new CalendarEngine(withCalendar({ daylight: { months } }));
+
+    it('should use the table value in the middle of a month', () => {
+      const { sunrise, sunset } = engine.getSunriseSunset(on(2024, 2, 15));
+
+      expect(sunrise).toBeCloseTo(6);
+      expect(sunset).toBeCloseTo(18);
+    });
+
+    it('should interpolate between months and across the new year', () => {
+      const january = engine.getSunriseSunset(on(2024, 1, 16));
+      const endOfJanuary = engine.getSunriseSunset(on(2024, 1, 31));
+      const endOfDecember = engine.getSunriseSunset(on(2024, 12, 31));
+
+      expect(january.sunrise).toBeCloseTo(8);
+      expect(endOfJanuary.sunrise).toBeGreaterThan(6);
+      expect(endOfJanuary.sunrise).toBeLessThan(8);
+      expect(endOfDecember.sunrise).toBeGreaterThan(6);
+    });
+  });
+
+  describe('Defaults', () => {
+    it('should scale the default dawn and dusk to the length of the day', () => {
+      const engine = new CalendarEngine(
+        withCalendar(
+          { daylight: undefined },
+          {
+            ...gregorian,
+            time: { hoursInDay: 20, minutesInHour: 60, secondsInMinute: 60 },
+          }
+        )
+      );
+
+      expect(engine.getSunriseSunset(on(2024, 6, 21))).toEqual({ sunrise: 5, sunset: 15 });
+    });
+
+    it('should format fractional hours with the calendar minutes', () => {
+      expect(CalendarTimeUtils.formatHours(6.5, gregorian)).toBe('06:30');
+      expect(CalendarTimeUtils.formatHours(17.999, gregorian)).toBe('18:00');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept the bundled daylight curve', () => {
+      expect(CalendarValidator.validate(gregorian).isValid).toBe(true);
+    });
+
+    it('should reject incomplete daylight configuration', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        daylight: { latitude: 45, longestDay: 16, months: [{ sunrise: 7, sunset: 6 }] },
+      });
+
+      expect(result.errors).toContain('Daylight solstice is required with latitude or longestDay');
+      expect(result.errors).toContain('Daylight longestDay and shortestDay must be given together');
+      expect(result.errors).toContain('Daylight months entry 1 sunrise must not be after sunset');
+      expect(result.errors).toContain('Daylight months must have one entry per month (12)');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { CalendarEngine, runCalendarCli, type CalendarCliIO } from '../src/headless';
+import { Logger } from '../src/core/logger';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import gregorianCalendar from '../calendars/gregorian.json';
+
+const bundledCalendars = import.meta.glob('../calendars/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+function createIO(extra: Record<string, unknown> = {}) {
+  const output = { log: [] as string[], error: [] as string[] };
+  const io: CalendarCliIO = {
+    loadCalendar: reference => {
+      const calendar = extra[reference] ?? bundledCalendars[`../calendars/${reference}.json`];
+      if (!calendar) throw new Error(`No calendar named ${reference}`);
+      return calendar;
+    },
+    log: line => output.log.push(line),
+    error: line => output.error.push(line),
+  };
+  return { io, output };
+}
+
+describe('Headless calendar CLI', () => {
+  describe('validate', () => {
+    it('should pass every bundled calendar', () => {
+      const { io, output } = createIO();
+      const ids = Object.keys(bundledCalendars).map(file => file.replace(/^.*\/|\.json$/g, ''));
+
+      expect(runCalendarCli(['validate', ...ids], io)).toBe(0);
+      expect(output.log.filter(line => line.startsWith('✓'))).toHaveLength(ids.length);
+    });
+
+    it('should report broken and missing calendars', () => {
+      const { io, output } = createIO({ broken: { id: 'broken', months: [] } });
+
+      expect(runCalendarCli(['validate', 'broken', 'missing', 'gregorian'], io)).toBe(1);
+      expect(output.error).toContain('✗ broken');
+      expect(output.error).toContain('✗ missing: No calendar named missing');
+      expect(output.log).toContain('✓ gregorian');
+    });
+
+    it('should merge variants onto the calendars they extend', () => {
+      const { io, output } = createIO({
+        'short-year': { id: 'short-year', extends: 'gregorian', year: { epoch: 100 } },
+        loop: { id: 'loop', extends: 'loop' },
+      });
+
+      expect(runCalendarCli(['validate', 'short-year'], io)).toBe(0);
+      expect(runCalendarCli(['validate', 'loop'], io)).toBe(1);
+      expect(output.error).toContain('✗ loop: Calendar loop extends itself through loop');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should round-trip world time through dates', () => {
+      const engine = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+      const worldTime = engine.dateToWorldTime({
+        year: 2024,
+        month: 3,
+        day: 10,
+        weekday: 0,
+        time: { hour: 6, minute: 30, second: 0 },
+      });
+      const { io, output } = createIO();
+
+      expect(runCalendarCli(['to-time', 'gregorian', '2024-3-10', '6:30'], io)).toBe(0);
+      expect(output.log).toEqual([String(worldTime)]);
+
+      expect(runCalendarCli(['to-date', 'gregorian', String(worldTime)], io)).toBe(0);
+      expect(JSON.parse(output.log[2])).toMatchObject({
+        year: 2024,
+        month: 3,
+        day: 10,
+        time: { hour: 6, minute: 30, second: 0 },
+      });
+    });
+
+    it('should fail on unreadable input', () => {
+      const { io, output } = createIO();
+
+      expect(runCalendarCli(['to-date', 'gregorian', 'noon'], io)).toBe(1);
+      expect(runCalendarCli(['to-time', 'gregorian'], io)).toBe(1);
+      expect(output.error).toEqual([
+        'World time must be a whole number: noon',
+        'Usage: seasons-stars to-time <calendar> <date> [hh:mm[:ss]]',
+      ]);
+    });
+  });
+
+  describe('grid', () => {
+    it('should place days under their weekdays', () => {
+      const { io, output } = createIO();
+
+      expect(runCalendarCli(['grid', 'gregorian', '2024', 'february'], io)).toBe(0);
+      expect(output.log).toEqual([
+        'February 2024 CE',
+        'Sun Mon Tue Wed Thu Fri Sat',
+        '                  1   2   3',
+        '  4   5   6   7   8   9  10',
+        ' 11  12  13  14  15  16  17',
+        ' 18  19  20  21  22  23  24',
+        ' 25  26  27  28  29',
+      ]);
+    });
+
+    it('should list the intercalary days after a month', () => {
+      const { io, output } = createIO();
+
+      expect(runCalendarCli(['grid', 'forgotten-realms', '1495', '7'], io)).toBe(0);
+      expect(output.log).toHaveLength(6);
+      expect(output.log[output.log.length - 1]).toBe('+ Midsummer (1 day)');
+    });
+
+    it('should reject months outside the calendar', () => {
+      const { io, output } = createIO();
+
+      expect(runCalendarCli(['grid', 'gregorian', '2024', '13'], io)).toBe(1);
+      expect(output.error).toEqual(['Month must be between 1 and 12: 13']);
+    });
+  });
+
+  it('should print usage for help and unknown commands', () => {
+    const { io, output } = createIO();
+
+    expect(runCalendarCli(['--help'], io)).toBe(0);
+    expect(output.log[0]).toBe('Usage: seasons-stars <command> [arguments]');
+    expect(runCalendarCli(['bogus'], io)).toBe(1);
+    expect(output.error[0]).toBe('Unknown command: bogus');
+  });
+
+  describe('without Foundry globals', () => {
+    const globals = globalThis as any;
+    const { game, ui } = globals;
+
+    afterEach(() => {
+      globals.game = game;
+      globals.ui = ui;
+    });
+
+    it('should log to the console only', () => {
+      delete globals.game;
+      delete globals.ui;
+
+      expect(() => Logger.warn('headless warning')).not.toThrow();
+      expect(() => Logger.error('headless error')).not.toThrow();
+      expect(() => Logger.debug('headless debug')).not.toThrow();
+
+      const { io } = createIO();
+      expect(runCalendarCli(['to-date', 'greyhawk', '0'], io)).toBe(0);
+    });
+  });
+});
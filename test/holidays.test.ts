@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { NoteRecurrence } from '../src/core/note-recurring';
+import { CalendarGridWidget } from '../src/ui/calendar-grid-widget';
+import type { CalendarHoliday, SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import { gregorian, on } from './mocks/fixtures';
+
+const festivals: CalendarHoliday[] = [
+  { name: 'Midwinter', recurrence: { frequency: 'yearly', yearMonth: 12, yearDay: 21 } },
+  {
+    name: 'Greengrass Feast',
+    description: 'Planting begins',
+    recurrence: { frequency: 'yearly', yearMonth: 3, monthWeek: 1, monthWeekday: '10th' },
+  },
+  {
+    name: 'Shieldmeet Council',
+    startYear: 1488,
+    recurrence: { frequency: 'yearly', interval: 4, yearMonth: 7, yearDay: 30 },
+  },
+  { name: 'Market Day', recurrence: { frequency: 'monthly', monthDay: 15 } },
+];
+
+const harptos: SeasonsStarsCalendar = {
+  ...(forgottenRealmsCalendar as SeasonsStarsCalendar),
+  holidays: festivals,
+};
+
+function holidayNames(engine: CalendarEngine, year: number, month: number, day: number) {
+  return engine.getHolidays(on(year, month, day)).map(holiday => holiday.name);
+}
+
+describe('Calendar holidays', () => {
+  describe('CalendarEngine.getHolidays', () => {
+    const engine = new CalendarEngine(harptos);
+
+    it('should find fixed yearly holidays', () => {
+      expect(holidayNames(engine, 1492, 12, 21)).toEqual(['Midwinter']);
+      expect(holidayNames(engine, 1493, 12, 21)).toEqual(['Midwinter']);
+      expect(holidayNames(engine, 1492, 12, 20)).toEqual([]);
+    });
+
+    it("should find the nth weekday by the calendar's own weekday names", () => {
+      // Harptos tendays restart each month, so the first '10th' weekday is day 10
+      expect(holidayNames(engine, 1492, 3, 10)).toEqual(['Greengrass Feast']);
+      expect(holidayNames(engine, 1492, 3, 20)).toEqual([]);
+    });
+
+    it('should count intervals from the start year', () => {
+      expect(holidayNames(engine, 1488, 7, 30)).toEqual(['Shieldmeet Council']);
+      expect(holidayNames(engine, 1492, 7, 30)).toEqual(['Shieldmeet Council']);
+      expect(holidayNames(engine, 1493, 7, 30)).toEqual([]);
+      expect(holidayNames(engine, 1484, 7, 30)).toEqual([]);
+    });
+
+    it('should repeat monthly holidays every month', () => {
+      expect(holidayNames(engine, 1492, 1, 15)).toEqual(['Market Day']);
+      expect(holidayNames(engine, 1492, 9, 15)).toEqual(['Market Day']);
+    });
+
+    it('should not place holidays on intercalary days', () => {
+      expect(engine.getHolidays({ ...on(1492, 1, 1), intercalary: 'Midwinter' })).toEqual([]);
+    });
+
+    it('should ship holidays with the Gregorian calendar', () => {
+      const gregorianEngine = new CalendarEngine(gregorian);
+
+      expect(holidayNames(gregorianEngine, 2024, 1, 1)).toEqual(["New Year's Day"]);
+      expect(holidayNames(gregorianEngine, 2025, 12, 25)).toEqual(['Christmas Day']);
+    });
+  });
+
+  describe('NoteRecurrence.matchesDate', () => {
+    const engine = new CalendarEngine(gregorian);
+    const start = on(2024, 1, 1);
+
+    it('should match weekly patterns on English weekday names', () => {
+      const pattern = NoteRecurrence.createWeeklyPattern(['saturday']);
+
+      // 6 January 2024 was a Saturday
+      expect(NoteRecurrence.matchesDate(on(2024, 1, 6), pattern, start, engine)).toBe(true);
+      expect(NoteRecurrence.matchesDate(on(2024, 1, 7), pattern, start, engine)).toBe(false);
+    });
+
+    it('should clamp days past the end of a short month', () => {
+      const pattern = NoteRecurrence.createMonthlyDayPattern(31);
+
+      expect(NoteRecurrence.matchesDate(on(2023, 2, 28), pattern, on(2023, 1, 1), engine)).toBe(
+        true
+      );
+      expect(NoteRecurrence.matchesDate(on(2024, 2, 28), pattern, start, engine)).toBe(false);
+    });
+
+    it('should skip exceptions and dates after the end date', () => {
+      const pattern = NoteRecurrence.createYearlyPattern(3, 1, 1, {
+        exceptions: [on(2025, 3, 1)],
+        endDate: on(2026, 12, 31),
+      });
+
+      expect(NoteRecurrence.matchesDate(on(2024, 3, 1), pattern, start, engine)).toBe(true);
+      expect(NoteRecurrence.matchesDate(on(2025, 3, 1), pattern, start, engine)).toBe(false);
+      expect(NoteRecurrence.matchesDate(on(2027, 3, 1), pattern, start, engine)).toBe(false);
+    });
+  });
+
+  describe('Calendar grid', () => {
+    beforeEach(() => {
+      const engine = new CalendarEngine(harptos);
+      globalThis.game = {
+        user: { isGM: false, id: 'player-user-id' },
+        settings: { get: vi.fn().mockReturnValue('setDate') },
+        seasonsStars: { manager: { getActiveEngine: () => engine } },
+      } as any;
+    });
+
+    it('should show holidays on their days without notes', () => {
+      const viewDate = { year: 1492, month: 3, day: 1, weekday: 0 };
+      const grid = new CalendarGridWidget(viewDate);
+      const monthData = (grid as any).generateMonthData(harptos, viewDate, viewDate);
+      const days = monthData.weeks.flat().filter((cell: any) => !cell.isEmpty);
+      const feast = days.find((cell: any) => cell.day === 10);
+
+      expect(feast.holidays).toEqual(['Greengrass Feast']);
+      expect(feast.holidayTooltip).toBe('Greengrass Feast: Planting begins');
+      expect(feast.hasNotes).toBe(false);
+      expect(days.find((cell: any) => cell.day === 11).holidays).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept well-formed holidays', () => {
+      expect(CalendarValidator.validate(harptos).errors).toEqual([]);
+    });
+
+    it('should reject unknown frequencies, months and weekdays', () => {
+      const result = CalendarValidator.validate({
+        ...harptos,
+        holidays: [
+          { name: 'Fortnightly', recurrence: { frequency: 'fortnightly' } },
+          { name: 'Lost Feast', recurrence: { frequency: 'yearly', yearMonth: 13, yearDay: 1 } },
+          {
+            name: 'Moonfeast',
+            recurrence: { frequency: 'monthly', monthWeek: 1, monthWeekday: 'Moonday' },
+          },
+          { recurrence: { frequency: 'daily' } },
+        ],
+      });
+
+      expect(result.errors).toContain(
+        'Holiday 1 recurrence frequency must be one of: daily, weekly, monthly, yearly'
+      );
+      expect(result.errors).toContain('Holiday 2 recurrence yearMonth must be between 1 and 12');
+      expect(result.errors).toContain('Holiday 3 recurrence has unknown weekday: Moonday');
+      expect(result.errors).toContain('Holiday 4 must have a name');
+    });
+  });
+});
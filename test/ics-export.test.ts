@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { NoteIcsExport, type IcsDateProxy } from '../src/core/note-ics-export';
+import { NoteRecurrence, type RecurringPattern } from '../src/core/note-recurring';
+import type { CalendarDate, SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import golarionCalendar from '../calendars/golarion-pf2e.json';
+import darkSunCalendar from '../calendars/dark-sun.json';
+import { at, createNoteJournal, gregorian, on } from './mocks/fixtures';
+
+const harptos = forgottenRealmsCalendar as SeasonsStarsCalendar;
+const golarion = golarionCalendar as SeasonsStarsCalendar;
+const darkSun = darkSunCalendar as SeasonsStarsCalendar;
+
+function exportNotes(
+  calendar: SeasonsStarsCalendar,
+  proxy: IcsDateProxy,
+  notes: unknown[],
+  range?: { rangeStart: CalendarDate; rangeEnd: CalendarDate }
+): string[] {
+  const ics = NoteIcsExport.exportNotes(
+    notes as JournalEntry[],
+    calendar,
+    new CalendarEngine(calendar),
+    {
+      proxy,
+      ...range,
+    }
+  );
+  // Unfold continuation lines
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('iCalendar export', () => {
+  const sameDay: IcsDateProxy = { gameDate: on(2024, 1, 1), realDate: '2024-01-01' };
+
+  it('should write an all-day event with the game date and categories', () => {
+    const lines = exportNotes(gregorian, sameDay, [
+      createNoteJournal('feast', on(2024, 3, 15), {
+        name: 'Feast; bring wine',
+        content: '<p>At the <strong>inn</strong>, noon</p>',
+        category: 'event',
+        tags: ['party', 'event'],
+        modified: Date.UTC(2024, 0, 2, 3, 4, 5),
+      }),
+    ]);
+
+    expect(lines.slice(0, 4)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Seasons & Stars//Calendar Notes//EN',
+      'CALSCALE:GREGORIAN',
+    ]);
+    expect(lines).toContain('UID:feast@seasons-and-stars');
+    expect(lines).toContain('DTSTAMP:20240102T030405Z');
+    expect(lines).toContain('SUMMARY:Feast\\; bring wine');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240315');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240316');
+    expect(lines).toContain('CATEGORIES:event,party');
+
+    const gameDate = lines.find(line => line.startsWith('X-SEASONS-STARS-DATE:'))!.slice(21);
+    expect(gameDate).toContain('15');
+    expect(lines).toContain(`DESCRIPTION:${gameDate}\\n\\nAt the inn\\, noon`);
+    expect(lines[lines.length - 2]).toBe('END:VCALENDAR');
+  });
+
+  it('should map game days and hours onto the proxy dates', () => {
+    const proxy: IcsDateProxy = { gameDate: on(1492, 1, 1), realDate: '2025-06-01' };
+    const lines = exportNotes(harptos, proxy, [
+      createNoteJournal('council', at(1492, 1, 11, 18, 30), {
+        allDay: false,
+        endDate: at(1492, 1, 12, 6, 0),
+        content: 'Council meets',
+      }),
+    ]);
+
+    expect(lines).toContain('DTSTART:20250611T183000');
+    expect(lines).toContain('DTEND:20250612T060000');
+    expect(lines.find(line => line.startsWith('X-SEASONS-STARS-DATE:'))).toMatch(/18:30$/);
+
+    // The time appears once, after the named date
+    const description = lines.find(line => line.startsWith('DESCRIPTION:'))!;
+    expect(description).toMatch(/^DESCRIPTION:[^:]*11[^:]* 18:30\\n\\nCouncil meets$/);
+    expect(description.match(/18:30/g)).toHaveLength(1);
+  });
+
+  it('should write recurring parents as RRULEs on Gregorian-aligned dates', () => {
+    const recurring: RecurringPattern = {
+      frequency: 'monthly',
+      interval: 1,
+      rule: NoteRecurrence.parseRule('FREQ=MONTHLY;BYDAY=2Friday;COUNT=6', gregorian),
+      exceptions: [on(2024, 3, 8)],
+    };
+    const lines = exportNotes(gregorian, sameDay, [
+      createNoteJournal('guild', on(2024, 1, 12), { recurring, isRecurringParent: true }),
+      createNoteJournal('guild-edit', on(2024, 2, 10), {
+        recurringParentId: 'guild',
+        occurrenceDate: on(2024, 2, 9),
+      }),
+    ]);
+
+    expect(lines).toContain('RRULE:FREQ=MONTHLY;BYDAY=2FR;COUNT=6');
+    expect(lines).toContain('EXDATE;VALUE=DATE:20240308,20240209');
+    expect(lines).toContain('UID:guild-edit@seasons-and-stars');
+  });
+
+  it('should shift weekdays and week lengths onto real weeks', () => {
+    const engine = new CalendarEngine(golarion);
+    const start = on(4725, 1, 1);
+    const weekday = golarion.weekdays[engine.calculateWeekday(4725, 1, 1)].name;
+    const golarionProxy: IcsDateProxy = { gameDate: start, realDate: '2024-01-01' }; // a Monday
+
+    const weekly = exportNotes(golarion, golarionProxy, [
+      createNoteJournal('watch', start, {
+        isRecurringParent: true,
+        recurring: {
+          frequency: 'weekly',
+          interval: 2,
+          rule: NoteRecurrence.parseRule(`FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`, golarion),
+        },
+      }),
+    ]);
+    expect(weekly).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+
+    const sixDayWeeks = { ...darkSun, intercalary: [] };
+    const sixDays = exportNotes(sixDayWeeks, { gameDate: on(190, 1, 1), realDate: '2025-06-01' }, [
+      createNoteJournal('market', on(190, 1, 1), {
+        isRecurringParent: true,
+        recurring: { frequency: 'weekly', interval: 1 },
+      }),
+    ]);
+    expect(sixDays).toContain('RRULE:FREQ=DAILY;INTERVAL=6');
+  });
+
+  it('should not write weekly RRULEs when intercalary days pause the week', () => {
+    const festival = {
+      ...golarion,
+      intercalary: [
+        { name: 'Festival', after: golarion.months[0].name, days: 3, countsForWeekdays: false },
+      ],
+    };
+    const engine = new CalendarEngine(festival);
+    const weekday = festival.weekdays[engine.calculateWeekday(4725, 1, 1)].name;
+    const notes = [
+      createNoteJournal('watch', on(4725, 1, 1), {
+        isRecurringParent: true,
+        recurring: {
+          frequency: 'weekly',
+          interval: 1,
+          rule: NoteRecurrence.parseRule(`FREQ=WEEKLY;BYDAY=${weekday}`, festival),
+        },
+      }),
+    ];
+    const range = { rangeStart: on(4725, 1, 1), rangeEnd: on(4725, 2, 14) };
+
+    const lines = exportNotes(
+      festival,
+      { gameDate: on(4725, 1, 1), realDate: '2024-01-01' },
+      notes,
+      range
+    );
+    expect(lines.filter(line => line.startsWith('RRULE'))).toEqual([]);
+    // The week after the festival starts three real days late
+    expect(lines.filter(line => line.startsWith('DTSTART'))).toContain(
+      'DTSTART;VALUE=DATE:20240208'
+    );
+
+    const darkSunLines = exportNotes(darkSun, { gameDate: on(190, 1, 1), realDate: '2025-06-01' }, [
+      createNoteJournal('market', on(190, 1, 1), {
+        isRecurringParent: true,
+        recurring: { frequency: 'weekly', interval: 1 },
+      }),
+    ]);
+    expect(darkSunLines.filter(line => line.startsWith('RRULE'))).toEqual([]);
+  });
+
+  it('should list occurrences when real dates cannot express the rule', () => {
+    const lines = exportNotes(
+      harptos,
+      { gameDate: on(1492, 1, 1), realDate: '2025-06-01' },
+      [
+        createNoteJournal('rent', on(1492, 1, 1), {
+          isRecurringParent: true,
+          recurring: { frequency: 'monthly', interval: 1, monthDay: 1 },
+        }),
+      ],
+      { rangeStart: on(1492, 1, 1), rangeEnd: on(1492, 3, 30) }
+    );
+
+    expect(lines.filter(line => line.startsWith('RRULE'))).toEqual([]);
+    // Midwinter falls between Hammer and Alturiak
+    expect(lines.filter(line => line.startsWith('DTSTART'))).toEqual([
+      'DTSTART;VALUE=DATE:20250601',
+      'DTSTART;VALUE=DATE:20250702',
+      'DTSTART;VALUE=DATE:20250801',
+    ]);
+    expect(lines).toContain('UID:rent-20250702@seasons-and-stars');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const ics = NoteIcsExport.exportNotes(
+      [createNoteJournal('long', on(2024, 1, 1), { content: 'ä'.repeat(200) })],
+      gregorian,
+      new CalendarEngine(gregorian),
+      { proxy: sameDay }
+    );
+
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(() =>
+      NoteIcsExport.exportNotes([], gregorian, new CalendarEngine(gregorian), {
+        proxy: { gameDate: on(2024, 1, 1), realDate: 'next Tuesday' },
+      })
+    ).toThrow('Real-world date must be written as YYYY-MM-DD: next Tuesday');
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { CalendarGridWidget } from '../src/ui/calendar-grid-widget';
+import type { CalendarDate, SeasonsStarsCalendar } from '../src/types/calendar';
+import darkSunCalendar from '../calendars/dark-sun.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import greyhawkCalendar from '../calendars/greyhawk.json';
+
+const greyhawk = greyhawkCalendar as SeasonsStarsCalendar;
+const darkSun = darkSunCalendar as SeasonsStarsCalendar;
+
+// Two festivals between January and February, both part of the week
+const festivalCalendar: SeasonsStarsCalendar = {
+  ...(gregorianCalendar as SeasonsStarsCalendar),
+  leapYear: { rule: 'none' },
+  intercalary: [
+    { name: 'Frostfeast', days: 2, after: 'January', leapYearOnly: false, countsForWeekdays: true },
+    { name: 'Lanternday', after: 'January', leapYearOnly: false, countsForWeekdays: true },
+  ],
+};
+
+describe('Intercalary periods', () => {
+  describe('Weekdays', () => {
+    it('should continue the week through periods that count for weekdays', () => {
+      const engine = new CalendarEngine(greyhawk);
+      const lastOfWealsun = engine.calculateWeekday(591, 6, 28);
+
+      expect(engine.calculateWeekday(591, 6, 1, 'Richfest')).toBe((lastOfWealsun + 1) % 7);
+      expect(engine.calculateWeekday(591, 6, 3, 'Richfest')).toBe((lastOfWealsun + 3) % 7);
+      expect(engine.calculateWeekday(591, 7, 1)).toBe((lastOfWealsun + 8) % 7);
+    });
+
+    it('should count earlier periods after the same month', () => {
+      const engine = new CalendarEngine(festivalCalendar);
+      const lastOfJanuary = engine.calculateWeekday(2024, 1, 31);
+
+      expect(engine.calculateWeekday(2024, 1, 2, 'Frostfeast')).toBe((lastOfJanuary + 2) % 7);
+      expect(engine.calculateWeekday(2024, 1, 1, 'Lanternday')).toBe((lastOfJanuary + 3) % 7);
+      expect(engine.calculateWeekday(2024, 2, 1)).toBe((lastOfJanuary + 4) % 7);
+    });
+
+    it('should give real weekdays when converting world time', () => {
+      const engine = new CalendarEngine(festivalCalendar);
+      const lanternday: CalendarDate = {
+        year: 2024,
+        month: 1,
+        day: 1,
+        weekday: 0,
+        intercalary: 'Lanternday',
+      };
+      const result = engine.worldTimeToDate(engine.dateToWorldTime(lanternday));
+
+      expect(result.intercalary).toBe('Lanternday');
+      expect(result.weekday).toBe(engine.calculateWeekday(2024, 1, 1, 'Lanternday'));
+      expect(engine.addDays(lanternday, 1)).toMatchObject({ month: 2, day: 1 });
+    });
+
+    it('should keep the placeholder weekday for periods outside the week', () => {
+      const engine = new CalendarEngine(darkSun);
+      const coolingSun = { year: 1, month: 4, day: 3, weekday: 0, intercalary: 'Cooling Sun' };
+
+      expect(engine.calculateWeekday(1, 4, 3, 'Cooling Sun')).toBe(0);
+      expect(engine.worldTimeToDate(engine.dateToWorldTime(coolingSun)).weekday).toBe(0);
+    });
+  });
+
+  describe('Grid pages', () => {
+    let engine: CalendarEngine;
+
+    beforeEach(() => {
+      engine = new CalendarEngine(greyhawk);
+      globalThis.game = {
+        user: { isGM: false, id: 'player-user-id' },
+        settings: { get: vi.fn().mockReturnValue('setDate') },
+        seasonsStars: { manager: { getActiveEngine: () => engine } },
+      } as any;
+    });
+
+    function gridAt(date: CalendarDate) {
+      return new CalendarGridWidget({ weekday: 0, ...date });
+    }
+
+    function monthData(grid: CalendarGridWidget) {
+      const viewDate = (grid as any).viewDate;
+      return (grid as any).generateMonthData(engine.getCalendar(), viewDate, viewDate);
+    }
+
+    it('should lay out a page period on its own', () => {
+      const data = monthData(gridAt({ year: 591, month: 6, day: 1, intercalary: 'Richfest' }));
+      const days = data.weeks.flat().filter((cell: any) => !cell.isEmpty);
+
+      expect(data.monthName).toBe('Richfest');
+      expect(data.totalDays).toBe(7);
+      expect(data.season).toBe('Low Summer');
+      expect(days.map((cell: any) => cell.day)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(days[0].date.intercalary).toBe('Richfest');
+      expect(days[0].fullDate).toBe('0591-06-Richfest-01');
+    });
+
+    it('should leave page periods out of the month they follow', () => {
+      const data = monthData(gridAt({ year: 591, month: 6, day: 1 }));
+
+      expect(data.intercalaryDays).toEqual([]);
+      expect(data.weeks.every((week: any[]) => week.length === 7)).toBe(true);
+    });
+
+    it('should fill periods outside the week in order', () => {
+      engine = new CalendarEngine(darkSun);
+      const data = monthData(gridAt({ year: 1, month: 4, day: 1, intercalary: 'Cooling Sun' }));
+
+      expect(data.weeks).toHaveLength(1);
+      expect(data.weeks[0].slice(0, 5).map((cell: any) => cell.day)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should give each day of a row period its own cell and weekday', () => {
+      engine = new CalendarEngine(festivalCalendar);
+      const grid = gridAt({ year: 2024, month: 1, day: 2, intercalary: 'Frostfeast' });
+      const [frostfeast, lanternday] = monthData(grid).weeks.slice(-2);
+
+      expect(frostfeast.map((cell: any) => cell.intercalaryDay)).toEqual([1, 2]);
+      expect(frostfeast.map((cell: any) => cell.weekday)).toEqual([
+        engine.calculateWeekday(2024, 1, 1, 'Frostfeast'),
+        engine.calculateWeekday(2024, 1, 2, 'Frostfeast'),
+      ]);
+      expect(frostfeast.map((cell: any) => cell.isSelected)).toEqual([false, true]);
+      expect(frostfeast[1].fullDate).toBe('2024-01-Frostfeast-02');
+
+      expect(lanternday).toHaveLength(1);
+      expect(lanternday[0]).toMatchObject({
+        intercalaryName: 'Lanternday',
+        fullDate: '2024-01-Lanternday',
+      });
+      expect(lanternday[0].intercalaryDay).toBeUndefined();
+      expect(lanternday[0].weekday).toBe(engine.calculateWeekday(2024, 1, 1, 'Lanternday'));
+    });
+
+    it('should set the chosen day of a row period', async () => {
+      engine = new CalendarEngine(festivalCalendar);
+      const setCurrentDate = vi.fn();
+      (game as any).user.isGM = true;
+      (game as any).seasonsStars.manager = {
+        getActiveEngine: () => engine,
+        getActiveCalendar: () => festivalCalendar,
+        getCurrentDate: () => ({ year: 2024, month: 1, day: 1, weekday: 0 }),
+        setCurrentDate,
+      };
+      (globalThis as any).ui = { notifications: { info: vi.fn() } };
+      const grid = gridAt({ year: 2024, month: 1, day: 1 });
+      vi.spyOn(grid, 'render').mockImplementation(() => grid as any);
+
+      const cell = document.createElement('div');
+      cell.className = 'calendar-day intercalary';
+      cell.dataset.day = 'Frostfeast';
+      cell.dataset.intercalaryDay = '2';
+      await (grid as any).setCurrentDate(cell);
+
+      expect(setCurrentDate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          month: 1,
+          day: 2,
+          intercalary: 'Frostfeast',
+          weekday: engine.calculateWeekday(2024, 1, 2, 'Frostfeast'),
+        })
+      );
+      expect(ui.notifications?.info).toHaveBeenCalledWith(
+        'Date set to Frostfeast 2 (intercalary day after January 2024 CE)'
+      );
+    });
+
+    it('should step through pages between months', () => {
+      const grid = gridAt({ year: 591, month: 6, day: 10 });
+      const next = () => (grid as any).getAdjacentPage(engine, 1);
+      const previous = () => (grid as any).getAdjacentPage(engine, -1);
+
+      (grid as any).viewDate = next();
+      expect((grid as any).viewDate).toMatchObject({ month: 6, intercalary: 'Richfest' });
+
+      (grid as any).viewDate = next();
+      expect((grid as any).viewDate).toMatchObject({ month: 7 });
+      expect((grid as any).viewDate.intercalary).toBeUndefined();
+
+      (grid as any).viewDate = previous();
+      expect((grid as any).viewDate).toMatchObject({ month: 6, intercalary: 'Richfest' });
+
+      (grid as any).viewDate = previous();
+      expect((grid as any).viewDate).toMatchObject({ month: 6 });
+      expect((grid as any).viewDate.intercalary).toBeUndefined();
+    });
+
+    it('should go back from the first month to the last page of the previous year', () => {
+      const grid = gridAt({ year: 591, month: 1, day: 1 });
+
+      expect((grid as any).getAdjacentPage(engine, -1)).toMatchObject({
+        year: 590,
+        month: 12,
+        intercalary: 'Needfest',
+      });
+    });
+
+    it('should stay on a page when changing years', () => {
+      const grid = gridAt({ year: 591, month: 6, day: 4, intercalary: 'Richfest' });
+
+      expect((grid as any).getPageYearsAway(engine, 1)).toMatchObject({
+        year: 592,
+        month: 6,
+        intercalary: 'Richfest',
+      });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept page display and reject unknown display modes', () => {
+      expect(CalendarValidator.validate(greyhawk).errors).toEqual([]);
+
+      const result = CalendarValidator.validate({
+        ...festivalCalendar,
+        intercalary: [{ ...festivalCalendar.intercalary[0], display: 'popup' }],
+      });
+      expect(result.errors).toContain('Intercalary day 1 display must be one of: row, page');
+    });
+  });
+});
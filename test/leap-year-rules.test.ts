@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import gregorianCalendar from '../calendars/gregorian.json';
+import { withCalendar } from './mocks/fixtures';
+
+const gregorianRules = [{ every: 4 }, { every: 100, skip: true }, { every: 400 }];
+
+describe('Leap Year Rule Lists', () => {
+  describe('Rule evaluation', () => {
+    it('should match the built-in gregorian rule when expressed as a rule list', () => {
+      const ruleEngine = new CalendarEngine(
+        withCalendar({
+          leapYear: { rule: 'custom', rules: gregorianRules, month: 'February', extraDays: 1 },
+        })
+      );
+      const gregorianEngine = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+
+      for (const year of [1600, 1700, 1900, 1996, 2000, 2023, 2024, 2100, 2400]) {
+        expect(ruleEngine.getYearLength(year)).toBe(gregorianEngine.getYearLength(year));
+      }
+      expect(ruleEngine.dateToWorldTime({ year: 2500, month: 3, day: 1, weekday: 0 })).toBe(
+        gregorianEngine.dateToWorldTime({ year: 2500, month: 3, day: 1, weekday: 0 })
+      );
+    });
+
+    it('should let the last matching rule win', () => {
+      const engine = new CalendarEngine(
+        withCalendar({
+          leapYear: {
+            rule: 'custom',
+            rules: [{ every: 100, skip: true }, { every: 4 }],
+            month: 'February',
+          },
+        })
+      );
+
+      // The later every-4 rule overrides the earlier skip
+      expect(engine.getYearLength(1900)).toBe(366);
+      expect(engine.getYearLength(1901)).toBe(365);
+    });
+
+    it('should support offsets for 33-year cycles', () => {
+      const leapPositions = [1, 5, 9, 13, 17, 22, 26, 30];
+      const engine = new CalendarEngine(
+        withCalendar({
+          leapYear: {
+            rule: 'custom',
+            rules: leapPositions.map(offset => ({ every: 33, offset })),
+            month: 'December',
+          },
+        })
+      );
+
+      const leapYears = [];
+      for (let year = 0; year < 33; year++) {
+        if (engine.getYearLength(year) === 366) leapYears.push(year);
+      }
+
+      expect(leapYears).toEqual(leapPositions);
+      expect(engine.getYearLength(-32)).toBe(366);
+    });
+
+    it('should keep plain intervals working without rules', () => {
+      const engine = new CalendarEngine(
+        withCalendar({ leapYear: { rule: 'custom', interval: 3, month: 'February' } })
+      );
+
+      expect(engine.getYearLength(3)).toBe(366);
+      expect(engine.getYearLength(4)).toBe(365);
+    });
+  });
+
+  describe('Multiple leap months', () => {
+    it('should add days to each month on its own cycle', () => {
+      const engine = new CalendarEngine(
+        withCalendar({
+          leapYear: {
+            rule: 'custom',
+            interval: 4,
+            month: 'February',
+            months: [{ month: 'June', extraDays: 2, rules: [{ every: 10 }] }],
+          },
+        })
+      );
+
+      expect(engine.getMonthLength(2, 2024)).toBe(29);
+      expect(engine.getMonthLength(6, 2024)).toBe(30);
+      expect(engine.getMonthLength(2, 2030)).toBe(28);
+      expect(engine.getMonthLength(6, 2030)).toBe(32);
+      expect(engine.getYearLength(2040)).toBe(368);
+    });
+
+    it('should follow the main leap rule when a month has no rules', () => {
+      const engine = new CalendarEngine(
+        withCalendar({
+          leapYear: { rule: 'gregorian', month: 'February', months: [{ month: 'July' }] },
+        })
+      );
+
+      expect(engine.getMonthLength(7, 2024)).toBe(32);
+      expect(engine.getMonthLength(7, 2100)).toBe(31);
+    });
+
+    it('should round-trip dates across combined cycles', () => {
+      const engine = new CalendarEngine(
+        withCalendar({
+          leapYear: {
+            rule: 'custom',
+            rules: [{ every: 4 }, { every: 128, skip: true }],
+            month: 'February',
+            months: [{ month: 'October', rules: [{ every: 7, offset: 3 }] }],
+          },
+        })
+      );
+
+      for (const year of [-900, 3, 10, 128, 896, 5000]) {
+        const date = { year, month: 11, day: 15, weekday: 0 };
+        const result = engine.worldTimeToDate(engine.dateToWorldTime(date));
+        expect(result.year).toBe(year);
+        expect(result.month).toBe(11);
+        expect(result.day).toBe(15);
+      }
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept rule lists and leap months', () => {
+      const result = CalendarValidator.validate(
+        withCalendar({
+          leapYear: {
+            rule: 'custom',
+            rules: gregorianRules,
+            month: 'February',
+            months: [{ month: 'June', extraDays: 2, rules: [{ every: 10, offset: 5 }] }],
+          },
+        })
+      );
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject invalid rule entries', () => {
+      const result = CalendarValidator.validate(
+        withCalendar({
+          leapYear: { rule: 'custom', rules: [{ every: 0 }, { every: 4, skip: 'yes' }] },
+        })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(
+        'Leap year rules entry 1 every must be a positive whole number'
+      );
+      expect(result.errors).toContain('Leap year rules entry 2 skip must be a boolean');
+    });
+
+    it('should reject leap months that do not exist', () => {
+      const result = CalendarValidator.validate(
+        withCalendar({
+          leapYear: { rule: 'gregorian', month: 'February', months: [{ month: 'Smarch' }] },
+        })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Leap year month 'Smarch' does not exist in months list");
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Shared date, calendar and note fixtures for testing
+ */
+
+import { vi } from 'vitest';
+import { CalendarTimeUtils } from '../../src/core/calendar-time-utils';
+import type { CalendarDate, SeasonsStarsCalendar } from '../../src/types/calendar';
+import gregorianCalendar from '../../calendars/gregorian.json';
+
+export const gregorian = gregorianCalendar as SeasonsStarsCalendar;
+
+// A date with a placeholder weekday, optionally within a named intercalary period
+export function on(year: number, month: number, day: number, intercalary?: string): CalendarDate {
+  return { year, month, day, weekday: 0, ...(intercalary && { intercalary }) };
+}
+
+// A date at a time of day
+export function at(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute = 0
+): CalendarDate {
+  return { ...on(year, month, day), time: { hour, minute, second: 0 } };
+}
+
+// A calendar (Gregorian unless given) with some of its settings replaced
+export function withCalendar(
+  overrides: Partial<SeasonsStarsCalendar>,
+  calendar: SeasonsStarsCalendar = gregorian
+): SeasonsStarsCalendar {
+  return { ...calendar, ...overrides };
+}
+
+// A calendar note journal; `name` and `content` set its name and page text, and the other
+// flags are stored as S&S flags. The journal and its page were created and last saved together.
+export function createNoteJournal(
+  id: string,
+  startDate: CalendarDate,
+  flags: Record<string, any> = {}
+) {
+  const { name = id, content = '', ...noteFlags } = flags;
+
+  return {
+    id,
+    name,
+    ownership: {},
+    pages: new Map([
+      ['page', { text: { content }, _stats: { createdTime: 1000, modifiedTime: 1000 } }],
+    ]),
+    _stats: { createdTime: 1000, modifiedTime: 1000 } as Record<string, number> | undefined,
+    flags: {
+      'seasons-and-stars': {
+        calendarNote: true,
+        dateKey: CalendarTimeUtils.formatDateKey(startDate),
+        startDate,
+        allDay: !startDate.time,
+        created: 1000,
+        modified: 1000,
+        ...noteFlags,
+      },
+    } as Record<string, any>,
+    setFlag: vi.fn(async function (this: any, scope: string, key: string, value: any) {
+      this.flags[scope][key] = value;
+    }),
+  };
+}
@@ -0,0 +1,304 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarManager } from '../src/core/calendar-manager';
+import { NoteRecurrence } from '../src/core/note-recurring';
+import { TimeConverter } from '../src/core/time-converter';
+import { ValidationUtils } from '../src/core/validation-utils';
+import type { CalendarDate, SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import { on } from './mocks/fixtures';
+
+const gregorian = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+const harptos = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+const bundledCalendars = import.meta.glob('../calendars/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+describe('Month overflow policy', () => {
+  describe('addMonths', () => {
+    const january31 = on(2023, 1, 31);
+
+    it('should clamp by default', () => {
+      expect(gregorian.addMonths(january31, 1)).toMatchObject({ month: 2, day: 28 });
+      expect(gregorian.addMonths(january31, 1, { overflow: 'clamp' })).toMatchObject({
+        month: 2,
+        day: 28,
+      });
+    });
+
+    it('should roll extra days into the next month', () => {
+      expect(gregorian.addMonths(january31, 1, { overflow: 'rollover' })).toMatchObject({
+        month: 3,
+        day: 3,
+      });
+      expect(gregorian.addMonths(on(2024, 3, 31), -1, { overflow: 'rollover' })).toMatchObject({
+        month: 3,
+        day: 2,
+      });
+    });
+
+    it('should throw when asked to', () => {
+      expect(() => gregorian.addMonths(january31, 1, { overflow: 'error' })).toThrow(
+        'February 2023 has only 28 days, not 31'
+      );
+      expect(gregorian.addMonths(january31, 2, { overflow: 'error' })).toMatchObject({
+        month: 3,
+        day: 31,
+      });
+    });
+
+    it('should move intercalary dates to the last day of the target month', () => {
+      const midwinter = on(1492, 1, 1, 'Midwinter');
+
+      expect(harptos.addMonths(midwinter, 1)).toEqual({
+        year: 1492,
+        month: 2,
+        day: 30,
+        weekday: harptos.calculateWeekday(1492, 2, 30),
+        time: undefined,
+      });
+      expect(harptos.addMonths(midwinter, 0, { overflow: 'error' })).toMatchObject({
+        month: 1,
+        day: 30,
+      });
+    });
+  });
+
+  describe('addYears', () => {
+    it('should apply the policy to leap days', () => {
+      const leapDay = on(2024, 2, 29);
+
+      expect(gregorian.addYears(leapDay, 1)).toMatchObject({ year: 2025, month: 2, day: 28 });
+      expect(gregorian.addYears(leapDay, 1, { overflow: 'rollover' })).toMatchObject({
+        year: 2025,
+        month: 3,
+        day: 1,
+      });
+      expect(() => gregorian.addYears(leapDay, 1, { overflow: 'error' })).toThrow(
+        'February 2025 has only 28 days, not 29'
+      );
+    });
+
+    it('should keep intercalary dates in their period', () => {
+      expect(harptos.addYears(on(1492, 7, 1, 'Midsummer'), 1)).toMatchObject({
+        year: 1493,
+        month: 7,
+        day: 1,
+        intercalary: 'Midsummer',
+      });
+      expect(harptos.addYears(on(1492, 7, 1, 'Shieldmeet'), 4)).toMatchObject({
+        year: 1496,
+        intercalary: 'Shieldmeet',
+      });
+    });
+
+    it('should apply the policy to periods missing from the target year', () => {
+      const shieldmeet = on(1492, 7, 1, 'Shieldmeet');
+
+      expect(harptos.addYears(shieldmeet, 1)).toMatchObject({
+        year: 1493,
+        month: 7,
+        intercalary: 'Midsummer',
+      });
+      expect(harptos.addYears(shieldmeet, 1, { overflow: 'rollover' })).toMatchObject({
+        year: 1493,
+        month: 8,
+        day: 1,
+      });
+      expect(() => harptos.addYears(shieldmeet, 1, { overflow: 'error' })).toThrow(
+        'Shieldmeet does not occur in year 1493'
+      );
+    });
+  });
+
+  describe('TimeConverter', () => {
+    it('should pass the policy through when advancing months', async () => {
+      const converter = Object.create(TimeConverter.prototype);
+      let stored: CalendarDate | undefined;
+      converter.engine = gregorian;
+      converter.getCurrentDate = () => ({ toObject: () => on(2023, 1, 31) });
+      converter.setCurrentDate = async (date: CalendarDate) => {
+        stored = date;
+      };
+
+      await converter.advanceMonths(1, { overflow: 'rollover' });
+      expect(stored).toMatchObject({ month: 3, day: 3 });
+
+      await converter.advanceMonths(1);
+      expect(stored).toMatchObject({ month: 2, day: 28 });
+    });
+  });
+
+  describe('CalendarManager', () => {
+    it('should pass the policy through to the time converter', async () => {
+      const manager = Object.create(CalendarManager.prototype);
+      const calls: unknown[][] = [];
+      manager.timeConverter = {
+        advanceMonths: async (...args: unknown[]) => calls.push(['months', ...args]),
+        advanceYears: async (...args: unknown[]) => calls.push(['years', ...args]),
+      };
+
+      await manager.advanceMonths(1, { overflow: 'error' });
+      await manager.advanceYears(2, { overflow: 'rollover' });
+      await manager.advanceMonths(3);
+
+      expect(calls).toEqual([
+        ['months', 1, { overflow: 'error' }],
+        ['years', 2, { overflow: 'rollover' }],
+        ['months', 3, {}],
+      ]);
+    });
+
+    it('should reject unknown policies from API callers', () => {
+      expect(() => ValidationUtils.validateArithmeticOptions(undefined)).not.toThrow();
+      expect(() =>
+        ValidationUtils.validateArithmeticOptions({ overflow: 'rollover' })
+      ).not.toThrow();
+      expect(() => ValidationUtils.validateArithmeticOptions({ overflow: 'wrap' })).toThrow(
+        'Overflow must be one of: clamp, rollover, error'
+      );
+      expect(() => ValidationUtils.validateArithmeticOptions('clamp')).toThrow(
+        'Options must be an object'
+      );
+    });
+  });
+
+  describe('Recurring notes', () => {
+    const start = on(2023, 1, 31);
+    const range = (pattern: ReturnType<typeof NoteRecurrence.createMonthlyDayPattern>) =>
+      NoteRecurrence.generateOccurrences(start, pattern, start, on(2023, 6, 30), gregorian).map(
+        occurrence => `${occurrence.date.month}-${occurrence.date.day}`
+      );
+
+    it('should clamp monthly occurrences by default', () => {
+      expect(range(NoteRecurrence.createMonthlyDayPattern(31))).toEqual([
+        '1-31',
+        '2-28',
+        '3-31',
+        '4-30',
+        '5-31',
+        '6-30',
+      ]);
+    });
+
+    it('should follow the pattern overflow policy', () => {
+      expect(
+        range(NoteRecurrence.createMonthlyDayPattern(31, 1, { overflow: 'rollover' }))
+      ).toEqual(['1-31', '3-3', '3-31', '5-1', '5-31']);
+      expect(range(NoteRecurrence.createMonthlyDayPattern(31, 1, { overflow: 'error' }))).toEqual([
+        '1-31',
+        '3-31',
+        '5-31',
+      ]);
+    });
+
+    it('should agree with matchesDate under each policy', () => {
+      for (const overflow of ['clamp', 'rollover', 'error'] as const) {
+        const pattern = NoteRecurrence.createMonthlyDayPattern(31, 2, { overflow });
+        const generated = NoteRecurrence.generateOccurrences(
+          start,
+          pattern,
+          start,
+          on(2023, 12, 31),
+          gregorian
+        ).map(occurrence => occurrence.date);
+        const matched = NoteRecurrence.getOccurrenceDates(
+          start,
+          pattern,
+          start,
+          on(2023, 12, 31),
+          gregorian
+        );
+
+        expect(matched.map(date => [date.month, date.day])).toEqual(
+          generated.map(date => [date.month, date.day])
+        );
+      }
+    });
+
+    it('should apply the policy to yearly leap days', () => {
+      const leapDay = on(2024, 2, 29);
+      const years = (overflow?: 'clamp' | 'rollover' | 'error') =>
+        NoteRecurrence.generateOccurrences(
+          leapDay,
+          NoteRecurrence.createYearlyPattern(2, 29, 1, { overflow }),
+          leapDay,
+          on(2028, 12, 31),
+          gregorian
+        ).map(
+          occurrence => `${occurrence.date.year}-${occurrence.date.month}-${occurrence.date.day}`
+        );
+
+      expect(years()).toEqual(['2024-2-29', '2025-2-28', '2026-2-28', '2027-2-28', '2028-2-29']);
+      expect(years('rollover')).toEqual([
+        '2024-2-29',
+        '2025-3-1',
+        '2026-3-1',
+        '2027-3-1',
+        '2028-2-29',
+      ]);
+      expect(years('error')).toEqual(['2024-2-29', '2028-2-29']);
+    });
+  });
+
+  describe.each(Object.entries(bundledCalendars))('%s', (_, data) => {
+    const calendar = data as SeasonsStarsCalendar;
+    const engine = new CalendarEngine(calendar);
+    const year = calendar.year.currentYear;
+
+    it('should handle every month end under each policy', () => {
+      for (let month = 1; month <= calendar.months.length; month++) {
+        const lastDay = on(year, month, engine.getMonthLength(month, year));
+        const clamped = engine.addMonths(lastDay, 1);
+        const excess = lastDay.day - engine.getMonthLength(clamped.month, clamped.year);
+        const rolled = engine.addMonths(lastDay, 1, { overflow: 'rollover' });
+
+        expect(clamped.day).toBe(lastDay.day - Math.max(0, excess));
+        expect(rolled).toEqual(excess > 0 ? engine.addDays(clamped, excess) : clamped);
+
+        if (excess > 0) {
+          expect(() => engine.addMonths(lastDay, 1, { overflow: 'error' })).toThrow();
+        } else {
+          expect(engine.addMonths(lastDay, 1, { overflow: 'error' })).toEqual(clamped);
+        }
+      }
+    });
+
+    it('should move intercalary days by a year under each policy', () => {
+      for (const intercalary of calendar.intercalary || []) {
+        const month = calendar.months.findIndex(m => m.name === intercalary.after) + 1;
+        // Start from a year that has the period, even when it is leap-only
+        const startYear = engine.getIntercalaryDaysAfterMonth(year, month).includes(intercalary)
+          ? year
+          : [1, 2, 3, 4, 5, 6, 7, 8]
+              .map(offset => year + offset)
+              .find(candidate =>
+                engine.getIntercalaryDaysAfterMonth(candidate, month).includes(intercalary)
+              );
+        if (startYear === undefined) continue;
+
+        const date = on(startYear, month, 1, intercalary.name);
+        const nextYear = startYear + 1;
+        const occursNextYear = engine
+          .getIntercalaryDaysAfterMonth(nextYear, month)
+          .includes(intercalary);
+        const clamped = engine.addYears(date, 1);
+        const rolled = engine.addYears(date, 1, { overflow: 'rollover' });
+
+        if (occursNextYear) {
+          expect(clamped).toMatchObject({ year: nextYear, intercalary: intercalary.name });
+          expect(rolled).toEqual(clamped);
+        } else {
+          expect(() => engine.addYears(date, 1, { overflow: 'error' })).toThrow();
+          expect(engine.addDays(clamped, 1)).toMatchObject({
+            year: rolled.year,
+            month: rolled.month,
+            day: rolled.day,
+          });
+        }
+      }
+    });
+  });
+});
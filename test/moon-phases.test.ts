@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import eberronCalendar from '../calendars/eberron.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+
+describe('Moon Phases', () => {
+  const testCalendar: SeasonsStarsCalendar = {
+    ...(gregorianCalendar as SeasonsStarsCalendar),
+    moons: [
+      {
+        name: 'Luna',
+        cycleLength: 8,
+        firstNewMoon: { year: 2024, month: 1, day: 1 },
+        color: '#ffffff',
+      },
+    ],
+  };
+
+  describe('Phase calculation', () => {
+    it('should report a new moon on the reference date', () => {
+      const engine = new CalendarEngine(testCalendar);
+      const [luna] = engine.getMoonPhases({ year: 2024, month: 1, day: 1, weekday: 0 });
+
+      expect(luna.moon).toBe('Luna');
+      expect(luna.phase).toBe('New Moon');
+      expect(luna.phaseIndex).toBe(0);
+      expect(luna.illumination).toBe(0);
+      expect(luna.dayInCycle).toBe(1);
+      expect(luna.color).toBe('#ffffff');
+    });
+
+    it('should step through all eight default phases over one cycle', () => {
+      const engine = new CalendarEngine(testCalendar);
+      const phases = [];
+
+      for (let day = 1; day <= 8; day++) {
+        phases.push(engine.getMoonPhases({ year: 2024, month: 1, day, weekday: 0 })[0].phase);
+      }
+
+      expect(phases).toEqual([
+        'New Moon',
+        'Waxing Crescent',
+        'First Quarter',
+        'Waxing Gibbous',
+        'Full Moon',
+        'Waning Gibbous',
+        'Last Quarter',
+        'Waning Crescent',
+      ]);
+    });
+
+    it('should report full illumination halfway through the cycle', () => {
+      const engine = new CalendarEngine(testCalendar);
+      const [luna] = engine.getMoonPhases({ year: 2024, month: 1, day: 5, weekday: 0 });
+
+      expect(luna.phase).toBe('Full Moon');
+      expect(luna.illumination).toBe(1);
+    });
+
+    it('should handle dates before the reference new moon', () => {
+      const engine = new CalendarEngine(testCalendar);
+      const [luna] = engine.getMoonPhases({ year: 2023, month: 12, day: 31, weekday: 0 });
+
+      expect(luna.phase).toBe('Waning Crescent');
+      expect(luna.dayInCycle).toBe(8);
+    });
+
+    it('should use custom phase names when provided', () => {
+      const engine = new CalendarEngine({
+        ...testCalendar,
+        moons: [
+          {
+            name: 'Blood Moon',
+            cycleLength: 4,
+            firstNewMoon: { year: 2024, month: 1, day: 1 },
+            phases: [{ name: 'Dark' }, { name: 'Rising' }, { name: 'Red' }, { name: 'Fading' }],
+          },
+        ],
+      });
+
+      const [moon] = engine.getMoonPhases({ year: 2024, month: 1, day: 3, weekday: 0 });
+      expect(moon.phase).toBe('Red');
+      expect(moon.icon).toBe('full');
+    });
+
+    it('should return no phases for calendars without moons', () => {
+      const engine = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+      expect(engine.getMoonPhases({ year: 2024, month: 1, day: 1, weekday: 0 })).toEqual([]);
+    });
+  });
+
+  describe('Built-in calendars', () => {
+    it('should define the twelve moons of Eberron', () => {
+      const engine = new CalendarEngine(eberronCalendar as SeasonsStarsCalendar);
+      const phases = engine.getMoonPhases({ year: 998, month: 1, day: 1, weekday: 0 });
+
+      expect(phases).toHaveLength(12);
+      expect(phases[0].moon).toBe('Zarantyr');
+      expect(phases[0].phase).toBe('New Moon');
+    });
+
+    it('should have a full Selûne on Hammer 1, 1372 DR', () => {
+      const engine = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+      const [selune] = engine.getMoonPhases({ year: 1372, month: 1, day: 1, weekday: 0 });
+
+      expect(selune.moon).toBe('Selûne');
+      expect(selune.phase).toBe('Full Moon');
+    });
+
+    it('should validate built-in calendars with moons', () => {
+      expect(CalendarValidator.validate(eberronCalendar).isValid).toBe(true);
+      expect(CalendarValidator.validate(forgottenRealmsCalendar).isValid).toBe(true);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject moons without a positive cycle length', () => {
+      const result = CalendarValidator.validate({
+        ...testCalendar,
+        moons: [{ name: 'Broken', cycleLength: 0, firstNewMoon: { year: 1, month: 1, day: 1 } }],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Moon 1 cycleLength must be a positive number');
+    });
+
+    it('should reject reference dates outside the months list', () => {
+      const result = CalendarValidator.validate({
+        ...testCalendar,
+        moons: [{ name: 'Lost', cycleLength: 28, firstNewMoon: { year: 1, month: 13, day: 1 } }],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Moon 1 firstNewMoon month must be between 1 and 12');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { NamedYears } from '../src/core/named-years';
+import { CalendarDate } from '../src/core/calendar-date';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import darkSunCalendar from '../calendars/dark-sun.json';
+import gregorianCalendar from '../calendars/gregorian.json';
+import { withCalendar } from './mocks/fixtures';
+
+function withNamedYears(namedYears: any): SeasonsStarsCalendar {
+  return withCalendar({ extensions: { 'seasons-and-stars': { namedYears } } });
+}
+
+describe('Named Years', () => {
+  describe('repeat rule', () => {
+    it('should cycle through the Dark Sun year names', () => {
+      const calendar = darkSunCalendar as SeasonsStarsCalendar;
+      const names = darkSunCalendar.extensions['seasons-and-stars'].namedYears.names;
+
+      expect(NamedYears.getYearName(calendar, -101)).toBe(names[0]);
+      expect(NamedYears.getYearName(calendar, -100)).toBe(names[1]);
+      expect(NamedYears.getYearName(calendar, -101 + 77)).toBe(names[0]);
+    });
+
+    it('should repeat backwards before the start year', () => {
+      const calendar = withNamedYears({ rule: 'repeat', startYear: 10, names: ['A', 'B', 'C'] });
+
+      expect(NamedYears.getYearName(calendar, 9)).toBe('C');
+      expect(NamedYears.getYearName(calendar, 7)).toBe('A');
+    });
+  });
+
+  describe('list rule', () => {
+    it('should only name years covered by the list', () => {
+      const calendar = withNamedYears({
+        rule: 'list',
+        startYear: 2000,
+        names: ['First', 'Second'],
+      });
+
+      expect(NamedYears.getYearName(calendar, 1999)).toBeNull();
+      expect(NamedYears.getYearName(calendar, 2000)).toBe('First');
+      expect(NamedYears.getYearName(calendar, 2001)).toBe('Second');
+      expect(NamedYears.getYearName(calendar, 2002)).toBeNull();
+    });
+  });
+
+  describe('explicit years', () => {
+    it('should use the years map', () => {
+      const calendar = withNamedYears({
+        rule: 'explicit',
+        years: { '1492': 'Year of Three Ships Sailing' },
+      });
+
+      expect(NamedYears.getYearName(calendar, 1492)).toBe('Year of Three Ships Sailing');
+      expect(NamedYears.getYearName(calendar, 1493)).toBeNull();
+    });
+
+    it('should override generated names', () => {
+      const calendar = withNamedYears({
+        rule: 'repeat',
+        startYear: 0,
+        names: ['A', 'B'],
+        years: { '1': 'Special' },
+      });
+
+      expect(NamedYears.getYearName(calendar, 0)).toBe('A');
+      expect(NamedYears.getYearName(calendar, 1)).toBe('Special');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should include the year name in formatted dates', () => {
+      const calendar = withNamedYears({ rule: 'explicit', years: { '2024': 'Leap Year' } });
+      const date = new CalendarDate({ year: 2024, month: 1, day: 1, weekday: 1 }, calendar);
+
+      expect(date.format({ includeWeekday: false })).toBe('1st January, 2024 CE (Leap Year)');
+      expect(date.format({ includeWeekday: false, includeYearName: false })).toBe(
+        '1st January, 2024 CE'
+      );
+    });
+
+    it('should support a custom format', () => {
+      const calendar = withNamedYears({
+        rule: 'explicit',
+        years: { '2024': 'the Dragon' },
+        format: '{year}, Year of {name}',
+      });
+
+      expect(NamedYears.formatYear(calendar, 2024, '2024 CE')).toBe('2024 CE, Year of the Dragon');
+    });
+
+    it('should leave unnamed years untouched', () => {
+      const calendar = gregorianCalendar as SeasonsStarsCalendar;
+      expect(NamedYears.formatYear(calendar, 2024, '2024 CE')).toBe('2024 CE');
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept the Dark Sun calendar', () => {
+      expect(CalendarValidator.validate(darkSunCalendar).isValid).toBe(true);
+    });
+
+    it('should reject unknown rules', () => {
+      const result = CalendarValidator.validate(withNamedYears({ rule: 'random', names: ['A'] }));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Named years rule must be one of: repeat, list, explicit');
+    });
+
+    it('should require names for repeat rules', () => {
+      const result = CalendarValidator.validate(withNamedYears({ rule: 'repeat', names: [] }));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Named years rule 'repeat' requires a non-empty names list");
+    });
+
+    it('should reject non-numeric year keys', () => {
+      const result = CalendarValidator.validate(
+        withNamedYears({ rule: 'explicit', years: { first: 'Name' } })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Named years key 'first' must be a whole year number");
+    });
+  });
+});
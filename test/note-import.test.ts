@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { DEFAULT_CATEGORIES } from '../src/core/note-categories';
+import { NoteIcsExport } from '../src/core/note-ics-export';
+import { NoteImport, type ImportCandidate } from '../src/core/note-import';
+import { NotesManager } from '../src/core/notes-manager';
+import type { CalendarDate, SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import { gregorian, on } from './mocks/fixtures';
+
+const harptos = forgottenRealmsCalendar as SeasonsStarsCalendar;
+const gregorianEngine = new CalendarEngine(gregorian);
+const harptosEngine = new CalendarEngine(harptos);
+
+function simpleCalendarNote(
+  id: string,
+  startDate: Record<string, number>,
+  noteData: Record<string, any> = {}
+) {
+  return {
+    _id: id,
+    name: id,
+    ownership: { default: 2 },
+    pages: [{ type: 'text', text: { content: `<p>${id}</p>` } }],
+    flags: {
+      'foundryvtt-simple-calendar': {
+        noteData: { calendarId: 'default', startDate, allDay: true, categories: [], ...noteData },
+      },
+    },
+  };
+}
+
+function candidate(title: string, startDate: CalendarDate, categories: string[] = []) {
+  return {
+    source: title,
+    title,
+    content: '',
+    startDate,
+    allDay: true,
+    categories,
+    playerVisible: false,
+  } as ImportCandidate;
+}
+
+describe('Note import', () => {
+  describe('Simple Calendar', () => {
+    it('should map 0-based dates, repeats and categories', () => {
+      const [note] = NoteImport.readSimpleCalendarNotes(
+        [
+          simpleCalendarNote(
+            'market',
+            { year: 2024, month: 2, day: 14, hour: 9, minute: 30, seconds: 0 },
+            { allDay: false, repeats: 2, categories: ['cat-1', 'cat-2'] }
+          ),
+        ],
+        [
+          { id: 'cat-1', name: 'Event' },
+          { id: 'cat-2', name: 'Shopping' },
+        ],
+        gregorian,
+        gregorianEngine
+      );
+
+      expect(note).toMatchObject({
+        source: 'Simple Calendar note market',
+        title: 'market',
+        content: '<p>market</p>',
+        startDate: {
+          year: 2024,
+          month: 3,
+          day: 15,
+          weekday: gregorianEngine.calculateWeekday(2024, 3, 15),
+          time: { hour: 9, minute: 30, second: 0 },
+        },
+        allDay: false,
+        categories: ['Event', 'Shopping'],
+        playerVisible: true,
+        recurring: { frequency: 'monthly', interval: 1 },
+      });
+    });
+
+    it('should explain dates the active calendar does not have', () => {
+      const notes = NoteImport.readSimpleCalendarNotes(
+        [
+          simpleCalendarNote('leap', { year: 2023, month: 1, day: 28 }),
+          simpleCalendarNote('thirteenth', { year: 2024, month: 12, day: 0 }),
+          { _id: 'plain', name: 'plain', flags: {} },
+        ],
+        [],
+        gregorian,
+        gregorianEngine
+      );
+
+      expect(notes.map(note => note.problem)).toEqual([
+        'February has no day 29 in 2023 (2023-2-29)',
+        'gregorian has no month 13 (2024-13-1)',
+        'Not a Simple Calendar note',
+      ]);
+    });
+
+    it('should read notes grouped by calendar in a JSON export', () => {
+      const data = JSON.stringify({
+        exportVersion: 2,
+        calendars: [{ id: 'default', noteCategories: [{ id: 'c1', name: 'Holiday' }] }],
+        notes: {
+          default: [
+            simpleCalendarNote('feast', { year: 2024, month: 11, day: 24 }, { categories: ['c1'] }),
+          ],
+        },
+      });
+
+      const [note] = NoteImport.readSimpleCalendarExport(data, gregorian, gregorianEngine);
+
+      expect(note.startDate).toMatchObject({ year: 2024, month: 12, day: 25 });
+      expect(note.categories).toEqual(['Holiday']);
+      expect(() => NoteImport.readSimpleCalendarExport('{}', gregorian, gregorianEngine)).toThrow(
+        'Not a Simple Calendar export: it has no notes'
+      );
+    });
+  });
+
+  describe('iCalendar', () => {
+    const proxy = { gameDate: on(1492, 1, 1), realDate: '2025-06-01' };
+
+    it('should read back game dates from its own exports', () => {
+      const note = {
+        id: 'moot',
+        name: 'Shieldmeet moot',
+        pages: new Map([['page', { text: { content: '<p>Renew the pacts</p>' } }]]),
+        flags: {
+          'seasons-and-stars': {
+            startDate: { ...on(1492, 7, 1), intercalary: 'Shieldmeet' },
+            allDay: true,
+            category: 'event',
+            tags: ['party'],
+          },
+        },
+      } as unknown as JournalEntry;
+      const ics = NoteIcsExport.exportNotes([note], harptos, harptosEngine, { proxy });
+
+      // A different proxy doesn't matter when the game date is in the file
+      const [event] = NoteImport.readIcs(ics, harptos, harptosEngine, {
+        gameDate: on(1400, 1, 1),
+        realDate: '2000-01-01',
+      });
+
+      expect(event).toMatchObject({
+        title: 'Shieldmeet moot',
+        content: '<p>Renew the pacts</p>',
+        startDate: { year: 1492, intercalary: 'Shieldmeet' },
+        categories: ['event', 'party'],
+      });
+    });
+
+    it('should map real dates and times through the proxy', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:abc',
+        'SUMMARY:Council\\, second sitting',
+        'DTSTART:20250611T183000',
+        'DTEND:20250612T060000',
+        'CATEGORIES:Politics',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'CLASS:PUBLIC',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Mystery',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const [council, mystery] = NoteImport.readIcs(ics, harptos, harptosEngine, proxy);
+
+      expect(council).toMatchObject({
+        source: 'iCalendar event abc',
+        title: 'Council, second sitting',
+        startDate: { year: 1492, month: 1, day: 11, time: { hour: 18, minute: 30, second: 0 } },
+        endDate: { year: 1492, month: 1, day: 12, time: { hour: 6, minute: 0, second: 0 } },
+        allDay: false,
+        playerVisible: true,
+        warning: 'Repeat rule not imported: FREQ=WEEKLY;BYDAY=MO',
+      });
+      expect(council.recurring).toBeUndefined();
+      expect(mystery.problem).toBe('The event has no readable DTSTART');
+    });
+  });
+
+  describe('planImport', () => {
+    it('should report conflicts, unmapped dates and new categories', () => {
+      const existing = { id: 'j1', name: 'Market Day' } as JournalEntry;
+      const report = NoteImport.planImport(
+        [
+          candidate('market day', on(2024, 3, 15)),
+          candidate('Feast', on(2024, 3, 16), ['Holiday', 'party']),
+          candidate('Feast', on(2024, 3, 16)),
+          candidate('Fair', on(2024, 3, 17), ['event']),
+          { ...candidate('Lost', on(2024, 1, 1)), startDate: undefined, problem: 'No such day' },
+        ],
+        DEFAULT_CATEGORIES,
+        date => (date.day === 15 ? [existing] : []),
+        true
+      );
+
+      expect(
+        report.notes.map(note => [note.data.title, note.data.category, note.data.tags])
+      ).toEqual([
+        ['Feast', 'holiday', ['party']],
+        ['Fair', 'event', []],
+      ]);
+      expect(report.conflicts).toMatchObject([
+        {
+          title: 'market day',
+          noteId: 'j1',
+          reason: 'A note with this title is already on this date',
+        },
+        { title: 'Feast', reason: 'Duplicates Feast' },
+      ]);
+      expect(report.unmapped).toEqual([{ source: 'Lost', title: 'Lost', reason: 'No such day' }]);
+      expect(report.newCategories).toMatchObject([{ id: 'holiday', name: 'Holiday' }]);
+    });
+  });
+
+  describe('NotesManager.importNotes', () => {
+    let manager: NotesManager;
+
+    beforeEach(async () => {
+      const journals = [
+        simpleCalendarNote(
+          'feast',
+          { year: 2024, month: 11, day: 24 },
+          { categories: ['Holiday'] }
+        ),
+      ];
+      (globalThis as any).game = {
+        user: { id: 'gm', isGM: true },
+        journal: Object.assign(new Map(), {
+          filter: (predicate: (journal: any) => boolean) => journals.filter(predicate),
+        }),
+        folders: { find: () => ({ id: 'folder' }) },
+        settings: {
+          get: () => {
+            throw new Error('Simple Calendar is not installed');
+          },
+        },
+        seasonsStars: {
+          manager: {
+            getActiveCalendar: () => gregorian,
+            getActiveEngine: () => gregorianEngine,
+          },
+          categories: {
+            getCategories: () => DEFAULT_CATEGORIES,
+            addCategory: vi.fn(),
+          },
+        },
+      };
+      (globalThis as any).CONST = { DOCUMENT_OWNERSHIP_LEVELS: { OBSERVER: 2 } };
+      (globalThis as any).JournalEntry = {
+        create: vi.fn(async (data: any) => ({
+          id: 'created',
+          ...data,
+          createEmbeddedDocuments: vi.fn(),
+        })),
+      };
+      manager = new NotesManager();
+      await manager.initialize();
+    });
+
+    it('should write nothing on a dry run', async () => {
+      const report = await manager.importNotes({ type: 'simple-calendar-journals' });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.notes).toHaveLength(1);
+      expect(report.newCategories).toMatchObject([{ id: 'holiday' }]);
+      expect(JournalEntry.create).not.toHaveBeenCalled();
+      expect(game.seasonsStars!.categories.addCategory).not.toHaveBeenCalled();
+    });
+
+    it('should create categories and notes when asked to', async () => {
+      const report = await manager.importNotes(
+        { type: 'simple-calendar-journals' },
+        { dryRun: false }
+      );
+
+      expect(report.created).toEqual(['created']);
+      expect(game.seasonsStars!.categories.addCategory).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'holiday', name: 'Holiday' })
+      );
+      expect(JournalEntry.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'feast',
+          flags: {
+            'seasons-and-stars': expect.objectContaining({
+              startDate: expect.objectContaining({ year: 2024, month: 12, day: 25 }),
+              category: 'holiday',
+            }),
+          },
+        })
+      );
+    });
+  });
+});
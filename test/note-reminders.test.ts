@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { NoteReminders, type NoteReminder } from '../src/core/note-reminders';
+import { NotesManager } from '../src/core/notes-manager';
+import { NoteEditingDialog } from '../src/ui/note-editing-dialog';
+import type { RecurringPattern } from '../src/core/note-recurring';
+import type { CalendarDate } from '../src/types/calendar';
+import { at, createNoteJournal, gregorian, on } from './mocks/fixtures';
+
+const engine = new CalendarEngine(gregorian);
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+function timeOf(date: CalendarDate): number {
+  return engine.dateToWorldTime(date);
+}
+
+function createNote(
+  id: string,
+  startDate: CalendarDate,
+  reminders: NoteReminder[],
+  flags: Record<string, any> = {}
+) {
+  return createNoteJournal(id, startDate, { reminders, ...flags }) as unknown as JournalEntry;
+}
+
+describe('Note reminders', () => {
+  describe('timings', () => {
+    it('should read and describe reminder timings', () => {
+      const timings = NoteReminders.parseTimings(
+        'At the start; 1 day before, 2 hours before, at 18:00 on the day, 6:30, 2 days before',
+        gregorian
+      );
+
+      expect(timings).toEqual([
+        { type: 'start' },
+        { type: 'before', amount: 1, unit: 'days' },
+        { type: 'before', amount: 2, unit: 'hours' },
+        { type: 'timeOfDay', hour: 18, minute: 0 },
+        { type: 'timeOfDay', hour: 6, minute: 30, daysBefore: 2 },
+      ]);
+      expect(timings.map(timing => NoteReminders.describeTiming(timing)).join(', ')).toBe(
+        'at the start, 1 day before, 2 hours before, at 18:00 on the day, at 6:30, 2 days before'
+      );
+      expect(NoteReminders.parseTimings('at 6:30, 2 days before', gregorian)).toEqual([timings[4]]);
+      expect(() => NoteReminders.parseTimings('soonish', gregorian)).toThrow(
+        'Unknown reminder: soonish'
+      );
+    });
+
+    it("should reject times that aren't on the calendar's clock", () => {
+      expect(() => NoteReminders.parseTimings('at 99:99', gregorian)).toThrow(
+        'Reminder hour must be between 0 and 23: 99:99'
+      );
+      expect(() => NoteReminders.parseTimings('at 12:60', gregorian)).toThrow(
+        'Reminder minute must be between 0 and 59: 12:60'
+      );
+
+      const longDays = { ...gregorian, time: { ...gregorian.time, hoursInDay: 30 } };
+      expect(NoteReminders.parseTimings('at 27:15', longDays)).toEqual([
+        { type: 'timeOfDay', hour: 27, minute: 15 },
+      ]);
+    });
+
+    it('should reject negative lead times', () => {
+      expect(() =>
+        NoteReminders.validateTiming({ type: 'before', amount: -2, unit: 'hours' }, gregorian)
+      ).toThrow('whole number of zero or more: -2');
+      expect(() =>
+        NoteReminders.validateTiming(
+          { type: 'timeOfDay', hour: 6, minute: 0, daysBefore: -1 },
+          gregorian
+        )
+      ).toThrow('whole number of zero or more: -1');
+    });
+  });
+
+  describe('findDueReminders', () => {
+    const council = createNote('council', at(2024, 3, 15, 20), [
+      { timing: { type: 'start' } },
+      { timing: { type: 'before', amount: 1, unit: 'days' } },
+      { timing: { type: 'timeOfDay', hour: 18, minute: 0 } },
+    ]);
+
+    it('should fire each reminder once world time passes it', () => {
+      const names = (from: number, to: number) =>
+        NoteReminders.findDueReminders([council], from, to, engine).map(entry =>
+          NoteReminders.describeTiming(entry.reminder.timing)
+        );
+
+      expect(names(timeOf(at(2024, 3, 14, 19)), timeOf(at(2024, 3, 14, 21)))).toEqual([
+        '1 day before',
+      ]);
+      expect(names(timeOf(at(2024, 3, 14, 21)), timeOf(at(2024, 3, 15, 20)))).toEqual([
+        'at 18:00 on the day',
+        'at the start',
+      ]);
+      expect(names(timeOf(at(2024, 3, 15, 20)), timeOf(on(2024, 3, 16)))).toEqual([]);
+      expect(names(timeOf(on(2024, 3, 16)), timeOf(on(2024, 3, 1)))).toEqual([]);
+    });
+
+    it('should remind for each occurrence of a recurring note', () => {
+      const recurring: RecurringPattern = { frequency: 'weekly', interval: 1 };
+      const market = createNote('market', on(2024, 1, 1), [{ timing: { type: 'start' } }], {
+        recurring,
+        isRecurringParent: true,
+      });
+
+      const due = NoteReminders.findDueReminders(
+        [market],
+        timeOf(on(2024, 1, 1)) - 1,
+        timeOf(on(2024, 1, 22)),
+        engine,
+        (noteId, date) => noteId === 'market' && date.day === 8
+      );
+
+      expect(due.map(entry => entry.occurrenceDate.day)).toEqual([1, 15, 22]);
+      expect(due[0].triggerTime).toBe(timeOf(on(2024, 1, 1)));
+    });
+  });
+
+  describe('buildMessages', () => {
+    const due = (id: string, reminder: Partial<NoteReminder> = {}) => ({
+      note: createNote(id, on(2024, 3, 15), []),
+      reminder: { timing: { type: 'start' as const }, ...reminder },
+      occurrenceDate: on(2024, 3, 15),
+      triggerTime: 0,
+    });
+
+    it('should whisper each reminder to its recipients or the GMs', () => {
+      const messages = NoteReminders.buildMessages(
+        [
+          due('<Feast>'),
+          due('Market', { recipients: ['p2', 'p1'] }),
+          due('Parade', { delivery: 'chat' }),
+        ],
+        gregorian,
+        engine,
+        ['gm']
+      );
+
+      expect(messages.map(message => message.whisper)).toEqual([['gm'], ['p1', 'p2'], []]);
+      expect(messages[0].content).toContain('<h3>&lt;Feast&gt;</h3>');
+      expect(messages[0].content).toContain('(at the start)');
+    });
+
+    it('should sum up a big time jump in one message per audience', () => {
+      const messages = NoteReminders.buildMessages(
+        [due('A'), due('B'), due('C'), due('D', { recipients: ['p1'] }), due('E')],
+        gregorian,
+        engine,
+        ['gm']
+      );
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0].whisper).toEqual(['gm']);
+      expect(messages[0].content).toContain('4 reminders while time passed');
+      expect(messages[1].whisper).toEqual(['p1']);
+    });
+  });
+
+  describe('NotesManager.checkReminders', () => {
+    let manager: NotesManager;
+    const callAll = vi.fn();
+
+    function setUsers(users: { id: string; isGM: boolean; active: boolean }[]) {
+      (game as any).users = Object.assign(users, {
+        filter: users.filter.bind(users),
+      });
+    }
+
+    beforeEach(async () => {
+      const journals = [
+        createNote('feast', on(2024, 3, 15), [{ timing: { type: 'start' } }]),
+        createNote('fair', on(2024, 3, 16), [{ timing: { type: 'start' } }]),
+      ];
+      (globalThis as any).game = {
+        user: { id: 'gm2', isGM: true },
+        journal: Object.assign(new Map(journals.map(journal => [journal.id, journal])), {
+          filter: (predicate: (journal: any) => boolean) => journals.filter(predicate),
+        }),
+        folders: { find: () => ({ id: 'folder' }) },
+        seasonsStars: {
+          manager: {
+            getActiveCalendar: () => gregorian,
+            getActiveEngine: () => engine,
+          },
+        },
+      };
+      (globalThis as any).ChatMessage = { create: vi.fn() };
+      (globalThis as any).Hooks = { ...Hooks, callAll };
+      callAll.mockClear();
+      manager = new NotesManager();
+      await manager.initialize();
+    });
+
+    it('should fire the hook and let one GM post the messages', async () => {
+      setUsers([
+        { id: 'gm1', isGM: true, active: false },
+        { id: 'gm2', isGM: true, active: true },
+        { id: 'player', isGM: false, active: true },
+      ]);
+
+      const due = await manager.checkReminders(timeOf(on(2024, 3, 14)), timeOf(on(2024, 3, 16)));
+
+      expect(due.map(entry => entry.note.id)).toEqual(['feast', 'fair']);
+      expect(callAll).toHaveBeenCalledWith(
+        'seasons-stars:noteReminder',
+        expect.objectContaining({ note: due[0].note, catchUp: false })
+      );
+      expect(ChatMessage.create).toHaveBeenCalledTimes(2);
+      expect(ChatMessage.create).toHaveBeenCalledWith(
+        expect.objectContaining({ whisper: ['gm1', 'gm2'] })
+      );
+    });
+
+    it('should leave posting to the first active GM', async () => {
+      setUsers([
+        { id: 'gm1', isGM: true, active: true },
+        { id: 'gm2', isGM: true, active: true },
+      ]);
+
+      await manager.checkReminders(timeOf(on(2024, 3, 14)), timeOf(on(2024, 3, 16)));
+
+      expect(callAll).toHaveBeenCalledTimes(2);
+      expect(ChatMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse reminders that could never fire', async () => {
+      await expect(
+        manager.updateNote('feast', {
+          reminders: [{ timing: { type: 'before', amount: -1, unit: 'days' } }],
+        })
+      ).rejects.toThrow('whole number of zero or more: -1');
+    });
+  });
+
+  describe('NoteEditingDialog', () => {
+    const updateNote = vi.fn();
+    const users = [
+      { id: 'gm1', name: 'Gamemaster', isGM: true },
+      { id: 'p1', name: 'Aria', isGM: false },
+      { id: 'p2', name: 'Bram', isGM: false },
+    ];
+
+    function createDialog(reminders: NoteReminder[]) {
+      const note = createNote('feast', on(2024, 3, 15), reminders);
+      return new NoteEditingDialog(
+        Object.assign(note, { pages: new Map(), ownership: {} }) as unknown as JournalEntry
+      );
+    }
+
+    // Render the dialog's form, apply the changes and save it
+    async function save(dialog: NoteEditingDialog, change: (form: HTMLFormElement) => void) {
+      const container = document.createElement('div');
+      container.innerHTML = (dialog as any).generateContent();
+      const form = container.querySelector('form')!;
+      change(form);
+      await (dialog as any).handleSave({ find: () => [form] });
+      return updateNote.mock.calls[0]?.[1];
+    }
+
+    beforeEach(() => {
+      updateNote.mockClear();
+      (globalThis as any).CONST = { DOCUMENT_OWNERSHIP_LEVELS: { OBSERVER: 2 } };
+      (globalThis as any).ui = { notifications: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+      (globalThis as any).game = {
+        users: Object.assign([...users], { map: users.map.bind(users) }),
+        seasonsStars: {
+          manager: { getActiveCalendar: () => gregorian },
+          notes: { updateNote },
+          categories: {
+            getCategories: () => [{ id: 'general', name: 'General' }],
+            getPredefinedTags: () => [],
+            getDefaultCategory: () => ({ id: 'general' }),
+            parseTagString: () => [],
+            validateTags: () => ({ valid: [], invalid: [] }),
+          },
+        },
+      };
+    });
+
+    it('should show the delivery and recipients of the reminders', () => {
+      const dialog = createDialog([
+        { timing: { type: 'start' }, delivery: 'whisper', recipients: ['p1'] },
+      ]);
+      const container = document.createElement('div');
+      container.innerHTML = (dialog as any).generateContent();
+
+      const checked = [
+        ...container.querySelectorAll<HTMLInputElement>('[name="reminderRecipients"]'),
+      ].map(input => [input.value, input.checked]);
+      expect(checked).toEqual([
+        ['gm1', false],
+        ['p1', true],
+        ['p2', false],
+      ]);
+      expect(container.querySelector<HTMLSelectElement>('[name="reminderDelivery"]')!.value).toBe(
+        'whisper'
+      );
+    });
+
+    it('should save the chosen recipients and delivery with every reminder', async () => {
+      const dialog = createDialog([{ timing: { type: 'start' }, recipients: ['p1'] }]);
+
+      const update = await save(dialog, form => {
+        form.querySelector<HTMLInputElement>('[name="reminders"]')!.value =
+          'at the start, 1 day before';
+        form.querySelector<HTMLInputElement>('[value="p2"]')!.checked = true;
+      });
+
+      expect(update.reminders).toEqual([
+        { timing: { type: 'start' }, delivery: 'whisper', recipients: ['p1', 'p2'] },
+        {
+          timing: { type: 'before', amount: 1, unit: 'days' },
+          delivery: 'whisper',
+          recipients: ['p1', 'p2'],
+        },
+      ]);
+    });
+
+    it('should refuse to save reminders the calendar cannot reach', async () => {
+      const dialog = createDialog([]);
+
+      const update = await save(dialog, form => {
+        form.querySelector<HTMLInputElement>('[name="reminders"]')!.value = 'at 99:99';
+      });
+
+      expect(update).toBeUndefined();
+      expect(ui.notifications?.error).toHaveBeenCalledWith(
+        'Invalid reminder: Reminder hour must be between 0 and 23: 99:99'
+      );
+    });
+
+    it('should update the reminders when only their audience changes', async () => {
+      const dialog = createDialog([{ timing: { type: 'start' }, recipients: ['p1'] }]);
+
+      const update = await save(dialog, form => {
+        form.querySelector<HTMLSelectElement>('[name="reminderDelivery"]')!.value = 'chat';
+        form.querySelector<HTMLInputElement>('[value="p1"]')!.checked = false;
+      });
+      expect(update.reminders).toEqual([{ timing: { type: 'start' }, delivery: 'chat' }]);
+
+      updateNote.mockClear();
+      const unchanged = await save(createDialog([{ timing: { type: 'start' } }]), () => {});
+      expect(unchanged).not.toHaveProperty('reminders');
+    });
+  });
+});
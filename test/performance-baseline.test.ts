@@ -124,4 +124,35 @@ describe('Performance Baseline Tests', () => {
     // WFRP should not be more than 3x slower than Gregorian due to intercalary day logic
     expect(slowdownFactor).toBeLessThan(3);
   });
+
+  // Leap cycles are skipped arithmetically, so distance from the epoch should not matter
+  describe('Far-from-epoch conversions', () => {
+    const farCalendars = [
+      'gregorian.json',
+      'golarion-pf2e.json',
+      'traveller-imperial.json',
+      'warhammer.json',
+      'forgotten-realms.json',
+    ];
+
+    farCalendars.forEach(file => {
+      it(`should convert dates 100k years from epoch in under 1ms (${file})`, () => {
+        const calendarData = JSON.parse(fs.readFileSync(path.join('calendars', file), 'utf8'));
+        const engine = new CalendarEngine(calendarData);
+        const farYear = calendarData.year.epoch + 100000;
+        const iterations = 1000;
+
+        const startTime = performance.now();
+        for (let i = 0; i < iterations; i++) {
+          const sign = i % 2 === 0 ? 1 : -1;
+          const date = { year: farYear * sign + (i % 10), month: 1, day: 1, weekday: 0 };
+          const worldTime = engine.dateToWorldTime(date);
+          const converted = engine.worldTimeToDate(worldTime);
+          expect(converted.year).toBe(date.year);
+        }
+        const totalTime = performance.now() - startTime;
+        expect(totalTime / iterations).toBeLessThan(1);
+      });
+    });
+  });
 });
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { NoteRecurrence, type RecurringPattern } from '../src/core/note-recurring';
+import type { CalendarDate, SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import golarionCalendar from '../calendars/golarion-pf2e.json';
+import { gregorian, on } from './mocks/fixtures';
+
+const harptos = forgottenRealmsCalendar as SeasonsStarsCalendar;
+const golarion = golarionCalendar as SeasonsStarsCalendar;
+
+function occurrences(
+  calendar: SeasonsStarsCalendar,
+  text: string,
+  startDate: CalendarDate,
+  rangeStart: CalendarDate,
+  rangeEnd: CalendarDate
+): string[] {
+  const engine = new CalendarEngine(calendar);
+  const pattern: RecurringPattern = {
+    frequency: 'daily',
+    interval: 1,
+    rule: NoteRecurrence.parseRule(text, calendar),
+  };
+
+  return NoteRecurrence.getOccurrenceDates(startDate, pattern, rangeStart, rangeEnd, engine).map(
+    date =>
+      `${date.year}-${date.month}-${date.day}${date.intercalary ? ` ${date.intercalary}` : ''}`
+  );
+}
+
+describe('Recurrence rules', () => {
+  describe('parseRule and formatRule', () => {
+    it('should read calendar weekday and month names', () => {
+      const rule = NoteRecurrence.parseRule(
+        'RRULE:FREQ=YEARLY;BYMONTH=Abadius,3;BYDAY=2Moonday,-1Toilday;UNTIL=4725-12-31',
+        golarion
+      );
+
+      expect(rule).toEqual({
+        frequency: 'yearly',
+        interval: 1,
+        byMonth: [1, 3],
+        byDay: [
+          { weekday: 0, ordinal: 2 },
+          { weekday: 1, ordinal: -1 },
+        ],
+        until: { year: 4725, month: 12, day: 31, weekday: 0 },
+      });
+      expect(NoteRecurrence.formatRule(rule, golarion)).toBe(
+        'FREQ=YEARLY;BYMONTH=Abadius,Pharast;BYDAY=2Moonday,-1Toilday;UNTIL=4725-12-31'
+      );
+    });
+
+    it('should round-trip weekday names that start with digits', () => {
+      const rule = NoteRecurrence.parseRule('FREQ=MONTHLY;BYDAY=1st,21st,-110th', harptos);
+
+      expect(rule.byDay).toEqual([
+        { weekday: 0 },
+        { weekday: 0, ordinal: 2 },
+        { weekday: 9, ordinal: -1 },
+      ]);
+      expect(NoteRecurrence.parseRule(NoteRecurrence.formatRule(rule, harptos), harptos)).toEqual(
+        rule
+      );
+    });
+
+    it('should describe the first part it cannot read', () => {
+      expect(() => NoteRecurrence.parseRule('BYDAY=Monday', gregorian)).toThrow(
+        'A recurrence rule needs a FREQ'
+      );
+      expect(() => NoteRecurrence.parseRule('FREQ=WEEKLY;BYDAY=Moonday', gregorian)).toThrow(
+        'Unknown weekday: Moonday'
+      );
+      expect(() => NoteRecurrence.parseRule('FREQ=WEEKLY;WKST=MO', gregorian)).toThrow(
+        'Unknown recurrence rule part: WKST'
+      );
+      expect(() => NoteRecurrence.parseRule('FREQ=DAILY;COUNT=0', gregorian)).toThrow(
+        'COUNT must be a positive whole number: 0'
+      );
+    });
+
+    it('should convert basic patterns', () => {
+      const pattern = NoteRecurrence.createMonthlyWeekdayPattern(2, 'friday', 3, {
+        maxOccurrences: 4,
+      });
+
+      expect(NoteRecurrence.formatRule(NoteRecurrence.toRule(pattern, gregorian), gregorian)).toBe(
+        'FREQ=MONTHLY;INTERVAL=3;BYDAY=2Friday;COUNT=4'
+      );
+    });
+  });
+
+  describe('expansion', () => {
+    it('should find the last weekday of each month', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=MONTHLY;BYDAY=Monday,Tuesday,Wednesday,Thursday,Friday;BYSETPOS=-1',
+          on(2024, 1, 1),
+          on(2024, 1, 1),
+          on(2024, 6, 30)
+        )
+      ).toEqual(['2024-1-31', '2024-2-29', '2024-3-29', '2024-4-30', '2024-5-31', '2024-6-28']);
+    });
+
+    it('should find the 2nd and 4th Moonday of each month', () => {
+      const engine = new CalendarEngine(golarion);
+      const dates = occurrences(
+        golarion,
+        'FREQ=MONTHLY;BYDAY=2Moonday,4Moonday',
+        on(4725, 1, 1),
+        on(4725, 1, 1),
+        on(4725, 3, 31)
+      );
+
+      expect(dates).toHaveLength(6);
+      for (const text of dates) {
+        const [year, month, day] = text.split('-').map(Number);
+        expect(engine.calculateWeekday(year, month, day)).toBe(0);
+        expect([8, 9, 10, 11, 12, 13, 14, 22, 23, 24, 25, 26, 27, 28]).toContain(day);
+      }
+    });
+
+    it('should repeat on an intercalary day every 4 years', () => {
+      expect(
+        occurrences(
+          harptos,
+          'FREQ=YEARLY;INTERVAL=4;BYINTERCALARY=Shieldmeet',
+          on(1492, 7, 1, 'Shieldmeet'),
+          on(1490, 1, 1),
+          on(1505, 1, 1)
+        )
+      ).toEqual([
+        '1492-7-1 Shieldmeet',
+        '1496-7-1 Shieldmeet',
+        '1500-7-1 Shieldmeet',
+        '1504-7-1 Shieldmeet',
+      ]);
+    });
+
+    it('should count back from the end of the month and year', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=MONTHLY;BYMONTHDAY=-1',
+          on(2024, 1, 15),
+          on(2024, 1, 1),
+          on(2024, 3, 31)
+        )
+      ).toEqual(['2024-1-31', '2024-2-29', '2024-3-31']);
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=YEARLY;BYDAY=-1Friday',
+          on(2024, 1, 1),
+          on(2024, 1, 1),
+          on(2025, 12, 31)
+        )
+      ).toEqual(['2024-12-27', '2025-12-26']);
+    });
+
+    it('should stop at COUNT and UNTIL', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=WEEKLY;BYDAY=Tuesday,Thursday;COUNT=5',
+          on(2024, 1, 2),
+          on(2024, 1, 1),
+          on(2024, 12, 31)
+        )
+      ).toEqual(['2024-1-2', '2024-1-4', '2024-1-9', '2024-1-11', '2024-1-16']);
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=DAILY;INTERVAL=2;UNTIL=2024-1-7',
+          on(2024, 1, 1),
+          on(2024, 1, 1),
+          on(2024, 12, 31)
+        )
+      ).toEqual(['2024-1-1', '2024-1-3', '2024-1-5', '2024-1-7']);
+    });
+
+    it('should keep counting COUNT rules into distant ranges', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=DAILY;COUNT=20000',
+          on(2000, 1, 1),
+          on(2040, 1, 1),
+          on(2040, 1, 5)
+        )
+      ).toEqual(['2040-1-1', '2040-1-2', '2040-1-3', '2040-1-4', '2040-1-5']);
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=DAILY;COUNT=20000',
+          on(2000, 1, 1),
+          on(2060, 1, 1),
+          on(2060, 1, 5)
+        )
+      ).toEqual([]);
+    });
+
+    it('should search ranges longer than any fixed number of periods', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=DAILY;BYMONTH=2;BYMONTHDAY=29',
+          on(2000, 1, 1),
+          on(2000, 1, 1),
+          on(2040, 12, 31)
+        )
+      ).toHaveLength(11);
+    });
+
+    it('should reach the end of a range early in a week', () => {
+      expect(
+        occurrences(
+          gregorian,
+          'FREQ=WEEKLY;BYDAY=Sunday',
+          on(2024, 1, 4),
+          on(2024, 1, 14),
+          on(2024, 1, 14)
+        )
+      ).toEqual(['2024-1-14']);
+    });
+
+    it('should give the first occurrence its real weekday', () => {
+      const engine = new CalendarEngine(gregorian);
+      const pattern: RecurringPattern = {
+        frequency: 'daily',
+        interval: 1,
+        rule: NoteRecurrence.parseRule('FREQ=DAILY;COUNT=2', gregorian),
+      };
+      const [first] = NoteRecurrence.generateOccurrences(
+        on(2024, 1, 1),
+        pattern,
+        on(2024, 1, 1),
+        on(2024, 1, 2),
+        engine
+      );
+
+      expect(first.date.weekday).toBe(engine.calculateWeekday(2024, 1, 1));
+      expect(first.date.weekday).not.toBe(0);
+    });
+
+    it('should match single dates far from the start', () => {
+      const engine = new CalendarEngine(gregorian);
+      const pattern: RecurringPattern = {
+        frequency: 'monthly',
+        interval: 1,
+        rule: NoteRecurrence.parseRule('FREQ=MONTHLY;BYMONTHDAY=-1', gregorian),
+        exceptions: [on(2100, 3, 31)],
+      };
+
+      expect(NoteRecurrence.occursOn(on(2100, 2, 28), pattern, on(2024, 1, 1), engine)).toBe(true);
+      expect(NoteRecurrence.occursOn(on(2100, 2, 27), pattern, on(2024, 1, 1), engine)).toBe(false);
+      expect(NoteRecurrence.occursOn(on(2100, 3, 31), pattern, on(2024, 1, 1), engine)).toBe(false);
+    });
+  });
+});
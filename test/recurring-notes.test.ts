@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { NoteStorage } from '../src/core/note-storage';
+import { NotesManager } from '../src/core/notes-manager';
+import type { RecurringPattern } from '../src/core/note-recurring';
+import type { CalendarDate } from '../src/types/calendar';
+import { createNoteJournal, gregorian, on } from './mocks/fixtures';
+
+const engine = new CalendarEngine(gregorian);
+
+function recurringNote(id: string, startDate: CalendarDate, recurring: RecurringPattern) {
+  return createNoteJournal(id, startDate, { recurring, isRecurringParent: true });
+}
+
+function setJournals(journals: any[]) {
+  const collection = new Map(journals.map(journal => [journal.id, journal]));
+  (globalThis as any).game = {
+    user: { id: 'gm', isGM: true },
+    journal: Object.assign(collection, {
+      filter: (predicate: (journal: any) => boolean) => [...collection.values()].filter(predicate),
+    }),
+    seasonsStars: {
+      manager: {
+        getActiveEngine: () => engine,
+        getActiveCalendar: () => gregorian,
+      },
+    },
+  };
+}
+
+describe('Virtual recurring notes', () => {
+  describe('NoteStorage', () => {
+    let storage: NoteStorage;
+
+    function noteIdsOn(date: CalendarDate): string[] {
+      return storage
+        .findNotesByDateSync(date)
+        .map(note => note.id)
+        .sort();
+    }
+
+    beforeEach(() => {
+      setJournals([
+        recurringNote('daily', on(2024, 1, 1), { frequency: 'daily', interval: 1 }),
+        recurringNote('thrice', on(2024, 1, 1), {
+          frequency: 'weekly',
+          interval: 1,
+          maxOccurrences: 3,
+        }),
+        createNoteJournal('single', on(2024, 1, 8)),
+      ]);
+      storage = new NoteStorage();
+      storage.initialize();
+    });
+
+    it('should expand recurring notes on every date they occur', () => {
+      expect(noteIdsOn(on(2024, 1, 1))).toEqual(['daily', 'thrice']);
+      expect(noteIdsOn(on(2024, 1, 8))).toEqual(['daily', 'single', 'thrice']);
+      expect(noteIdsOn(on(2023, 12, 31))).toEqual([]);
+    });
+
+    it('should keep expanding past the old two-year window', () => {
+      expect(noteIdsOn(on(2060, 6, 1))).toEqual(['daily']);
+    });
+
+    it('should stop after the maximum number of occurrences', () => {
+      expect(noteIdsOn(on(2024, 1, 15))).toContain('thrice');
+      expect(noteIdsOn(on(2024, 1, 22))).not.toContain('thrice');
+    });
+
+    it('should let an edited occurrence replace the virtual one', async () => {
+      const edited = createNoteJournal('edited', on(2024, 1, 9), {
+        recurringParentId: 'daily',
+        occurrenceDate: on(2024, 1, 10),
+      });
+      (game.journal as any).set(edited.id, edited);
+      await storage.storeNote(edited as any, on(2024, 1, 9));
+
+      expect(noteIdsOn(on(2024, 1, 9))).toEqual(['daily', 'edited']);
+      expect(noteIdsOn(on(2024, 1, 10))).toEqual([]);
+    });
+
+    it('should include each recurring note once per range', async () => {
+      const notes = await storage.findNotesByDateRange(on(2030, 3, 1), on(2030, 3, 31));
+
+      expect(notes.map(note => note.id)).toEqual(['daily']);
+    });
+  });
+
+  describe('NotesManager', () => {
+    let manager: NotesManager;
+    let parent: ReturnType<typeof recurringNote>;
+
+    beforeEach(() => {
+      parent = recurringNote('parent', on(2024, 1, 1), { frequency: 'weekly', interval: 1 });
+      manager = new NotesManager();
+      (globalThis as any).JournalEntry = {
+        create: vi.fn(async (data: any) => ({
+          id: 'created',
+          ...data,
+          createEmbeddedDocuments: vi.fn(),
+        })),
+        deleteDocuments: vi.fn(),
+      };
+      (globalThis as any).foundry.applications.api.DialogV2 = {
+        confirm: vi.fn(async () => true),
+      };
+      (globalThis as any).ui = { notifications: { info: vi.fn() } };
+    });
+
+    it('should collapse untouched generated occurrences into their parent', async () => {
+      const untouched = createNoteJournal('untouched', on(2024, 1, 8), {
+        recurringParentId: 'parent',
+      });
+      const edited = createNoteJournal('edited', on(2024, 1, 15), {
+        recurringParentId: 'parent',
+        content: 'Market closed for the festival',
+        modified: 60000,
+      });
+      const orphan = createNoteJournal('orphan', on(2024, 1, 22), { recurringParentId: 'gone' });
+      setJournals([parent, untouched, edited, orphan]);
+      manager.storage.initialize();
+
+      expect(await manager.migrateGeneratedOccurrences()).toBe(1);
+      expect(JournalEntry.deleteDocuments).toHaveBeenCalledWith(['untouched']);
+      expect(edited.setFlag).toHaveBeenCalledWith(
+        'seasons-and-stars',
+        'occurrenceDate',
+        on(2024, 1, 15)
+      );
+      expect(orphan.setFlag).not.toHaveBeenCalled();
+      expect(ui.notifications?.info).toHaveBeenCalledWith(expect.stringContaining('Removed 1'));
+    });
+
+    it('should keep occurrences edited in the journal sheet', async () => {
+      const untouched = createNoteJournal('untouched', on(2024, 1, 8), {
+        recurringParentId: 'parent',
+      });
+      const renamed = createNoteJournal('renamed', on(2024, 1, 15), {
+        recurringParentId: 'parent',
+      });
+      renamed._stats = { createdTime: 1000, modifiedTime: 90000 };
+      const rewritten = createNoteJournal('rewritten', on(2024, 1, 22), {
+        recurringParentId: 'parent',
+      });
+      rewritten.pages.get('page')!._stats.modifiedTime = 90000;
+      setJournals([parent, untouched, renamed, rewritten]);
+      manager.storage.initialize();
+
+      expect(await manager.migrateGeneratedOccurrences()).toBe(1);
+      expect(JournalEntry.deleteDocuments).toHaveBeenCalledWith(['untouched']);
+      expect(renamed.setFlag).toHaveBeenCalled();
+      expect(rewritten.setFlag).toHaveBeenCalled();
+    });
+
+    it('should compare name and content when documents have no stats', async () => {
+      const generated = createNoteJournal('generated', on(2024, 1, 8), {
+        recurringParentId: 'parent',
+      });
+      generated.name = 'parent (2024-01-08)';
+      const rewritten = createNoteJournal('rewritten', on(2024, 1, 15), {
+        recurringParentId: 'parent',
+        content: 'Market closed',
+      });
+      rewritten.name = 'parent (2024-01-15)';
+      const renamed = createNoteJournal('renamed', on(2024, 1, 22), {
+        recurringParentId: 'parent',
+      });
+      for (const journal of [generated, rewritten, renamed]) {
+        journal._stats = undefined;
+      }
+      setJournals([parent, generated, rewritten, renamed]);
+      manager.storage.initialize();
+
+      expect(await manager.migrateGeneratedOccurrences()).toBe(1);
+      expect(JournalEntry.deleteDocuments).toHaveBeenCalledWith(['generated']);
+      expect(rewritten.setFlag).toHaveBeenCalled();
+      expect(renamed.setFlag).toHaveBeenCalled();
+    });
+
+    it('should keep untouched occurrences when the GM declines', async () => {
+      vi.mocked(foundry.applications.api.DialogV2.confirm).mockResolvedValue(false);
+      const untouched = createNoteJournal('untouched', on(2024, 1, 8), {
+        recurringParentId: 'parent',
+      });
+      setJournals([parent, untouched]);
+      manager.storage.initialize();
+
+      expect(await manager.migrateGeneratedOccurrences()).toBe(0);
+      expect(JournalEntry.deleteDocuments).not.toHaveBeenCalled();
+      expect(untouched.setFlag).toHaveBeenCalledWith(
+        'seasons-and-stars',
+        'occurrenceDate',
+        on(2024, 1, 8)
+      );
+    });
+
+    it('should judge occurrences by their own timestamps and flags', async () => {
+      // The parent was edited after generation; untouched occurrences still carry the old text
+      parent.pages = new Map([['page', { text: { content: 'Market opens at noon' } }]]);
+      const untouched = createNoteJournal('untouched', on(2024, 1, 8), {
+        recurringParentId: 'parent',
+      });
+      const retimed = createNoteJournal('retimed', on(2024, 1, 15), {
+        recurringParentId: 'parent',
+        modified: 90000,
+      });
+      const annotated = createNoteJournal('annotated', on(2024, 1, 22), {
+        recurringParentId: 'parent',
+        reminders: [{ id: 'r1', offset: { days: 1 } }],
+      });
+      const flagged = createNoteJournal('flagged', on(2024, 1, 29), {
+        recurringParentId: 'parent',
+      });
+      flagged.flags['other-module'] = { data: { weather: 'rain' } };
+      setJournals([parent, untouched, retimed, annotated, flagged]);
+      manager.storage.initialize();
+
+      expect(await manager.migrateGeneratedOccurrences()).toBe(1);
+      expect(JournalEntry.deleteDocuments).toHaveBeenCalledWith(['untouched']);
+      for (const kept of [retimed, annotated, flagged]) {
+        expect(kept.setFlag).toHaveBeenCalledWith(
+          'seasons-and-stars',
+          'occurrenceDate',
+          kept.flags['seasons-and-stars'].startDate
+        );
+      }
+    });
+
+    it('should create a journal only when an occurrence is edited', async () => {
+      setJournals([parent]);
+      (game as any).folders = { find: () => ({ id: 'folder' }) };
+      manager.storage.initialize();
+
+      const occurrence = await manager.getOrCreateOccurrence('parent', on(2024, 1, 15));
+
+      expect(JournalEntry.create).toHaveBeenCalledTimes(1);
+      expect(occurrence.flags['seasons-and-stars']).toMatchObject({
+        recurringParentId: 'parent',
+        occurrenceDate: on(2024, 1, 15),
+      });
+      await expect(manager.getOrCreateOccurrence('parent', on(2024, 1, 16))).rejects.toThrow(
+        'does not occur on'
+      );
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { DateFormatter } from '../src/core/date-formatter';
+import { getSceneHemisphere, registerSceneHemisphereHooks } from '../src/core/scene-hemisphere';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import gregorianCalendar from '../calendars/gregorian.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import greyhawkCalendar from '../calendars/greyhawk.json';
+
+const gregorian = gregorianCalendar as SeasonsStarsCalendar;
+const bundledCalendars = import.meta.glob('../calendars/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+function seasonOn(
+  engine: CalendarEngine,
+  date: { year: number; month: number; day: number; intercalary?: string },
+  hemisphere: 'northern' | 'southern' = 'northern'
+) {
+  return engine.getSeason({ weekday: 0, ...date }, hemisphere)?.name;
+}
+
+describe('Seasons', () => {
+  describe('Season resolution', () => {
+    const engine = new CalendarEngine(gregorian);
+
+    it('should switch seasons on the exact start day', () => {
+      expect(seasonOn(engine, { year: 2024, month: 3, day: 19 })).toBe('Winter');
+      expect(seasonOn(engine, { year: 2024, month: 3, day: 20 })).toBe('Spring');
+      expect(seasonOn(engine, { year: 2024, month: 9, day: 21 })).toBe('Summer');
+      expect(seasonOn(engine, { year: 2024, month: 9, day: 22 })).toBe('Autumn');
+    });
+
+    it('should wrap the last season across the new year', () => {
+      expect(seasonOn(engine, { year: 2024, month: 12, day: 31 })).toBe('Winter');
+      expect(seasonOn(engine, { year: 2025, month: 1, day: 1 })).toBe('Winter');
+    });
+
+    it('should place intercalary days in the season of the month they follow', () => {
+      const harptos = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+
+      expect(seasonOn(harptos, { year: 1492, month: 7, day: 1, intercalary: 'Midsummer' })).toBe(
+        'Summer'
+      );
+      expect(seasonOn(harptos, { year: 1492, month: 1, day: 1, intercalary: 'Midwinter' })).toBe(
+        'Winter'
+      );
+    });
+
+    it('should return null for calendars without seasons', () => {
+      const engine = new CalendarEngine({ ...gregorian, seasons: undefined });
+      expect(engine.getSeason({ year: 2024, month: 6, day: 1, weekday: 0 })).toBeNull();
+    });
+  });
+
+  describe('Hemispheres', () => {
+    afterEach(() => {
+      (game as any).scenes = undefined;
+    });
+
+    it('should flip seasons in the southern hemisphere', () => {
+      const engine = new CalendarEngine(gregorian);
+
+      expect(seasonOn(engine, { year: 2024, month: 7, day: 1 }, 'southern')).toBe('Winter');
+      expect(seasonOn(engine, { year: 2024, month: 1, day: 1 }, 'southern')).toBe('Summer');
+    });
+
+    it('should flip calendars with an odd number of seasons', () => {
+      const engine = new CalendarEngine(greyhawkCalendar as SeasonsStarsCalendar);
+
+      expect(seasonOn(engine, { year: 591, month: 8, day: 1 })).toBe('High Summer');
+      expect(seasonOn(engine, { year: 591, month: 8, day: 1 }, 'southern')).toBe('Winter');
+    });
+
+    it('should read the hemisphere from the active scene', () => {
+      expect(getSceneHemisphere()).toBe('northern');
+
+      (game as any).scenes = { active: { getFlag: () => 'southern' } };
+      expect(getSceneHemisphere()).toBe('southern');
+      expect(
+        DateFormatter.getSeasonName(gregorian, { year: 2024, month: 7, day: 1, weekday: 0 })
+      ).toBe('Winter');
+    });
+  });
+
+  describe('Scene configuration', () => {
+    afterEach(() => {
+      delete (game.i18n as any).localize;
+    });
+
+    it('should add a localized hemisphere select to the scene sheet', () => {
+      const on = vi.spyOn(Hooks, 'on');
+      (game.i18n as any).localize = (key: string) => `[${key.split('.').pop()}]`;
+      registerSceneHemisphereHooks();
+      const render = on.mock.calls.find(([hook]) => hook === 'renderSceneConfig')![1];
+      on.mockRestore();
+
+      const html = document.createElement('form');
+      html.innerHTML = '<div class="tab" data-tab="ambience"></div>';
+      render({ document: { getFlag: () => 'southern' } }, html);
+
+      const select = html.querySelector<HTMLSelectElement>(
+        '.tab[data-tab="ambience"] select[name="flags.seasons-and-stars.hemisphere"]'
+      )!;
+      expect(select.value).toBe('southern');
+      expect([...select.options].map(option => option.text)).toEqual([
+        '[scene_hemisphere_northern]',
+        '[scene_hemisphere_southern]',
+      ]);
+      expect(html.querySelector('label')?.textContent).toBe('[scene_hemisphere]');
+    });
+  });
+
+  describe('Bundled calendars', () => {
+    it('should define valid seasons for every bundled calendar', () => {
+      expect(Object.keys(bundledCalendars).length).toBeGreaterThan(0);
+
+      for (const [path, calendar] of Object.entries(bundledCalendars)) {
+        const result = CalendarValidator.validate(calendar);
+
+        expect((calendar as SeasonsStarsCalendar).seasons?.length, path).toBeGreaterThan(0);
+        expect(result.errors, path).toEqual([]);
+      }
+    });
+
+    it('should reject seasons starting outside their month', () => {
+      const result = CalendarValidator.validate({
+        ...gregorian,
+        seasons: [
+          { name: 'Spring', startMonth: 2, startDay: 30 },
+          { name: 'Summer', startMonth: 13, startDay: 1 },
+        ],
+      });
+
+      expect(result.errors).toContain('Season 1 startDay must not exceed the 28 days of February');
+      expect(result.errors).toContain('Season 2 startMonth must be between 1 and 12');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import {
+  getQuickTimeButtonsFromSettings,
+  parseQuickTimeButtons,
+  parseQuickTimeSegmentButtons,
+} from '../src/core/quick-time-buttons';
+import type { CalendarTimeSegment, SeasonsStarsCalendar } from '../src/types/calendar';
+import gregorianCalendar from '../calendars/gregorian.json';
+
+const watches: CalendarTimeSegment[] = [
+  { name: 'Middle Watch', type: 'watch', start: 0, end: 4 },
+  { name: 'Morning Watch', type: 'watch', start: 4, end: 8 },
+  { name: 'Forenoon Watch', type: 'watch', start: 8, end: 12 },
+  { name: 'Afternoon Watch', type: 'watch', start: 12, end: 16 },
+  { name: 'Dog Watch', type: 'watch', start: 16, end: 20 },
+  { name: 'First Watch', type: 'watch', start: 20, end: 0 },
+];
+
+const navalCalendar: SeasonsStarsCalendar = {
+  ...(gregorianCalendar as SeasonsStarsCalendar),
+  timeSegments: [...watches, { name: 'Hour of the Owl', type: 'hour', start: 1.5, end: 2.5 }],
+};
+
+function at(hour: number, minute = 0, second = 0) {
+  return { year: 2024, month: 6, day: 1, weekday: 0, time: { hour, minute, second } };
+}
+
+describe('Time segments', () => {
+  const engine = new CalendarEngine(navalCalendar);
+
+  describe('CalendarEngine.getTimeSegment', () => {
+    it('should find the segment containing the time', () => {
+      expect(engine.getTimeSegment(at(5, 30))?.name).toBe('Morning Watch');
+      expect(engine.getTimeSegment(at(12))?.name).toBe('Afternoon Watch');
+      expect(engine.getTimeSegment(at(11, 59, 59))?.name).toBe('Forenoon Watch');
+    });
+
+    it('should handle segments running past midnight', () => {
+      expect(engine.getTimeSegment(at(23, 30))?.name).toBe('First Watch');
+      expect(engine.getTimeSegment(at(0))?.name).toBe('Middle Watch');
+    });
+
+    it('should choose between overlapping segments by type', () => {
+      expect(engine.getTimeSegment(at(2))?.name).toBe('Middle Watch');
+      expect(engine.getTimeSegment(at(2), 'hour')?.name).toBe('Hour of the Owl');
+      expect(engine.getTimeSegment(at(3), 'hour')).toBeNull();
+    });
+
+    it('should return null for calendars without segments', () => {
+      const plain = new CalendarEngine(gregorianCalendar as SeasonsStarsCalendar);
+      expect(plain.getTimeSegment(at(12))).toBeNull();
+    });
+  });
+
+  describe('CalendarEngine.getTimeSegmentOffset', () => {
+    const secondsPerHour = 3600;
+
+    it('should move forward to the next segment start', () => {
+      expect(engine.getTimeSegmentOffset(at(5, 30), 1, 'watch')).toBe(2.5 * secondsPerHour);
+      expect(engine.getTimeSegmentOffset(at(4), 1, 'watch')).toBe(4 * secondsPerHour);
+      expect(engine.getTimeSegmentOffset(at(5), 2, 'watch')).toBe(7 * secondsPerHour);
+    });
+
+    it('should wrap into the next day', () => {
+      expect(engine.getTimeSegmentOffset(at(22), 1, 'watch')).toBe(2 * secondsPerHour);
+      expect(engine.getTimeSegmentOffset(at(22), 2, 'watch')).toBe(6 * secondsPerHour);
+    });
+
+    it('should move back to earlier segment starts', () => {
+      expect(engine.getTimeSegmentOffset(at(5, 30), -1, 'watch')).toBe(-1.5 * secondsPerHour);
+      expect(engine.getTimeSegmentOffset(at(4), -1, 'watch')).toBe(-4 * secondsPerHour);
+      expect(engine.getTimeSegmentOffset(at(0), -1, 'watch')).toBe(-4 * secondsPerHour);
+    });
+
+    it('should include every segment start without a type', () => {
+      expect(engine.getTimeSegmentOffset(at(1), 1)).toBe(0.5 * secondsPerHour);
+    });
+  });
+
+  describe('Quick time buttons', () => {
+    it('should parse seg entries separately from minute values', () => {
+      expect(parseQuickTimeButtons('-1seg,30m,1h,1seg,2seg')).toEqual([30, 60]);
+      expect(parseQuickTimeSegmentButtons('-1seg,30m,1h,1seg,2seg')).toEqual([-1, 1, 2]);
+      expect(parseQuickTimeSegmentButtons('0seg,seg,1')).toEqual([]);
+    });
+
+    it('should add segment buttons only for calendars with segments', () => {
+      const getActiveCalendar = vi.fn().mockReturnValue(navalCalendar);
+      globalThis.game = {
+        settings: { get: vi.fn().mockReturnValue('30m,1seg') },
+        seasonsStars: { manager: { getActiveCalendar } },
+      } as any;
+
+      expect(getQuickTimeButtonsFromSettings(false)).toEqual([
+        { amount: 30, unit: 'minutes', label: '30m' },
+        { amount: 1, unit: 'segments', label: '1seg' },
+      ]);
+
+      getActiveCalendar.mockReturnValue(gregorianCalendar);
+      expect(getQuickTimeButtonsFromSettings(false)).toEqual([
+        { amount: 30, unit: 'minutes', label: '30m' },
+      ]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept well-formed segments', () => {
+      expect(CalendarValidator.validate(navalCalendar).errors).toEqual([]);
+    });
+
+    it('should reject segments outside the day', () => {
+      const result = CalendarValidator.validate({
+        ...navalCalendar,
+        timeSegments: [
+          { name: 'Night', start: 22, end: 26 },
+          { start: 1, end: 2 },
+        ],
+      });
+
+      expect(result.errors).toContain('Time segment 1 end must be an hour between 0 and 24');
+      expect(result.errors).toContain('Time segment 2 must have a name');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarGridWidget } from '../src/ui/calendar-grid-widget';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import greyhawkCalendar from '../calendars/greyhawk.json';
+import { gregorian, on } from './mocks/fixtures';
+
+const greyhawk = greyhawkCalendar as SeasonsStarsCalendar;
+const harptos = forgottenRealmsCalendar as SeasonsStarsCalendar;
+
+describe('Day and week of the year', () => {
+  describe('getDayOfYear', () => {
+    it('should count intercalary days as days of the year', () => {
+      const engine = new CalendarEngine(harptos);
+
+      expect(engine.getDayOfYear(on(1492, 1, 1))).toBe(1);
+      expect(engine.getDayOfYear(on(1492, 1, 1, 'Midwinter'))).toBe(31);
+      expect(engine.getDayOfYear(on(1492, 2, 1))).toBe(32);
+      expect(engine.getDayOfYear(on(1492, 12, 30))).toBe(366);
+    });
+
+    it('should round-trip through getDateFromDayOfYear', () => {
+      const engine = new CalendarEngine(gregorian);
+
+      for (let dayOfYear = 1; dayOfYear <= 366; dayOfYear += 29) {
+        const date = engine.getDateFromDayOfYear(2024, dayOfYear)!;
+        expect(engine.getDayOfYear(date)).toBe(dayOfYear);
+      }
+      expect(engine.getDateFromDayOfYear(2024, 60)).toMatchObject({ month: 2, day: 29 });
+    });
+  });
+
+  describe('getDateFromDayOfYear', () => {
+    const engine = new CalendarEngine(harptos);
+
+    it('should return intercalary days in their place', () => {
+      expect(engine.getDateFromDayOfYear(1492, 31)).toMatchObject({
+        month: 1,
+        day: 1,
+        intercalary: 'Midwinter',
+      });
+    });
+
+    it('should return null outside the year', () => {
+      expect(engine.getDateFromDayOfYear(1492, 366)).toMatchObject({ month: 12, day: 30 });
+      expect(engine.getDateFromDayOfYear(1492, 367)).toBeNull();
+      expect(engine.getDateFromDayOfYear(1493, 366)).toBeNull();
+      expect(engine.getDateFromDayOfYear(1492, 0)).toBeNull();
+    });
+  });
+
+  describe('getWeekOfYear', () => {
+    it('should start new weeks on the first weekday', () => {
+      const engine = new CalendarEngine(gregorian);
+
+      // 1 January 2024 was a Monday, so the first Sunday starts week 2
+      expect(engine.getWeekOfYear(on(2024, 1, 6))).toBe(1);
+      expect(engine.getWeekOfYear(on(2024, 1, 7))).toBe(2);
+      expect(engine.getWeekOfYear(on(2024, 12, 31))).toBe(53);
+    });
+
+    it('should count intercalary weeks that keep weekdays', () => {
+      const engine = new CalendarEngine(greyhawk);
+
+      expect(engine.getWeekOfYear(on(591, 3, 28))).toBe(12);
+      expect(engine.getWeekOfYear(on(591, 3, 1, 'Growfest'))).toBe(13);
+      expect(engine.getWeekOfYear(on(591, 4, 1))).toBe(14);
+      expect(engine.getWeekOfYear(on(591, 12, 7, 'Needfest'))).toBe(52);
+    });
+
+    it('should restart weeks each month and skip days outside the week', () => {
+      const engine = new CalendarEngine(harptos);
+
+      expect(engine.getWeekOfYear(on(1492, 1, 30))).toBe(3);
+      expect(engine.getWeekOfYear(on(1492, 1, 1, 'Midwinter'))).toBeNull();
+      expect(engine.getWeekOfYear(on(1492, 2, 1))).toBe(4);
+      expect(engine.getWeekOfYear(on(1492, 12, 30))).toBe(36);
+    });
+  });
+
+  describe('Calendar grid', () => {
+    function monthData(calendar: SeasonsStarsCalendar, viewDate: ReturnType<typeof on>) {
+      const engine = new CalendarEngine(calendar);
+      globalThis.game = {
+        user: { isGM: false, id: 'player-user-id' },
+        settings: { get: vi.fn().mockReturnValue('setDate') },
+        seasonsStars: { manager: { getActiveEngine: () => engine } },
+      } as any;
+
+      const grid = new CalendarGridWidget(viewDate);
+      return (grid as any).generateMonthData(calendar, viewDate, viewDate);
+    }
+
+    it('should number each week row and leave intercalary rows blank', () => {
+      const data = monthData(harptos, on(1492, 1, 1));
+
+      expect(data.weekNumbers).toEqual([1, 2, 3, null]);
+      expect(data.weekNumbers).toHaveLength(data.weeks.length);
+    });
+
+    it('should number intercalary pages that keep weekdays', () => {
+      expect(monthData(greyhawk, on(591, 3, 1, 'Growfest')).weekNumbers).toEqual([13]);
+    });
+  });
+});
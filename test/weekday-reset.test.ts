@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarEngine } from '../src/core/calendar-engine';
+import { CalendarValidator } from '../src/core/calendar-validator';
+import { CalendarGridWidget } from '../src/ui/calendar-grid-widget';
+import type { SeasonsStarsCalendar } from '../src/types/calendar';
+import dnd5eSwordCoastCalendar from '../calendars/dnd5e-sword-coast.json';
+import forbiddenLandsCalendar from '../calendars/forbidden-lands.json';
+import forgottenRealmsCalendar from '../calendars/forgotten-realms.json';
+import { gregorian, withCalendar } from './mocks/fixtures';
+
+describe('Weekday reset modes', () => {
+  describe('CalendarEngine.calculateWeekday', () => {
+    it('should keep one continuous cycle by default', () => {
+      const engine = new CalendarEngine(gregorian);
+      const continuous = new CalendarEngine(withCalendar({ week: { resetMode: 'continuous' } }));
+
+      for (const [year, month, day] of [
+        [2024, 1, 1],
+        [2024, 3, 15],
+        [1999, 12, 31],
+      ]) {
+        expect(continuous.calculateWeekday(year, month, day)).toBe(
+          engine.calculateWeekday(year, month, day)
+        );
+      }
+    });
+
+    it('should restart the week on the first of every month', () => {
+      const engine = new CalendarEngine(withCalendar({ week: { resetMode: 'month' } }));
+      const { startDay } = gregorian.year;
+
+      expect(engine.calculateWeekday(2024, 1, 1)).toBe(startDay);
+      expect(engine.calculateWeekday(2024, 2, 1)).toBe(startDay);
+      expect(engine.calculateWeekday(1850, 7, 1)).toBe(startDay);
+      expect(engine.calculateWeekday(2024, 2, 8)).toBe(startDay);
+      expect(engine.calculateWeekday(2024, 1, 31)).toBe((startDay + 30) % 7);
+    });
+
+    it('should restart the week on the first day of every year', () => {
+      const engine = new CalendarEngine(withCalendar({ week: { resetMode: 'year' } }));
+      const { startDay } = gregorian.year;
+
+      expect(engine.calculateWeekday(2023, 1, 1)).toBe(startDay);
+      expect(engine.calculateWeekday(2024, 1, 1)).toBe(startDay);
+      // 31 days into the year
+      expect(engine.calculateWeekday(2024, 2, 1)).toBe((startDay + 31) % 7);
+    });
+
+    it('should give matching results where the bundled calendars already lined up', () => {
+      // Harptos months are exactly three tendays, and the Forbidden Lands year exactly 52 weeks
+      for (const calendar of [forgottenRealmsCalendar, forbiddenLandsCalendar]) {
+        const resetting = new CalendarEngine(calendar as SeasonsStarsCalendar);
+        const continuous = new CalendarEngine({
+          ...(calendar as SeasonsStarsCalendar),
+          week: { resetMode: 'continuous' },
+        });
+
+        for (const [year, month, day] of [
+          [1492, 1, 1],
+          [1165, 3, 17],
+          [1493, 8, 30],
+        ]) {
+          expect(resetting.calculateWeekday(year, month, day)).toBe(
+            continuous.calculateWeekday(year, month, day)
+          );
+        }
+      }
+    });
+
+    it('should agree between the bundled Harptos calendars', () => {
+      const forgottenRealms = new CalendarEngine(forgottenRealmsCalendar as SeasonsStarsCalendar);
+      const swordCoast = new CalendarEngine(dnd5eSwordCoastCalendar as SeasonsStarsCalendar);
+
+      for (const [year, month, day] of [
+        [1492, 1, 1],
+        [1492, 7, 30],
+        [1493, 12, 17],
+      ]) {
+        expect(swordCoast.calculateWeekday(year, month, day)).toBe(
+          forgottenRealms.calculateWeekday(year, month, day)
+        );
+      }
+    });
+
+    it('should round-trip world time with reset weeks', () => {
+      const engine = new CalendarEngine(withCalendar({ week: { resetMode: 'month' } }));
+      const date = { year: 2024, month: 5, day: 20, weekday: 0 };
+      const result = engine.worldTimeToDate(engine.dateToWorldTime(date));
+
+      expect(result).toMatchObject({ year: 2024, month: 5, day: 20 });
+      expect(result.weekday).toBe(engine.calculateWeekday(2024, 5, 20));
+    });
+  });
+
+  describe('Calendar grid layout', () => {
+    beforeEach(() => {
+      globalThis.game = {
+        user: { isGM: false, id: 'player-user-id' },
+        settings: { get: vi.fn().mockReturnValue('setDate') },
+        seasonsStars: { manager: {} },
+      } as any;
+    });
+
+    function layout(engine: CalendarEngine, month: number) {
+      (globalThis.game as any).seasonsStars.manager.getActiveEngine = () => engine;
+      const grid = new CalendarGridWidget({ year: 2024, month, day: 1, weekday: 0 } as any);
+      const viewDate = { year: 2024, month, day: 1, weekday: 0 };
+
+      return (grid as any).generateMonthData(engine.getCalendar(), viewDate, viewDate);
+    }
+
+    it('should start each month in the first column when weeks reset monthly', () => {
+      const engine = new CalendarEngine(
+        withCalendar(
+          { week: { resetMode: 'month' } },
+          {
+            ...gregorian,
+            year: { ...gregorian.year, startDay: 0 },
+          }
+        )
+      );
+      const monthData = layout(engine, 3);
+
+      expect(monthData.weeks[0][0].day).toBe(1);
+      expect(monthData.weeks.every((week: any[]) => week.length === 7)).toBe(true);
+    });
+
+    it('should place days under their weekday column', () => {
+      const engine = new CalendarEngine(gregorian);
+      const monthData = layout(engine, 3);
+
+      for (const week of monthData.weeks) {
+        week.forEach((cell: any, column: number) => {
+          if (!cell.isEmpty) expect(cell.weekday).toBe(column);
+        });
+      }
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject unknown reset modes', () => {
+      const result = CalendarValidator.validate({ ...gregorian, week: { resetMode: 'fortnight' } });
+
+      expect(result.errors).toContain('Week resetMode must be one of: continuous, month, year');
+    });
+  });
+});
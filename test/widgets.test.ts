@@ -213,6 +213,10 @@ describe('CalendarGridWidget Note Permission Filtering', () => {
             getMonthLength: vi.fn(() => 30),
             calculateWeekday: vi.fn(() => 0),
             getIntercalaryDaysAfterMonth: vi.fn(() => []),
+            getSunriseSunset: vi.fn(() => ({ sunrise: 6, sunset: 18 })),
+            getHolidays: vi.fn(() => []),
+            getRevisionForMonth: vi.fn(() => null),
+            getWeekOfYear: vi.fn(() => 1),
           })),
           getActiveCalendar: vi.fn(() => ({
             months: [{ name: 'January', description: 'First month' }],
@@ -220,6 +224,7 @@ describe('CalendarGridWidget Note Permission Filtering', () => {
               { name: 'Monday', abbreviation: 'Mon' },
               { name: 'Tuesday', abbreviation: 'Tue' },
             ],
+            time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
           })),
           getCurrentDate: vi.fn(() => ({ year: 2024, month: 1, day: 1 })),
         },